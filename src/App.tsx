@@ -2,12 +2,47 @@ import reactLogo from './assets/react.svg';
 import viteLogo from '/vite.svg';
 import './App.css';
 import { ProvideDatabaseContext } from './database/context';
+import { initDatabase } from './database/initDatabase';
+import { InitProgress } from './database/SqliteDatabase';
+import {
+  LiveQueryInspector,
+  combineInstrumentation,
+  createConsoleInstrumentation,
+} from './database/instrumentation';
 import { Counter } from './Counter';
+import { QueryInspector } from './QueryInspector';
 import { Suspense } from 'react';
 
+const inspector = import.meta.env.DEV ? new LiveQueryInspector() : null;
+
+const init = (onProgress: (progress: InitProgress) => void) =>
+  initDatabase({
+    instrumentation: inspector
+      ? combineInstrumentation(createConsoleInstrumentation(), inspector)
+      : null,
+    onProgress,
+  });
+
 function App() {
   return (
-    <ProvideDatabaseContext>
+    <ProvideDatabaseContext
+      init={init}
+      fallback={(progress) =>
+        progress?.step === 'migrating'
+          ? `Updating the database (${progress.done + 1} of ${
+              progress.total
+            })...`
+          : 'Opening the database...'
+      }
+      errorFallback={(error, retry) => (
+        <div>
+          <p>The database could not be opened: {String(error)}</p>
+          <button type="button" onClick={retry}>
+            Retry
+          </button>
+        </div>
+      )}
+    >
       <div>
         <a href="https://vitejs.dev" target="_blank">
           <img src={viteLogo} className="logo" alt="Vite logo" />
@@ -19,7 +54,11 @@ function App() {
 
       <h1>ObserveSQLite</h1>
 
-      <Counter />
+      <Suspense fallback="loading">
+        <Counter />
+      </Suspense>
+
+      {inspector && <QueryInspector inspector={inspector} />}
     </ProvideDatabaseContext>
   );
 }
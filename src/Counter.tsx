@@ -1,68 +1,46 @@
-import { ComponentType, useCallback } from 'react';
+import { ComponentType } from 'react';
 import sql from 'sql-template-tag';
-import { useDatabaseContext } from './database/context';
-import { SQLiteClient } from './database/SqliteDatabase';
-import { useObservable, useObservableState } from 'observable-hooks';
-import { of, switchMap } from 'rxjs';
+import { useLiveRecord, useMutation } from './database/hooks';
+import { SQLiteClient, SQLiteTransaction } from './database/SqliteDatabase';
 import { CounterRecord } from './database/schema';
 
 export const Counter: ComponentType<{}> = () => {
   const counterId = '1';
-  const counter = useCounter(counterId);
-  const increment = useIncrement();
-
-  if (counter === 'loading') return 'loading';
+  const counter = useLiveRecord('counter', counterId, { suspense: true });
+  const [increment, { status }] = useMutation(incrementCounter);
 
   return (
     <div>
       <h2>The current count is: {counter?.value ?? 0}</h2>
-      <button type="button" onClick={() => increment(counterId)}>
+      <button
+        type="button"
+        onClick={() => increment(counterId)}
+        disabled={status === 'pending'}
+      >
         Increment
       </button>
     </div>
   );
 };
 
-function useCounter(counterId: string | null | undefined) {
-  const db = useDatabaseContext();
-
-  const query = useObservable(
-    (inputs$) => {
-      return inputs$.pipe(
-        switchMap(([counterId, db]) =>
-          counterId ? db.observeRecord('counter', counterId) : of(null)
-        )
-      );
-    },
-    [counterId, db]
-  );
-
-  const record = useObservableState(query, 'loading');
-
-  return record;
-}
-
-function useIncrement() {
-  const db = useDatabaseContext();
-
-  return useCallback(
-    async (counterId: string) => {
-      const count = await getCounter(db, counterId);
-
-      await db.writeRecordMap({
-        counter: {
-          [counterId]: {
-            id: counterId,
-            value: count.value + 1,
-          },
+function incrementCounter(db: SQLiteClient, counterId: string) {
+  // Reading and writing in one transaction means concurrent increments
+  // can't overwrite each other.
+  return db.transaction(async (tx) => {
+    const count = await getCounter(tx, counterId);
+
+    await tx.writeRecordMap({
+      counter: {
+        [counterId]: {
+          id: counterId,
+          value: count.value + 1,
         },
-      });
-    },
-    [db]
-  );
+      },
+    });
+  });
 }
 
-async function getCounter(db: SQLiteClient, counterId: string) {
+async function getCounter(db: SQLiteTransaction, counterId: string) {
   const query = sql`
     SELECT * FROM counter WHERE counter.id = ${counterId}
   `;
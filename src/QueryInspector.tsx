@@ -0,0 +1,68 @@
+import { ComponentType } from 'react';
+import { useObservableState } from 'observable-hooks';
+import { LiveQueryInspector } from './database/instrumentation';
+
+/**
+ * Lists every active live query along with the change which caused its
+ * latest run. Only rendered in development.
+ */
+export const QueryInspector: ComponentType<{
+  inspector: LiveQueryInspector;
+}> = ({ inspector }) => {
+  const queries = useObservableState(
+    inspector.queries$,
+    inspector.getQueries()
+  );
+
+  return (
+    <details className="query-inspector">
+      <summary>Live queries ({queries.length})</summary>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Query</th>
+            <th>Tables</th>
+            <th>Subscribers</th>
+            <th>Runs</th>
+            <th>Last run</th>
+            <th>Triggered by</th>
+          </tr>
+        </thead>
+        <tbody>
+          {queries.map((query) => (
+            <tr key={query.id}>
+              <td>
+                <code>{query.sql.trim()}</code>
+                {query.values.length > 0 && (
+                  <div>
+                    <code>{JSON.stringify(query.values)}</code>
+                  </div>
+                )}
+              </td>
+              <td>{query.tableNames.join(', ')}</td>
+              <td>{query.subscriberCount}</td>
+              <td>{query.runCount}</td>
+              <td>
+                {query.lastRun &&
+                  `${query.lastRun.duration.toFixed(1)}ms at ${new Date(
+                    query.lastRun.startedAt
+                  ).toLocaleTimeString()}`}
+                {query.lastRun?.error !== undefined && (
+                  <div>{String(query.lastRun.error)}</div>
+                )}
+              </td>
+              <td>
+                {query.lastRun?.trigger ? (
+                  <code>{JSON.stringify(query.lastRun.trigger.changes)}</code>
+                ) : (
+                  'first run'
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
@@ -0,0 +1,490 @@
+import sqlite3InitModule, {
+  Database,
+  SqlValue,
+  Sqlite3Static,
+} from '@sqlite.org/sqlite-wasm';
+import { RecordMap, RecordTable, searchIndexes, tables } from './schema';
+import { upsertRecordSql } from './upsertRecordSql';
+import { deleteRecordsSql } from './deleteRecordSql';
+import { ChangeCapture } from './changeCapture';
+import { Migration, migrate } from './migrate';
+import { migrations } from './migrations';
+import { assertSchemaMatches } from './defineSchema';
+import { isEqualRow } from './queryDiff';
+import { RecordWriteError, toSqliteError } from './errors';
+import { StatementCache, StatementCacheOptions } from './statementCache';
+import {
+  DatabaseStorage,
+  StorageErrorReporter,
+  StorageInfo,
+  assertDatabaseIsUsable,
+  deserialize,
+  openDatabase,
+} from './storage';
+import {
+  DatabaseChange,
+  DatabaseConnection,
+  InitProgress,
+  SQLiteClientExecProps,
+  SQLiteClientExecResult,
+  TransactionOptions,
+} from './connection';
+
+let modulePromise: ReturnType<typeof sqlite3InitModule> | undefined;
+
+// Loaded lazily so that importing this module doesn't download the wasm
+// build on threads which never open a database.
+function loadModule() {
+  return (modulePromise ||= sqlite3InitModule({
+    print: console.log,
+    printErr: console.error,
+  }));
+}
+
+export type DatabaseHostOptions = {
+  /**
+   * Defaults to the app's migrations. Opening the database rejects with a
+   * `MigrationError` if a migration fails, in which case the database is left
+   * at the version it was at before.
+   */
+  migrations?: Migration[];
+  /** Defaults to `{ type: 'memory' }`. */
+  storage?: DatabaseStorage;
+  /** How many compiled statements are kept (see `StatementCache`). */
+  statementCache?: StatementCacheOptions;
+  /**
+   * Told when the storage can't be used and the database falls back to
+   * memory, and when persisting the database fails. Defaults to logging to
+   * the console. Pass `null` to silence it, e.g. in tests which fall back
+   * on purpose. `getStorageInfo()` also reports a fallback.
+   */
+  onStorageError?: StorageErrorReporter | null;
+  /** Told when the database starts opening and before each migration. */
+  onProgress?: (progress: InitProgress) => void;
+};
+
+/**
+ * Owns the SQLite database. `DatabaseHost` runs wherever the database lives,
+ * either on the main thread where `SQLiteClient` can use it directly or in a
+ * worker where it is served to the client with `serveDatabase()`.
+ */
+export class DatabaseHost implements DatabaseConnection {
+  static async open(options: DatabaseHostOptions = {}) {
+    options.onProgress?.({ step: 'opening' });
+
+    const sqlite3 = await loadModule();
+    const onStorageError =
+      options.onStorageError === null ? () => {} : options.onStorageError;
+
+    const { db, info, persist } = await openDatabase(
+      sqlite3,
+      options.storage,
+      onStorageError
+    );
+
+    try {
+      migrate(db, options.migrations ?? migrations, {
+        onMigration: ({ version, name }, done, total) =>
+          options.onProgress?.({
+            step: 'migrating',
+            version,
+            name,
+            done,
+            total,
+          }),
+      });
+
+      if (!options.migrations) {
+        assertSchemaMatches(db, tables, searchIndexes);
+      }
+
+      await persist?.();
+    } catch (e) {
+      db.close();
+      throw e;
+    }
+
+    return new DatabaseHost(
+      db,
+      sqlite3,
+      new ChangeCapture(db, sqlite3.capi),
+      new StatementCache(db, sqlite3.capi, options.statementCache),
+      info,
+      options.migrations,
+      onStorageError,
+      persist
+    );
+  }
+
+  private changeSubscriptions = new Set<(change: DatabaseChange) => void>();
+
+  private transaction: {
+    id: string;
+    finished: Promise<void>;
+    finish: () => void;
+  } | null = null;
+
+  private transactionCount = 0;
+
+  private persistScheduled = false;
+
+  private constructor(
+    private db: Database,
+    private sqlite3: Sqlite3Static,
+    private changeCapture: ChangeCapture,
+    private statements: StatementCache,
+    private storageInfo: StorageInfo,
+    private migrations: Migration[] | undefined,
+    private onStorageError: StorageErrorReporter | undefined,
+    private persist?: () => Promise<void>
+  ) {}
+
+  async exec<T = { [columnName: string]: SqlValue }>(
+    args: SQLiteClientExecProps
+  ): Promise<SQLiteClientExecResult<T>> {
+    return this.withLock(args, () => this.execSync<T>(args));
+  }
+
+  private execSync<T>(args: SQLiteClientExecProps) {
+    // Worth noting that this is actually a synchronous operation since we're
+    // using the synchronous build of sqlite. But we don't want to commit to
+    // using the sync build so we wrap this method in a promise.
+    let res;
+
+    try {
+      res = this.statements.exec(args.sql, args.bind);
+    } catch (e) {
+      throw toSqliteError(e, this.sqlite3.capi, args.sql);
+    } finally {
+      // Even if a later statement fails, earlier statements in `args.sql`
+      // may have already been committed.
+      this.flushChanges();
+    }
+
+    return {
+      resultRows: res as T[],
+    } satisfies SQLiteClientExecResult<T>;
+  }
+
+  /**
+   * Upserts every record in the record map inside a single savepoint.
+   * Records whose value is `null` (tombstones) are deleted. If a record
+   * can't be written, nothing is and this rejects with a `RecordWriteError`
+   * saying which record it was.
+   */
+  async writeRecordMap(recordMap: RecordMap, options?: TransactionOptions) {
+    return this.withLock(options, () => this.writeRecordMapSync(recordMap));
+  }
+
+  private writeRecordMapSync(recordMap: RecordMap) {
+    this.db.savepoint(() => {
+      for (const [table, rows] of Object.entries(recordMap)) {
+        const deletedIds: string[] = [];
+
+        for (const [id, row] of Object.entries(rows)) {
+          if (row === null) {
+            deletedIds.push(id);
+            continue;
+          }
+
+          const query = upsertRecordSql(table as RecordTable, row);
+
+          try {
+            this.statements.exec(query.sql, query.values as SqlValue[]);
+          } catch (e) {
+            throw new RecordWriteError(
+              table,
+              id,
+              toSqliteError(e, this.sqlite3.capi, query.sql)
+            );
+          }
+        }
+
+        if (deletedIds.length === 0) continue;
+
+        for (const query of deleteRecordsSql(
+          table as RecordTable,
+          deletedIds
+        )) {
+          try {
+            this.statements.exec(query.sql, query.values as SqlValue[]);
+          } catch (e) {
+            throw new RecordWriteError(
+              table,
+              deletedIds.length === 1 ? deletedIds[0] : undefined,
+              toSqliteError(e, this.sqlite3.capi, query.sql)
+            );
+          }
+        }
+      }
+    });
+
+    this.flushChanges();
+  }
+
+  async getQueryTableNames(sql: string) {
+    // Compiling a statement doesn't touch the data so this doesn't need to
+    // wait for an open transaction.
+    return this.statements.getQueryTableNames(sql);
+  }
+
+  async beginTransaction() {
+    return this.withLock({}, () => {
+      this.db.exec('BEGIN');
+
+      let finish!: () => void;
+      const finished = new Promise<void>((resolve) => (finish = resolve));
+      const id = String(++this.transactionCount);
+
+      this.transaction = { id, finished, finish };
+
+      return id;
+    });
+  }
+
+  async commitTransaction(transactionId: string) {
+    return this.withLock({ transactionId }, () => {
+      try {
+        this.db.exec('COMMIT');
+      } catch (e) {
+        // E.g. a deferred foreign key constraint failed. SQLite leaves the
+        // transaction open in this case so we roll it back ourselves.
+        try {
+          this.rollback();
+        } finally {
+          this.endTransaction();
+        }
+
+        throw toSqliteError(e, this.sqlite3.capi, 'COMMIT');
+      }
+
+      return this.endTransaction();
+    });
+  }
+
+  async rollbackTransaction(transactionId: string) {
+    return this.withLock({ transactionId }, () => {
+      try {
+        this.rollback();
+      } finally {
+        this.endTransaction();
+      }
+    });
+  }
+
+  subscribeToChanges(callback: (change: DatabaseChange) => void) {
+    this.changeSubscriptions.add(callback);
+
+    return () => {
+      this.changeSubscriptions.delete(callback);
+    };
+  }
+
+  async exportSnapshot() {
+    return this.withLock({}, () =>
+      this.sqlite3.capi.sqlite3_js_db_export(this.db)
+    );
+  }
+
+  async importSnapshot(snapshot: Uint8Array) {
+    // The snapshot is migrated in a scratch database so that a snapshot
+    // which can't be used leaves our database as it was.
+    const recordMap = this.readSnapshot(snapshot);
+
+    return this.withLock({}, () => this.importRecordMapSync(recordMap));
+  }
+
+  async exportRecordMap(options?: TransactionOptions) {
+    return this.withLock(options, () => readRecordMap(this.db));
+  }
+
+  async importRecordMap(recordMap: RecordMap, options?: TransactionOptions) {
+    return this.withLock(options, () => this.importRecordMapSync(recordMap));
+  }
+
+  private readSnapshot(snapshot: Uint8Array) {
+    const db = new this.sqlite3.oo1.DB(':memory:');
+
+    try {
+      deserialize(this.sqlite3, db, snapshot);
+      assertDatabaseIsUsable(db);
+      migrate(db, this.migrations ?? migrations);
+
+      if (!this.migrations) {
+        assertSchemaMatches(db, tables, searchIndexes);
+      }
+
+      return readRecordMap(db);
+    } catch (e) {
+      throw toSqliteError(e, this.sqlite3.capi);
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Writes the difference between the current records and `recordMap` so
+   * that records which are the same aren't reported as changed.
+   */
+  private importRecordMapSync(recordMap: RecordMap) {
+    const current = readRecordMap(this.db);
+    const diff: { [table: string]: { [id: string]: unknown } } = {};
+
+    for (const table of Object.keys(tables) as RecordTable[]) {
+      const currentRows: { [id: string]: unknown } = current[table] ?? {};
+      const rows: { [id: string]: unknown } = recordMap[table] ?? {};
+      const tableDiff: { [id: string]: unknown } = {};
+
+      for (const id of Object.keys(currentRows)) {
+        if (!rows[id]) tableDiff[id] = null;
+      }
+
+      for (const [id, row] of Object.entries(rows)) {
+        if (
+          row &&
+          !isEqualRow(
+            row as { [column: string]: unknown },
+            (currentRows[id] ?? null) as { [column: string]: unknown } | null
+          )
+        ) {
+          tableDiff[id] = row;
+        }
+      }
+
+      if (Object.keys(tableDiff).length > 0) diff[table] = tableDiff;
+    }
+
+    this.writeRecordMapSync(diff as RecordMap);
+  }
+
+  async getStorageInfo() {
+    return this.storageInfo;
+  }
+
+  async close() {
+    return this.withLock({}, async () => {
+      // `persist()` exports the database synchronously before saving it
+      const persisted = this.persist?.();
+      this.statements.close();
+      this.db.close();
+      this.changeSubscriptions.clear();
+      await persisted;
+    });
+  }
+
+  /**
+   * Runs `fn` once this caller is allowed to use the database. Calls made as
+   * part of the open transaction run immediately and everything else waits
+   * for the open transaction to finish. `fn` is called synchronously after
+   * the final check so that nothing can sneak in between.
+   */
+  private async withLock<T>(options: TransactionOptions = {}, fn: () => T) {
+    if (options.transactionId !== undefined) {
+      if (this.transaction?.id !== options.transactionId) {
+        throw new Error(
+          `Transaction ${options.transactionId} is not open. It may have ` +
+            `already been committed or rolled back.`
+        );
+      }
+
+      return fn();
+    }
+
+    while (this.transaction) {
+      await this.transaction.finished;
+    }
+
+    return fn();
+  }
+
+  private rollback() {
+    try {
+      this.db.exec('ROLLBACK');
+    } catch (e) {
+      // Some errors (e.g. SQLITE_FULL) cause SQLite to roll the transaction
+      // back on its own.
+      if (!/no transaction is active/.test(String(e))) throw e;
+    }
+  }
+
+  private endTransaction() {
+    const transaction = this.transaction;
+    this.transaction = null;
+    const change = this.flushChanges();
+    transaction?.finish();
+    return change;
+  }
+
+  /**
+   * Emits the row changes that SQLite has recorded since the last flush
+   * (see `ChangeCapture`). This is how every write, including raw SQL run
+   * through `exec()`, reaches our subscribers.
+   *
+   * @returns the change, or `null` if there wasn't one.
+   */
+  private flushChanges() {
+    this.schedulePersist();
+    this.changeCapture.sync();
+
+    const rowChanges = this.changeCapture.drain();
+
+    if (rowChanges.length === 0) return null;
+
+    const tableNames = new Set<string>();
+    const changes: { [table: string]: { [id: string]: unknown } } = {};
+
+    for (const rowChange of rowChanges) {
+      tableNames.add(rowChange.table);
+      changes[rowChange.table] ||= {};
+      changes[rowChange.table][rowChange.id] = rowChange.record;
+    }
+
+    const change: DatabaseChange = {
+      tableNames: Array.from(tableNames),
+      changes: changes as RecordMap,
+      rowChanges,
+    };
+
+    for (const callback of this.changeSubscriptions) {
+      callback(change);
+    }
+
+    return change;
+  }
+
+  private schedulePersist() {
+    if (!this.persist || this.persistScheduled) return;
+
+    this.persistScheduled = true;
+
+    setTimeout(() => {
+      this.persistScheduled = false;
+
+      if (!this.db.isOpen()) return;
+
+      this.persist?.().catch((e) =>
+        (this.onStorageError ?? console.error)(
+          'Failed to persist the database',
+          e
+        )
+      );
+    });
+  }
+}
+
+/** Reads every record in the tables of our schema. */
+function readRecordMap(db: Database) {
+  const recordMap: { [table: string]: { [id: string]: unknown } } = {};
+
+  for (const table of Object.keys(tables)) {
+    const rows: { [id: string]: unknown } = {};
+
+    for (const row of db.selectObjects(`SELECT * FROM ${table}`)) {
+      rows[String(row.id)] = row;
+    }
+
+    recordMap[table] = rows;
+  }
+
+  return recordMap as RecordMap;
+}
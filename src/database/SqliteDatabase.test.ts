@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DatabaseChange, SQLiteClient } from './SqliteDatabase';
+import { SqliteError } from './errors';
+import { RecordMap } from './schema';
+import { MigrationError } from './migrate';
+import { migrations } from './migrations';
+import { createClient } from '../test/client';
+import { loadSqlite, openMemoryDatabase } from '../test/sqlite';
+
+const records = {
+  counter: { a: { id: 'a', value: 1 } },
+  thread: { t1: { id: 't1', subject: 'Hello' } },
+  message: { m1: { id: 'm1', thread_id: 't1', content: 'Hi there' } },
+} as RecordMap;
+
+/** What `exportRecordMap()` resolves with when every table is empty. */
+const empty = { counter: {}, thread: {}, message: {} };
+
+/** A client which delivers every change to `changes` as soon as it's made. */
+async function createRecordingClient(
+  options: Parameters<typeof createClient>[0] = {}
+) {
+  const client = await createClient({
+    ...options,
+    scheduler: { visible: 'sync' },
+  });
+  const changes: DatabaseChange[] = [];
+
+  client.subscribeToRowChanges((change) => changes.push(change));
+
+  return { client, changes };
+}
+
+/** The bytes of a database built by running `sql`. */
+async function snapshotOf(sql: string) {
+  const sqlite3 = await loadSqlite();
+  const db = await openMemoryDatabase();
+
+  try {
+    db.exec(sql);
+    return sqlite3.capi.sqlite3_js_db_export(db);
+  } finally {
+    db.close();
+  }
+}
+
+describe('importSnapshot', () => {
+  it('replaces every record with one change covering every affected table', async () => {
+    const source = await createClient();
+    await source.writeRecordMap(records);
+    const snapshot = await source.exportSnapshot();
+
+    const { client, changes } = await createRecordingClient();
+    await client.writeRecordMap({
+      counter: { a: { id: 'a', value: 1 }, b: { id: 'b', value: 2 } },
+    } as RecordMap);
+    changes.length = 0;
+
+    await client.importSnapshot(snapshot);
+
+    expect(await client.exportRecordMap()).toEqual(records);
+    expect(changes).toHaveLength(1);
+    expect([...changes[0].tableNames].sort()).toEqual([
+      'counter',
+      'message',
+      'thread',
+    ]);
+    // the unchanged counter isn't reported
+    expect(changes[0].changes).toEqual({
+      counter: { b: null },
+      thread: records.thread,
+      message: records.message,
+    });
+  });
+
+  it("rejects without changing anything when the snapshot can't be used", async () => {
+    const { client, changes } = await createRecordingClient();
+    await client.writeRecordMap(records);
+    changes.length = 0;
+
+    const snapshots: [
+      Uint8Array,
+      (new (...args: never[]) => Error) | string,
+    ][] = [
+      // not a database
+      [new TextEncoder().encode('not a database'), SqliteError],
+      // the first migration fails
+      [
+        await snapshotOf('CREATE TABLE counter (id TEXT PRIMARY KEY)'),
+        MigrationError,
+      ],
+      // migrated, but with a different schema
+      [
+        await snapshotOf(`
+          CREATE TABLE counter (id TEXT PRIMARY KEY);
+          PRAGMA user_version = ${migrations.at(-1)!.version};
+        `),
+        'The database schema does not match',
+      ],
+    ];
+
+    for (const [snapshot, error] of snapshots) {
+      await expect(client.importSnapshot(snapshot)).rejects.toThrow(error);
+    }
+
+    expect(await client.exportRecordMap()).toEqual(records);
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('importRecordMap', () => {
+  it('deletes the records which are missing with one change', async () => {
+    const { client, changes } = await createRecordingClient();
+    await client.writeRecordMap(records);
+    changes.length = 0;
+
+    await client.importRecordMap({
+      counter: { a: { id: 'a', value: 2 } },
+    } as RecordMap);
+
+    expect(await client.exportRecordMap()).toEqual({
+      ...empty,
+      counter: { a: { id: 'a', value: 2 } },
+    });
+    expect(changes).toHaveLength(1);
+    expect(changes[0].changes).toEqual({
+      counter: { a: { id: 'a', value: 2 } },
+      thread: { t1: null },
+      message: { m1: null },
+    });
+  });
+
+  it("doesn't emit a change when nothing differs", async () => {
+    const { client, changes } = await createRecordingClient();
+    await client.writeRecordMap(records);
+    changes.length = 0;
+
+    await client.importRecordMap(records);
+
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('hydrate', () => {
+  it('loads a snapshot or a record map before init() resolves', async () => {
+    const source = await createClient();
+    await source.writeRecordMap(records);
+
+    for (const data of [await source.exportSnapshot(), records]) {
+      const client = await createClient({ hydrate: { source: data } });
+
+      expect(await client.exportRecordMap()).toEqual(records);
+    }
+  });
+
+  it('only fetches the source when the database is empty or replaced', async () => {
+    const store = {
+      load: async (): Promise<Uint8Array | null> => null,
+      save: async () => {},
+    };
+    const storage = { type: 'snapshot' as const, store };
+
+    // a database persisted by an earlier visit
+    const earlier = await createClient({ storage });
+    await earlier.writeRecordMap({
+      counter: { b: { id: 'b', value: 2 } },
+    } as RecordMap);
+    const persisted = await earlier.exportSnapshot();
+    store.load = async () => persisted;
+
+    const source = vi.fn(async () => records);
+
+    const kept = await createClient({ storage, hydrate: { source } });
+
+    expect(source).not.toHaveBeenCalled();
+    expect(await kept.exportRecordMap()).toEqual({
+      ...empty,
+      counter: { b: { id: 'b', value: 2 } },
+    });
+
+    const replaced = await createClient({
+      storage,
+      hydrate: { source, replace: true },
+    });
+
+    expect(source).toHaveBeenCalledOnce();
+    expect(await replaced.exportRecordMap()).toEqual(records);
+  });
+
+  it('skips hydrating when the source resolves to null', async () => {
+    const client = await createClient({
+      hydrate: { source: async () => null },
+    });
+
+    expect(await client.exportRecordMap()).toEqual(empty);
+  });
+
+  it('rejects and closes the database when the data is bad', async () => {
+    const close = vi.spyOn(SQLiteClient.prototype, 'close');
+
+    await expect(
+      SQLiteClient.init({
+        instrumentation: null,
+        hydrate: { source: new TextEncoder().encode('not a database') },
+      })
+    ).rejects.toBeInstanceOf(SqliteError);
+    expect(close).toHaveBeenCalledOnce();
+
+    close.mockRestore();
+  });
+});
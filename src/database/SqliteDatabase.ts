@@ -1,54 +1,364 @@
-import sqlite3InitModule, { Database, SqlValue } from '@sqlite.org/sqlite-wasm';
-import { hasIntersection, parseTestTableNames } from './parseTableNames';
-import { Observable, from, share, switchMap, throttle } from 'rxjs';
-import { RecordMap, RecordTable, schema } from './schema';
-import { upsertRecordSql } from './upsertRecordSql';
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import {
+  QueryDependencies,
+  RowFilterCache,
+  RowFilterCacheOptions,
+  changeAffectsQuery,
+  parseQueryDependencies,
+} from './queryDependencies';
+import { Observable, distinctUntilChanged, filter, map, of, scan } from 'rxjs';
+import { Sql } from 'sql-template-tag';
+import {
+  RecordMap,
+  RecordTable,
+  RecordValue,
+  SearchIndex,
+  searchIndexes,
+  tables,
+} from './schema';
+import { deleteRecordsSql, deleteWhereSql } from './deleteRecordSql';
+import type { DatabaseHostOptions } from './DatabaseHost';
+import type { DatabaseStorage } from './storage';
+import type { StatementCacheOptions } from './statementCache';
+import { RpcConnection, messagePortTransport } from './rpc';
+import { SQLiteTransaction, runTransaction } from './transaction';
+import { History, HistoryOptions } from './history';
+import {
+  MutationQueue,
+  MutationQueueOptions,
+  MutationTransport,
+} from './mutations';
+import { connectAcrossTabs, createChangeBroadcast } from './crossTab';
+import { QueryCache, QueryCacheOptions, toCacheKey } from './queryCache';
+import {
+  Instrumentation,
+  createConsoleInstrumentation,
+} from './instrumentation';
+import {
+  RetryPolicy,
+  observable,
+  runLiveQuery,
+  unwrapOutcome,
+} from './observable';
+import {
+  ChangePriority,
+  ChangeScheduler,
+  ChangeSchedulerOptions,
+} from './scheduler';
+import { quoteIdentifier } from './changeCapture';
+import { LiveWindow, LiveWindowOptions, LiveWindowSource } from './pagination';
+import {
+  AggregateGroups,
+  LiveAggregateOptions,
+  LiveAggregateSource,
+  observeAggregate,
+} from './aggregates';
+import {
+  SearchIndexTable,
+  SearchOptions,
+  SearchResult,
+  searchStatement,
+  toSearchResults,
+} from './search';
+import {
+  SubscriptionManager,
+  SubscriptionTransport,
+  querySubscriptionKeys,
+  recordSubscriptionKey,
+} from './subscriptions';
+import {
+  QueryDiff,
+  diffRows,
+  isEmptyDiff,
+  isEqualRow,
+  isEqualRows,
+} from './queryDiff';
+import {
+  DatabaseChange,
+  DatabaseConnection,
+  InitProgress,
+  SQLiteClientExecProps,
+  SQLiteClientExecResult,
+} from './connection';
+
+export type { DatabaseChange, InitProgress } from './connection';
+export type { SQLiteTransaction } from './transaction';
+
+export type SQLiteClientOptions = {
+  mutationTransport?: MutationTransport;
+  /** When mutations which failed to send are sent again. */
+  mutationQueue?: MutationQueueOptions;
+  subscriptionTransport?: SubscriptionTransport;
+  /**
+   * The name of a `BroadcastChannel` used to share changes with clients in
+   * other tabs. Use this when each tab opens its own connection to a shared
+   * persisted database so that a write in one tab updates live queries in
+   * the others. It isn't needed with `initInWorker({ shareAcrossTabs })`.
+   */
+  broadcastChannelName?: string;
+  /**
+   * Configures how long `observeQuery()` and `observeRecord()` keep a query
+   * which nothing observes any more (see `QueryCache`).
+   */
+  queryCache?: QueryCacheOptions;
+  /**
+   * How many queries' row filters are kept (see `parseQueryDependencies`).
+   */
+  rowFilterCache?: RowFilterCacheOptions;
+  /**
+   * Receives every change and live query run (see `Instrumentation`).
+   * Defaults to logging changes to the console. Pass `null` to silence it,
+   * e.g. in production.
+   */
+  instrumentation?: Instrumentation | null;
+  /**
+   * When changes are delivered to live queries and `subscribeToRowChanges()`
+   * callbacks. Changes made within each window are merged into one (see
+   * `ChangeScheduler`). By default, changes to what's on screen are
+   * delivered once the writing code yields, and background queries are
+   * updated 100ms later.
+   */
+  scheduler?: ChangeSchedulerOptions;
+  /**
+   * Loads a snapshot from `exportSnapshot()` or a record map from
+   * `exportRecordMap()` before `init()` resolves, e.g. to start from data
+   * sent with the page rather than waiting for the server. `source` may be
+   * a function so that it's only fetched when it will be used. It resolves
+   * to `null` to skip hydrating.
+   *
+   * A database which already has records (e.g. one persisted by an earlier
+   * visit) isn't hydrated unless `replace` is `true`.
+   */
+  hydrate?: {
+    source: DatabaseExport | (() => Promise<DatabaseExport | null>);
+    replace?: boolean;
+  };
+  /**
+   * Told what `init()` is doing: opening the database, applying each
+   * migration and hydrating. Useful for showing progress while a slow
+   * migration runs.
+   */
+  onProgress?: (progress: InitProgress) => void;
+};
 
-const modulePromise = sqlite3InitModule({
-  print: console.log,
-  printErr: console.error,
-});
+/** A whole database from `exportSnapshot()` or `exportRecordMap()`. */
+export type DatabaseExport = Uint8Array | RecordMap;
+
+export type ObserveOptions = {
+  /**
+   * By default the observable re-emits every time the query is re-run, even
+   * if the result is identical. When `true`, results equal to the previous
+   * emission are skipped.
+   */
+  distinct?: boolean;
+  /**
+   * The scheduler lane the query is updated in (see `ChangePriority`).
+   * Defaults to `visible`.
+   */
+  priority?: ChangePriority;
+  /**
+   * What the query does after it fails (see `RetryPolicy`). Each subscriber
+   * receives the error and is unsubscribed, but by default the shared query
+   * keeps running and recovers on the next change which may affect it, so
+   * subscribing again (e.g. from an error boundary's retry button) receives
+   * its next result. `false` ends the query.
+   *
+   * Only observables whose policies hold the same functions share a query,
+   * so a policy with `delay` or `shouldRetry` functions should be defined
+   * once (or memoized in a component) rather than on every call.
+   */
+  retry?: RetryPolicy | false;
+};
 
 export class SQLiteClient {
-  static async init() {
-    const sqlite3 = await modulePromise;
-    const db = new sqlite3.oo1.DB(':memory:');
-    db.exec({ sql: schema });
-    return new SQLiteClient(db);
+  /**
+   * Opens the database on the current thread unless a `connection` to a
+   * database elsewhere (e.g. an `RpcConnection`) is provided.
+   *
+   * @param options.migrations see `DatabaseHostOptions`.
+   * @param options.mutationTransport sends `mutate()`d records to the server.
+   * @param options.subscriptionTransport subscribes to the server's updates
+   *   for every record and query which is being observed (see
+   *   `SubscriptionManager`).
+   */
+  static async init(
+    options: DatabaseHostOptions &
+      SQLiteClientOptions & {
+        connection?: DatabaseConnection | Promise<DatabaseConnection>;
+      } = {}
+  ) {
+    // `DatabaseHost` is imported on demand so that the sqlite build isn't
+    // bundled into the main thread when the database lives in a worker.
+    const connection = await (options.connection ??
+      import('./DatabaseHost').then(({ DatabaseHost }) =>
+        DatabaseHost.open(options)
+      ));
+
+    const client = new SQLiteClient(connection, options);
+
+    if (options.hydrate) {
+      options.onProgress?.({ step: 'hydrating' });
+
+      try {
+        await client.hydrate(options.hydrate);
+      } catch (e) {
+        await client.close();
+        throw e;
+      }
+    }
+
+    return client;
   }
 
-  private changeSubscriptions = new Set<(change: DatabaseChange) => void>();
+  /**
+   * Opens the database inside a dedicated Web Worker (see
+   * `./sqlite.worker.ts`) so that queries don't block the main thread.
+   *
+   * @param options.storage must be structured-cloneable so `snapshot`
+   *   storage isn't supported here.
+   * @param options.statementCache see `DatabaseHostOptions`.
+   * @param options.mutationTransport see `init()`. Transports stay on the
+   *   current thread.
+   * @param options.shareAcrossTabs when `true`, only one tab (the elected
+   *   leader) opens the database and the other tabs send their queries to
+   *   it (see `connectAcrossTabs`). Use this for storage which only one
+   *   connection may hold at a time.
+   */
+  static async initInWorker(
+    options: SQLiteClientOptions & {
+      storage?: Exclude<DatabaseStorage, { type: 'snapshot' }>;
+      statementCache?: StatementCacheOptions;
+      shareAcrossTabs?: boolean;
+    } = {}
+  ) {
+    const {
+      storage,
+      statementCache,
+      shareAcrossTabs,
+      onProgress,
+      ...clientOptions
+    } = options;
+
+    const openWorker = async () => {
+      const worker = new Worker(
+        new URL('./sqlite.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+
+      try {
+        return await RpcConnection.connect(
+          messagePortTransport(worker),
+          { storage, statementCache } satisfies DatabaseHostOptions,
+          onProgress
+        );
+      } catch (e) {
+        worker.terminate();
+        throw e;
+      }
+    };
 
-  private constructor(private db: Database) {}
+    return SQLiteClient.init({
+      ...clientOptions,
+      onProgress,
+      connection: shareAcrossTabs
+        ? connectAcrossTabs({
+            name: `observable-sqlite:${
+              storage?.type === 'opfs' ? storage.filename : 'memory'
+            }`,
+            open: openWorker,
+          })
+        : openWorker(),
+    });
+  }
 
-  async exec<T = { [columnName: string]: SqlValue }>(
-    args: SQLiteClientExecProps
-  ): Promise<{ resultRows: T[] }> {
-    // Worth noting that this is actually a synchronous operation since we're
-    // using the synchronous build of sqlite. But we don't want to commit to
-    // using the sync build so we wrap this method in a promise.
-    const res = this.db.exec({
-      sql: args.sql,
-      bind: args.bind,
-      returnValue: 'resultRows',
-      rowMode: 'object',
+  private scheduler: ChangeScheduler;
+
+  private mutationQueue: MutationQueue | undefined;
+
+  private subscriptionManager: SubscriptionManager | undefined;
+
+  private changeBroadcast: ReturnType<typeof createChangeBroadcast> | undefined;
+
+  private queryCache: QueryCache;
+
+  private rowFilterCache: RowFilterCache;
+
+  private instrumentation: Instrumentation | undefined;
+
+  private constructor(
+    private connection: DatabaseConnection,
+    options: SQLiteClientOptions = {}
+  ) {
+    this.instrumentation =
+      options.instrumentation === undefined
+        ? createConsoleInstrumentation()
+        : options.instrumentation ?? undefined;
+
+    this.scheduler = new ChangeScheduler(options.scheduler);
+
+    this.rowFilterCache = new RowFilterCache(options.rowFilterCache);
+
+    this.queryCache = new QueryCache(options.queryCache, {
+      onSubscriberCount: (key, count) =>
+        this.instrumentation?.onQuerySubscribers?.(key, count),
+      onRemove: (key) => this.instrumentation?.onQueryStop?.(key),
     });
 
-    return {
-      resultRows: res as T[],
-    };
+    connection.subscribeToChanges((change) => {
+      this.changeBroadcast?.post(change);
+      this.emitTableChanges(change);
+    });
+
+    if (options.broadcastChannelName) {
+      this.changeBroadcast = createChangeBroadcast(
+        options.broadcastChannelName,
+        (change) => this.emitTableChanges(change)
+      );
+    }
+
+    if (options.mutationTransport) {
+      this.mutationQueue = new MutationQueue(
+        connection,
+        options.mutationTransport,
+        options.mutationQueue
+      );
+    }
+
+    if (options.subscriptionTransport) {
+      this.subscriptionManager = new SubscriptionManager(
+        options.subscriptionTransport,
+        (recordMap) => this.writeRecordMap(recordMap)
+      );
+    }
+  }
+
+  async exec<T = { [columnName: string]: SqlValue }>(
+    args: SQLiteClientExecProps
+  ): Promise<SQLiteClientExecResult<T>> {
+    return this.connection.exec<T>(args);
   }
 
   /**
-   * @returns an object with runQuery and subscribe methods.
+   * @returns an object with runQuery, subscribe and watch methods.
    *   - runQuery will run an async query returning the specified record or null.
-   *   - subscribe recieves an onChange callback that will be called whenever the
-   *     runQuery result changes in the database. It returns an unsubscribe function.
+   *   - subscribe recieves an onChange callback that will be called (with the
+   *     change) whenever the runQuery result changes in the database. It
+   *     returns an unsubscribe function.
    *     Use runQuery inside the onChange callback to get the current query results.
+   *   - watch runs the query and calls onResult with the record now and
+   *     after every change to it. Runs never overlap: changes made during a
+   *     run cause one more run once it finishes (see `runLiveQuery`). If the
+   *     query fails, onError is called and by default the query runs again
+   *     after the next change (see `RetryPolicy`). It returns a function
+   *     which stops watching.
    */
-  liveRecord(table: RecordTable, id: string) {
+  liveRecord<T extends RecordTable>(
+    table: T,
+    id: string,
+    options: { priority?: ChangePriority } = {}
+  ) {
     const runQuery = async () => {
-      const { resultRows } = await this.exec({
+      const { resultRows } = await this.exec<RecordValue<T>>({
         sql: `SELECT * FROM ${table} WHERE ${table}.id = $1 LIMIT 1`,
         bind: { $1: id },
       });
@@ -56,246 +366,643 @@ export class SQLiteClient {
       return resultRows[0] || null;
     };
 
+    const subscribe = (onChange: (change: DatabaseChange) => void) =>
+      this.subscribeWhileServerSubscribed(
+        () => [recordSubscriptionKey(table, id)],
+        (change) => {
+          if (!changeIncludesRecord(change, table, id)) return;
+          onChange(change);
+        },
+        options.priority
+      );
+
     return {
       runQuery,
-      subscribe: (onChange: () => void) =>
-        this.subscribeToRowChanges(({ changes }) => {
-          if (!(table in changes) || !(id in changes[table])) return;
-          onChange();
+      subscribe,
+      watch: (
+        onResult: (record: RecordValue<T> | null) => void,
+        onError: (error: unknown) => void = reportLiveQueryError,
+        watchOptions: { retry?: RetryPolicy | false } = {}
+      ) =>
+        runLiveQuery({
+          runQuery,
+          subscribeToQuery: subscribe,
+          onResult,
+          onError,
+          retry: watchOptions.retry,
         }),
     };
   }
 
   /**
    * Same as liveRecord except returns an Observable for the query.
-   * The observable version has backpressure support which the liveRecord
-   * version doesn't have out of the box (you'd need to build it on
-   * top of the liveRecord version).
+   *
+   * Observables for the same record share one query and new subscribers
+   * receive its latest result right away.
    */
-  observeRecord(table: RecordTable, id: string) {
-    const runQuery = async () => {
-      const { resultRows } = await this.exec({
-        sql: `SELECT * FROM ${table} WHERE ${table}.id = $1 LIMIT 1`,
-        bind: { $1: id },
-      });
-
-      return resultRows[0] || null;
-    };
-
-    const subscribeToQuery = (onChange: () => void) =>
-      this.subscribeToRowChanges(({ changes }) => {
-        if (!(table in changes) || !(id in changes[table])) return;
-        onChange();
-      });
+  observeRecord<T extends RecordTable>(
+    table: T,
+    id: string,
+    options: ObserveOptions = {}
+  ) {
+    const key = toCacheKey([
+      'record',
+      table,
+      id,
+      options.priority,
+      options.retry,
+    ]);
+
+    const query = this.queryCache
+      .get(
+        key,
+        () => {
+          const { runQuery, subscribe: subscribeToQuery } = this.liveRecord(
+            table,
+            id,
+            options
+          );
+
+          this.instrumentation?.onQueryStart?.({
+            id: key,
+            sql: `SELECT * FROM ${table} WHERE ${table}.id = $1 LIMIT 1`,
+            values: [id],
+          });
 
-    return observable({
-      runQuery,
-      subscribeToQuery,
-    });
+          return observable({
+            runQuery,
+            subscribeToQuery,
+            onRun: (run) =>
+              this.instrumentation?.onQueryRun?.({
+                ...run,
+                id: key,
+                tableNames: [table],
+                rowCount:
+                  run.result === undefined ? undefined : run.result ? 1 : 0,
+              }),
+            retry: options.retry,
+          });
+        },
+        (outcome) => ('value' in outcome && outcome.value ? 1 : 0),
+        (outcome) => 'value' in outcome
+      )
+      .pipe(unwrapOutcome());
+
+    return options.distinct
+      ? query.pipe(distinctUntilChanged<RecordValue<T> | null>(isEqualRow))
+      : query;
   }
 
   /**
-   * @returns an object with runQuery and subscribe methods.
+   * @returns an object with runQuery, subscribe and watch methods.
    *   - runQuery will run an async query returning the current query results.
-   *   - subscribe recieves an onChange callback that will be called whenever the
-   *     runQuery result may have changed in the database. `onChange` will likely
+   *   - subscribe recieves an onChange callback that will be called (with the
+   *     change) whenever the runQuery result may have changed in the database.
+   *     `onChange` will likely
    *     be called more times than necessary. It returns an unsubscribe
    *     function. Use runQuery inside the onChange callback to get the current
    *     query results.
+   *   - watch runs the query and calls onResult with the results now and
+   *     whenever they may have changed, with the same guarantees as
+   *     observeQuery: runs never overlap and changes made during a run
+   *     cause one more run once it finishes (see `runLiveQuery`). Errors
+   *     are handled as in liveRecord's watch. It returns a function which
+   *     stops watching.
+   *
+   * SQLite reports which tables the query reads (see `parseTableNames`) so
+   * views and CTEs are followed to the tables behind them. Changes are
+   * ignored when the changed rows can't match simple equality filters in the
+   * query's `WHERE` clause (see `parseQueryDependencies`). If the query
+   * can't be observed (e.g. it doesn't compile or isn't read-only) runQuery
+   * rejects with a `QueryTableNamesError` explaining why. SQLite is asked
+   * again on the next run, so a query reading a table which a migration
+   * hasn't created yet works once it has.
    */
-  liveQuery(statement: { sql: string; values: any[] }) {
-    const affectedTableNames = parseTestTableNames(statement.sql);
+  liveQuery<T = { [columnName: string]: SqlValue }>(
+    statement: {
+      sql: string;
+      values: any[];
+    },
+    options: { priority?: ChangePriority } = {}
+  ) {
+    let dependencies: QueryDependencies | undefined;
+
+    const getDependencies = () => {
+      const promise = this.getQueryDependencies(statement.sql);
+
+      promise.then(
+        (value) => (dependencies = value),
+        // runQuery reports the error
+        () => {}
+      );
+
+      return promise;
+    };
 
-    if (affectedTableNames.length === 0) {
-      throw new Error('Could not calculate selected table names');
-    }
+    let dependenciesPromise = getDependencies();
+
+    const runQuery = async () => {
+      await dependenciesPromise.catch(
+        () => (dependenciesPromise = getDependencies())
+      );
+
+      return this.exec<T>({ sql: statement.sql, bind: statement.values });
+    };
 
-    const runQuery = () =>
-      this.exec({ sql: statement.sql, bind: statement.values });
+    const subscribe = (onChange: (change: DatabaseChange) => void) =>
+      this.subscribeWhileServerSubscribed(
+        () =>
+          dependenciesPromise.then((dependencies) =>
+            querySubscriptionKeys(dependencies, statement.values)
+          ),
+        (change) => {
+          // Until SQLite has told us what the query reads, any change might
+          // affect it.
+          if (
+            dependencies &&
+            !changeAffectsQuery(change, dependencies, statement.values)
+          ) {
+            return;
+          }
+
+          onChange(change);
+        },
+        options.priority
+      );
 
     return {
       runQuery,
-      subscribe: (onChange: () => void) =>
-        this.subscribeToRowChanges(({ tableNames }) => {
-          if (!hasIntersection(affectedTableNames, tableNames)) return;
-          onChange();
+      /** The tables the query reads. */
+      getTableNames: () =>
+        dependenciesPromise.then((dependencies) => dependencies.tableNames),
+      subscribe,
+      watch: (
+        onResult: (result: SQLiteClientExecResult<T>) => void,
+        onError: (error: unknown) => void = reportLiveQueryError,
+        watchOptions: { retry?: RetryPolicy | false } = {}
+      ) =>
+        runLiveQuery({
+          runQuery,
+          subscribeToQuery: subscribe,
+          onResult,
+          onError,
+          retry: watchOptions.retry,
         }),
     };
   }
 
   /**
    * Same as liveQuery except returns an Observable for the query.
-   * The observable version has backpressure support which the liveQuery
-   * version doesn't have out of the box (you'd need to build it on
-   * top of the liveQuery version).
+   *
+   * Observables for the same `{ sql, values }` share one query, so it only
+   * runs once per change however many subscribers there are, and new
+   * subscribers receive its latest result right away.
+   */
+  observeQuery<T = { [columnName: string]: SqlValue }>(
+    statement: {
+      sql: string;
+      values: any[];
+    },
+    options: ObserveOptions = {}
+  ) {
+    const key = toCacheKey([
+      'query',
+      statement.sql,
+      statement.values,
+      options.priority,
+      options.retry,
+    ]);
+
+    const query = this.queryCache
+      .get(
+        key,
+        () => {
+          const {
+            runQuery,
+            getTableNames,
+            subscribe: subscribeToQuery,
+          } = this.liveQuery<T>(statement, options);
+
+          this.instrumentation?.onQueryStart?.({
+            id: key,
+            sql: statement.sql,
+            values: statement.values,
+          });
+
+          return observable({
+            runQuery,
+            subscribeToQuery,
+            onRun: async (run) => {
+              if (!this.instrumentation?.onQueryRun) return;
+
+              this.instrumentation.onQueryRun({
+                ...run,
+                id: key,
+                tableNames: await getTableNames().catch(() => []),
+                rowCount: run.result?.resultRows.length,
+              });
+            },
+            retry: options.retry,
+          });
+        },
+        (outcome) => ('value' in outcome ? outcome.value.resultRows.length : 0),
+        (outcome) => 'value' in outcome
+      )
+      .pipe(unwrapOutcome());
+
+    return options.distinct
+      ? query.pipe(
+          distinctUntilChanged((a, b) =>
+            isEqualRows(
+              a.resultRows as { [columnName: string]: unknown }[],
+              b.resultRows as { [columnName: string]: unknown }[]
+            )
+          )
+        )
+      : query;
+  }
+
+  /**
+   * Like observeQuery except each emission describes how the result differs
+   * from the previous one (see `QueryDiff`) so that list components can
+   * patch their rows rather than replace them. The first emission has every
+   * row in `added`. After that, re-runs which don't change the result don't
+   * emit.
+   *
+   * @param options.key the column which identifies a row. Defaults to `id`.
    */
-  observeQuery(statement: { sql: string; values: any[] }) {
-    const affectedTableNames = parseTestTableNames(statement.sql);
+  observeQueryDiff<T extends { [columnName: string]: unknown }>(
+    statement: {
+      sql: string;
+      values: SqlValue[];
+    },
+    options: { key?: keyof T & string } = {}
+  ): Observable<QueryDiff<T>> {
+    const key = options.key ?? 'id';
+
+    return this.observeQuery<T>(statement).pipe(
+      scan(
+        (previous: QueryDiff<T> | null, { resultRows }) =>
+          diffRows(previous?.rows ?? [], resultRows, (row) => row[key]),
+        null
+      ),
+      map((diff) => diff!),
+      filter((diff, index) => index === 0 || !isEmptyDiff(diff))
+    );
+  }
 
-    if (affectedTableNames.length === 0) {
-      throw new Error('Could not calculate selected table names');
+  /**
+   * A live window onto `table`'s records which loads a page at a time using
+   * keyset pagination (see `LiveWindow`). Only the loaded rows are queried
+   * and changes outside of them don't re-run the query. E.g.
+   *
+   *     const messages = client.liveWindow({
+   *       table: 'message',
+   *       where: sql`thread_id = ${threadId}`,
+   *       pageSize: 50,
+   *     });
+   *
+   *     messages.state$.subscribe(({ rows, hasMore }) => render(rows));
+   *     await messages.loadMore();
+   */
+  liveWindow<T extends RecordTable>(options: LiveWindowOptions<T>) {
+    return new LiveWindow<RecordValue<T>>(options, this.liveSource());
+  }
+
+  /**
+   * Observes a count, sum, minimum or maximum of a table's records. It's
+   * queried once and then updated from the row changes in each change
+   * rather than by re-running the query (see `observeAggregate`). E.g. the
+   * number of messages in each thread:
+   *
+   *     client
+   *       .observeAggregate({
+   *         table: 'message',
+   *         aggregate: 'count',
+   *         groupBy: 'thread_id',
+   *       })
+   *       .subscribe((counts) => render(counts.get(threadId) ?? 0));
+   *
+   * Emits a `Map` from each group to its value when `groupBy` is set and
+   * the value itself otherwise. Observables with the same options share
+   * one aggregate. Errors reach each subscriber and the aggregate recovers
+   * as described for `ObserveOptions.retry`.
+   */
+  observeAggregate<T extends RecordTable>(
+    options: LiveAggregateOptions<T> & {
+      groupBy: keyof RecordValue<T> & string;
     }
+  ): Observable<AggregateGroups>;
+  observeAggregate<T extends RecordTable>(
+    options: LiveAggregateOptions<T> & { groupBy?: undefined }
+  ): Observable<SqlValue>;
+  observeAggregate<T extends RecordTable>(options: LiveAggregateOptions<T>) {
+    const groups = this.queryCache
+      .get(
+        toCacheKey(['aggregate', options]),
+        () => observeAggregate(options, this.liveSource()),
+        (outcome) => ('value' in outcome ? outcome.value.size : 0),
+        (outcome) => 'value' in outcome
+      )
+      .pipe(unwrapOutcome());
+
+    return options.groupBy
+      ? groups
+      : groups.pipe(map((groups) => groups.get(null) ?? null));
+  }
 
-    const runQuery = () =>
-      this.exec({ sql: statement.sql, bind: statement.values });
+  /**
+   * Searches a full-text index (see `searchIndexes`) and re-emits the
+   * results whenever records in the index's table change. Results are
+   * ranked best match first and include highlighted snippets. E.g.
+   *
+   *     client
+   *       .observeSearch('message_fts', 'hello wor')
+   *       .subscribe((results) => render(results));
+   *
+   * By default every word must match and the last may be a prefix (see
+   * `SearchOptions.raw`). Emits `[]` if `query` is blank.
+   */
+  observeSearch<I extends SearchIndex>(
+    index: I,
+    query: string,
+    options: SearchOptions = {}
+  ): Observable<SearchResult<RecordValue<SearchIndexTable<I>>>[]> {
+    const statement = searchStatement(index, query, options);
+
+    if (!statement) return of([]);
+
+    return this.observeQuery(statement, { distinct: true }).pipe(
+      map(({ resultRows }) => toSearchResults<I>(resultRows))
+    );
+  }
 
-    const subscribeToQuery = (onChange: () => void) =>
-      this.subscribeToRowChanges(({ tableNames }) => {
-        if (!hasIntersection(affectedTableNames, tableNames)) return;
-        onChange();
-      });
+  /** Same as observeSearch except it resolves with the current results. */
+  async search<I extends SearchIndex>(
+    index: I,
+    query: string,
+    options: SearchOptions = {}
+  ) {
+    const statement = searchStatement(index, query, options);
 
-    return observable({
-      runQuery,
-      subscribeToQuery,
+    if (!statement) return [];
+
+    const { resultRows } = await this.exec({
+      sql: statement.sql,
+      bind: statement.values as SqlValue[],
     });
+
+    return toSearchResults<I>(resultRows);
   }
 
-  async writeRecordMap(recordMap: RecordMap) {
-    this.db.transaction((db) => {
-      for (const [table, rows] of Object.entries(recordMap)) {
-        for (const row of Object.values(rows)) {
-          const query = upsertRecordSql(table as RecordTable, row);
-
-          db.exec({
-            sql: query.sql,
-            bind: query.values as any[],
-            returnValue: 'resultRows',
-            rowMode: 'object',
-          });
-        }
+  /**
+   * Rebuilds every search index from its table. Indexes are kept in sync by
+   * triggers so this is only needed after something which renumbers rowids,
+   * such as `VACUUM`.
+   */
+  async rebuildSearchIndexes() {
+    await this.transaction(async (tx) => {
+      for (const index of Object.keys(searchIndexes)) {
+        const name = quoteIdentifier(index);
+        await tx.exec({
+          sql: `INSERT INTO ${name} (${name}) VALUES ('rebuild')`,
+        });
       }
     });
+  }
 
-    this.emitTableChanges({
-      tableNames: Object.keys(recordMap),
-      changes: recordMap,
-    });
+  /**
+   * Serializes the whole database into the bytes of a SQLite file, e.g. to
+   * attach to a bug report. Load it with `importSnapshot()` or
+   * `init({ hydrate })`.
+   */
+  exportSnapshot() {
+    return this.connection.exportSnapshot();
   }
 
-  subscribeToRowChanges(callback: (change: DatabaseChange) => void) {
-    this.changeSubscriptions.add(callback);
+  /** Resolves with every record in the database, e.g. to save as JSON. */
+  exportRecordMap() {
+    return this.connection.exportRecordMap();
+  }
 
-    return () => {
-      this.changeSubscriptions.delete(callback);
-    };
+  /**
+   * Replaces every record with those in a snapshot from `exportSnapshot()`.
+   * Live queries receive a single change covering every affected table.
+   * Rejects without changing anything if the snapshot isn't a database or
+   * can't be migrated to the current schema.
+   */
+  async importSnapshot(snapshot: Uint8Array) {
+    await this.connection.importSnapshot(snapshot);
   }
 
-  private emitTableChanges(change: DatabaseChange) {
-    console.log('Database changes:', change);
+  /**
+   * Replaces every record with those in `recordMap`, deleting records which
+   * aren't in it. Live queries receive a single change covering every
+   * affected table.
+   */
+  async importRecordMap(recordMap: RecordMap) {
+    await this.connection.importRecordMap(recordMap);
+  }
+
+  /**
+   * Upserts every record in the record map inside a single transaction.
+   * Records whose value is `null` (tombstones) are deleted.
+   */
+  async writeRecordMap(recordMap: RecordMap) {
+    await this.connection.writeRecordMap(recordMap);
+  }
+
+  /**
+   * Runs `fn` inside a transaction which is committed when `fn` resolves and
+   * rolled back if it rejects. Use `tx` (not the client) for every read and
+   * write inside `fn`. `tx.transaction()` opens a nested savepoint. E.g.
+   *
+   *     await client.transaction(async (tx) => {
+   *       const { resultRows } = await tx.exec({ sql, bind });
+   *       await tx.writeRecordMap({ ... });
+   *     });
+   *
+   * Subscribers receive one `DatabaseChange` containing every change when
+   * the transaction commits and nothing if it's rolled back.
+   */
+  transaction<R>(fn: (tx: SQLiteTransaction) => Promise<R>) {
+    return runTransaction(this.connection, fn);
+  }
 
-    for (const callback of this.changeSubscriptions) {
-      callback(change);
+  /**
+   * Creates an undo/redo history. Only the writes made with its `record()`
+   * method can be undone (see `History`).
+   */
+  createHistory(options?: HistoryOptions) {
+    return new History(this.connection, options);
+  }
+
+  /**
+   * Writes the record map to the local database right away (so live queries
+   * update immediately) and queues it to be sent to the server with the
+   * `mutationTransport` given to `init()`. Resolves once the server confirms
+   * the mutation. If the server rejects it, the records are rolled back to
+   * the server's version (with any later pending mutations re-applied on
+   * top) and this rejects with a `MutationRejectedError`. If it can't be
+   * sent (e.g. the network is down), it stays applied and pending and is
+   * sent again (see `MutationQueueOptions`).
+   */
+  async mutate(recordMap: RecordMap) {
+    if (!this.mutationQueue) {
+      throw new Error(
+        'mutate() requires a `mutationTransport`. Pass one to ' +
+          'SQLiteClient.init().'
+      );
     }
+
+    await this.mutationQueue.mutate(recordMap);
+  }
+
+  /** Mutations which the server hasn't confirmed or rejected yet. */
+  getPendingMutations() {
+    return this.mutationQueue?.getPendingMutations() ?? [];
   }
-}
 
-function observable(args: {
-  runQuery: () => Promise<SQLiteClientExecResult>;
-  subscribeToQuery: (onChanges: () => void) => () => void;
-}) {
-  const { runQuery, subscribeToQuery } = args;
+  async deleteRecord(table: RecordTable, id: string) {
+    await this.deleteRecords(table, [id]);
+  }
 
-  let query: Promise<SQLiteClientExecResult>;
+  async deleteRecords(table: RecordTable, ids: string[]) {
+    const queries = deleteRecordsSql(table, ids);
 
-  return new Observable((subscriber) => {
-    const unsubscribe = subscribeToQuery(async () => subscriber.next(null));
-    subscriber.next(null);
+    if (queries.length > 1) {
+      // so that either every batch is deleted or none is
+      await this.transaction((tx) => tx.deleteRecords(table, ids));
+    } else if (queries.length === 1) {
+      await this.exec({ sql: queries[0].sql, bind: queries[0].values });
+    }
+  }
+
+  /**
+   * Deletes every record in `table` matching the `where` fragment. E.g.
+   *
+   *     client.deleteWhere('message', sql`message.thread_id = ${threadId}`)
+   */
+  async deleteWhere(table: RecordTable, where: Sql) {
+    const query = deleteWhereSql(table, where);
+
+    await this.exec({ sql: query.sql, bind: query.values });
+  }
+
+  /**
+   * Where the database is being stored. Check `fallbackReason` to find out
+   * if the requested storage couldn't be used.
+   */
+  getStorageInfo() {
+    return this.connection.getStorageInfo();
+  }
+
+  async close() {
+    this.queryCache.clear();
+    this.rowFilterCache.clear();
+    this.mutationQueue?.close();
+    this.scheduler.close();
+    this.subscriptionManager?.close();
+    this.changeBroadcast?.close();
+    await this.connection.close();
+  }
+
+  /**
+   * The callback is called with the changes made to the database. Changes
+   * made close together are merged into one (see `SQLiteClientOptions`).
+   * @returns an unsubscribe function.
+   */
+  subscribeToRowChanges(
+    callback: (change: DatabaseChange) => void,
+    priority?: ChangePriority
+  ) {
+    return this.scheduler.subscribe(callback, priority);
+  }
+
+  /**
+   * Like subscribeToRowChanges except the server is also asked for updates
+   * to the given subscription keys until the subscription ends.
+   */
+  private subscribeWhileServerSubscribed(
+    getKeys: () => string[] | Promise<string[]>,
+    callback: (change: DatabaseChange) => void,
+    priority?: ChangePriority
+  ) {
+    const unsubscribe = this.subscribeToRowChanges(callback, priority);
+    const release = this.subscriptionManager?.retain(getKeys());
 
     return () => {
       unsubscribe();
+      release?.();
     };
-  }).pipe(
-    // If the Observable's `subscribeToQuery` onChanges callback fired, and
-    // then the observable ran the query again in switchMap (below), if the
-    // `subscribeToQuery#onChanges` callback fired again before `runQuery`
-    // had finished processing then the result of the previous run would
-    // be discarded and the query execution would restart. Potentially,
-    // this cycle could happen repeatedly causing this observable to never
-    // re-emit. Or, more practically, it could just delay emission of the
-    // the query. We throttle the onChanges emissions to ensure that we
-    // a query being processed currently has a chance to complete. By
-    // using `trailing` true, we ensure that we also always get the
-    // latest values.
-    throttle(
-      () => {
-        // This works because we have `leading: true` so emitted values
-        // first pass through `throttle` (triggering switchMap) before
-        // this factory function is called (confirmed expirimentally).
-        return from(query);
+  }
+
+  private async hydrate({
+    source,
+    replace,
+  }: NonNullable<SQLiteClientOptions['hydrate']>) {
+    if (!replace && !(await this.isEmpty())) return;
+
+    const data = typeof source === 'function' ? await source() : source;
+
+    if (!data) return;
+
+    if (data instanceof Uint8Array) {
+      await this.importSnapshot(data);
+    } else {
+      await this.importRecordMap(data);
+    }
+  }
+
+  private async isEmpty() {
+    const selects = Object.keys(tables).map(
+      (table) => `SELECT 1 FROM ${quoteIdentifier(table)}`
+    );
+
+    const { resultRows } = await this.exec<{ hasRecords: number }>({
+      sql: `SELECT EXISTS (${selects.join(' UNION ALL ')}) AS hasRecords`,
+    });
+
+    return resultRows[0].hasRecords === 0;
+  }
+
+  /** What `LiveWindow` and `observeAggregate()` query and subscribe with. */
+  private liveSource(): LiveWindowSource & LiveAggregateSource {
+    return {
+      exec: async <R>(statement: Sql) => {
+        const { resultRows } = await this.exec<R>({
+          sql: statement.sql,
+          bind: statement.values as SqlValue[],
+        });
+
+        return resultRows;
       },
-      {
-        leading: true,
-        trailing: true,
-      }
-    ),
-    switchMap(() => {
-      query = runQuery();
-      return query;
-    }),
-    share({ resetOnRefCountZero: true })
-  );
+      getQueryDependencies: (sql) => this.getQueryDependencies(sql),
+      subscribe: (getKeys, onChange) =>
+        this.subscribeWhileServerSubscribed(getKeys, onChange),
+    };
+  }
+
+  private async getQueryDependencies(sql: string) {
+    const tableNames = await this.connection.getQueryTableNames(sql);
+    return parseQueryDependencies(sql, tableNames, this.rowFilterCache);
+  }
+
+  private emitTableChanges(change: DatabaseChange) {
+    this.instrumentation?.onChange?.(change);
+    this.scheduler.push(change);
+  }
 }
 
-interface DatabaseChange {
-  tableNames: string[];
-  changes: RecordMap;
+function changeIncludesRecord(
+  change: DatabaseChange,
+  table: string,
+  id: string
+) {
+  const records = change.changes[table as RecordTable];
+  return !!records && id in records;
 }
 
-type SQLiteClientExecProps = {
-  sql: string;
-  /**
-   * Binds one or more values to its bindable parameters. It accepts 1 or 2 arguments:
-   *
-   * If passed a single argument, it must be either an array, an object, or a value of
-   * a bindable type (see below). Its bind index is assumed to be 1.
-   *
-   * If passed 2 arguments, the first one is the 1-based bind index or bindable
-   * parameter name and the second one must be a value of a bindable type.
-   *
-   * Bindable value types:
-   * - null is bound as NULL.
-   * - undefined as a standalone value is a no-op: passing undefined as a value to this
-   *   function will not actually bind anything and this function will skip confirmation
-   *   that binding is even legal. (Those semantics simplify certain client-side uses.)
-   *   Conversely, a value of undefined as an array or object property when binding an
-   *   array/object (see below) is treated the same as null.
-   * - Numbers are bound as either doubles or integers: doubles if they are larger than
-   *   32 bits, else double or int32, depending on whether they have a fractional part.
-   *   Booleans are bound as integer 0 or 1. It is not expected the distinction of
-   *   binding doubles which have no fractional parts as integers is significant for the
-   *   majority of clients due to sqlite3's data typing model. If BigInt support is
-   *   enabled then this routine will bind BigInt values as 64-bit integers if they'll
-   *   fit in 64 bits. If that support is disabled, it will store the BigInt as an int32
-   *   or a double if it can do so without loss of precision. In either case, if a BigInt
-   *   is too BigInt then it will throw.
-   * - Strings are bound as strings (use bindAsBlob() to force blob binding).
-   * - Uint8Array, Int8Array, and ArrayBuffer instances are bound as blobs.
-   *
-   * If passed an array, each element of the array is bound at the parameter index equal
-   * to the array index plus 1 (because arrays are 0-based but binding is 1-based).
-   *
-   * If passed an object, each object key is treated as a bindable parameter name. The
-   * object keys must match any bindable parameter names, including any $, @, or : prefix.
-   * Because $ is a legal identifier chararacter in JavaScript, that is the suggested
-   * prefix for bindable parameters: stmt.bind({$a: 1, $b: 2}).
-   *
-   * It returns this object on success and throws on error. Errors include:
-   * - Any bind index is out of range, a named bind parameter does not match, or this
-   *   statement has no bindable parameters.
-   * - Any value to bind is of an unsupported type.
-   * - Passed no arguments or more than two.
-   * - The statement has been finalized.
-   */
-  bind?: any[] | { [key: string]: any };
-  /**
-   * One of
-   * - 'array' (the default) causes the results of stmt.get([]) to be passed to the
-   *   callback and/or appended to resultRows.
-   * - 'object' causes the results of stmt.get(Object.create(null)) to be passed to the
-   *   callback and/or appended to resultRows. Achtung: an SQL result may have multiple
-   *   columns with identical names. In that case, the right-most column will be the one
-   *   set in this object!
-   */
-  // rowMode?: 'object' | 'array';
-};
+function reportLiveQueryError(error: unknown) {
+  console.error('Live query failed', error);
+}
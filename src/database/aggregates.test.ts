@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+import { firstValueFrom } from 'rxjs';
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { SQLiteClient } from './SqliteDatabase';
+import { SqlParseError } from './errors';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+const counters = (values: { [id: string]: number | null }) =>
+  ({
+    counter: Object.fromEntries(
+      Object.entries(values).map(([id, value]) => [
+        id,
+        value === null ? null : { id, value },
+      ])
+    ),
+  }) as RecordMap;
+
+/** Resolves with the sum of `counter.value` once `write()` has changed it. */
+async function valueAfter(client: SQLiteClient, write: () => Promise<unknown>) {
+  const values: SqlValue[] = [];
+
+  const subscription = client
+    .observeAggregate({ table: 'counter', aggregate: 'sum', column: 'value' })
+    .subscribe((value) => values.push(value));
+
+  try {
+    await vi.waitFor(() => expect(values).toHaveLength(1));
+    await write();
+    await vi.waitFor(() => expect(values).toHaveLength(2));
+    return values[1];
+  } finally {
+    subscription.unsubscribe();
+  }
+}
+
+async function querySum(client: SQLiteClient) {
+  const { resultRows } = await client.exec({
+    sql: 'SELECT SUM(value) AS sum FROM counter',
+  });
+
+  return resultRows[0].sum;
+}
+
+describe('observeAggregate', () => {
+  it('keeps a count of each group up to date', async () => {
+    const client = await createClient();
+    const counts: Map<SqlValue, SqlValue>[] = [];
+
+    const subscription = client
+      .observeAggregate({
+        table: 'message',
+        aggregate: 'count',
+        groupBy: 'thread_id',
+      })
+      .subscribe((value) => counts.push(value));
+
+    await client.writeRecordMap({
+      thread: { t: { id: 't', subject: 'Thread' } },
+      message: {
+        a: { id: 'a', thread_id: 't', content: 'a' },
+        b: { id: 'b', thread_id: 't', content: 'b' },
+      },
+    } as RecordMap);
+
+    await vi.waitFor(() =>
+      expect(counts[counts.length - 1]).toEqual(new Map([['t', 2]]))
+    );
+    subscription.unsubscribe();
+  });
+
+  it('keeps integer sums up to date', async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 1, b: 2 }));
+
+    expect(
+      await valueAfter(client, () =>
+        client.writeRecordMap(counters({ a: null, c: 5 }))
+      )
+    ).toBe(7);
+  });
+
+  it('sums floats exactly as SQLite does', async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 0.1, b: 0.2 }));
+
+    const sum = await valueAfter(client, () =>
+      client.writeRecordMap(counters({ a: null }))
+    );
+
+    // 0.1 + 0.2 - 0.1 would be 0.20000000000000004
+    expect(sum).toBe(await querySum(client));
+    expect(sum).toBe(0.2);
+  });
+
+  it('reports errors to subscribers', async () => {
+    const client = await createClient();
+
+    await expect(
+      firstValueFrom(
+        client.observeAggregate({
+          table: 'counter',
+          aggregate: 'sum',
+          column: 'missing' as 'value',
+          retry: false,
+        })
+      )
+    ).rejects.toBeInstanceOf(SqlParseError);
+  });
+});
@@ -0,0 +1,394 @@
+import { Observable, defer, distinctUntilChanged } from 'rxjs';
+import sql, { Sql, empty, join, raw } from 'sql-template-tag';
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { DatabaseChange } from './connection';
+import { RowChange, quoteIdentifier } from './changeCapture';
+import { compareSqlValues } from './pagination';
+import { QueryDependencies } from './queryDependencies';
+import { LiveQueryOutcome, RetryPolicy, observable } from './observable';
+import { querySubscriptionKeys } from './subscriptions';
+import { RecordTable, RecordValue } from './schema';
+
+export type AggregateFunction = 'count' | 'sum' | 'min' | 'max';
+
+export type LiveAggregateOptions<T extends RecordTable> = {
+  table: T;
+  aggregate: AggregateFunction;
+  /**
+   * The column to aggregate. `NULL`s are skipped, as in SQL. Without one
+   * `count` counts rows and the other functions can't be used.
+   */
+  column?: keyof RecordValue<T> & string;
+  /**
+   * Only records whose columns equal these values are aggregated. E.g.
+   * `{ thread_id: threadId }`. Unlike a `WHERE` fragment this can be checked
+   * against changed rows without querying.
+   */
+  where?: Partial<RecordValue<T>>;
+  /**
+   * Aggregates each group of records with the same value in this column
+   * separately, like `GROUP BY`.
+   */
+  groupBy?: keyof RecordValue<T> & string;
+  /** What the aggregate does after its query fails (see `RetryPolicy`). */
+  retry?: RetryPolicy | false;
+};
+
+/** The value of each group, keyed by the value of the `groupBy` column. */
+export type AggregateGroups = Map<SqlValue, SqlValue>;
+
+/** What `observeAggregate()` needs from `SQLiteClient`. */
+export interface LiveAggregateSource {
+  exec<T>(statement: Sql): Promise<T[]>;
+  /** See `parseQueryDependencies`. */
+  getQueryDependencies(sql: string): Promise<QueryDependencies>;
+  /** @returns a function which unsubscribes. */
+  subscribe(
+    getKeys: () => Promise<string[]>,
+    onChange: (change: DatabaseChange) => void
+  ): () => void;
+}
+
+type GroupState = {
+  /** The number of matching rows. */
+  rows: number;
+  /** The number of matching rows where the column isn't `NULL`. */
+  values: number;
+  /** The sum, minimum or maximum of the column. Unused for `count`. */
+  value: SqlValue;
+  /**
+   * Set when a row holding the minimum or maximum was removed. Until a row
+   * with a value at least as small (or large) is added, `value` may be
+   * wrong.
+   */
+  lost?: boolean;
+};
+
+type GroupRow = GroupState & { group: SqlValue };
+
+/**
+ * Observes an aggregate of a table's records. The aggregate is queried
+ * once and then kept up to date by applying the row changes in each
+ * `DatabaseChange` to it, so a write doesn't re-run the query. It's only
+ * queried again when a change can't be applied, e.g. when the row holding
+ * the minimum is deleted, since the next smallest value isn't known, or a
+ * `sum` would stop being exact because a value isn't an integer. Emits only
+ * when the value changes.
+ *
+ * Groups without matching records are left out, as with `GROUP BY`. When
+ * not grouping, the only group's key is `null` and its value is `0` (for
+ * `count`) or `null` if nothing matches.
+ *
+ * Failed queries are outcomes rather than errors (see `runLiveQuery`) so
+ * that the aggregate recovers as a live query does.
+ */
+export function observeAggregate<T extends RecordTable>(
+  options: LiveAggregateOptions<T>,
+  source: LiveAggregateSource
+): Observable<LiveQueryOutcome<AggregateGroups>> {
+  const aggregate = new Aggregate(options);
+  const statement = aggregate.statement();
+
+  const keys = source
+    .getQueryDependencies(statement.sql)
+    .then((dependencies) =>
+      querySubscriptionKeys(dependencies, statement.values)
+    );
+
+  // reported by the aggregate's query
+  keys.catch(() => {});
+
+  return defer(() => {
+    let groups: Map<SqlValue, GroupState> | null = null;
+    let querying = false;
+    /** Whether a change arrived while the aggregate was being queried. */
+    let stale = false;
+
+    const query = async () => {
+      querying = true;
+      stale = false;
+      groups = null;
+
+      try {
+        const rows = await source.exec<GroupRow>(statement);
+
+        groups = new Map(
+          rows
+            .filter((row) => row.rows > 0)
+            .map(({ group, ...state }) => [group, state])
+        );
+
+        return groups;
+      } finally {
+        querying = false;
+      }
+    };
+
+    return observable({
+      runQuery: async (trigger) => {
+        const rowChanges =
+          trigger?.rowChanges.filter(
+            (rowChange) => rowChange.table === options.table
+          ) ?? [];
+
+        // A change which arrived while the query ran may or may not be in
+        // its result, so the query runs again rather than apply it.
+        const applied =
+          groups !== null &&
+          !stale &&
+          rowChanges.length > 0 &&
+          aggregate.apply(groups, rowChanges);
+
+        return aggregate.result(applied ? groups! : await query());
+      },
+      subscribeToQuery: (onChange) =>
+        source.subscribe(
+          () => keys,
+          (change) => {
+            if (!change.tableNames.includes(options.table)) return;
+            if (querying) stale = true;
+            onChange(change);
+          }
+        ),
+      retry: options.retry,
+    });
+  }).pipe(
+    distinctUntilChanged(
+      (a, b) => 'value' in a && 'value' in b && isEqualGroups(a.value, b.value)
+    )
+  );
+}
+
+const UNGROUPED = null;
+
+class Aggregate {
+  constructor(
+    private options: {
+      table: string;
+      aggregate: AggregateFunction;
+      column?: string;
+      where?: { [column: string]: unknown };
+      groupBy?: string;
+    }
+  ) {
+    if (options.aggregate !== 'count' && !options.column) {
+      throw new Error(`A \`${options.aggregate}\` aggregate needs a column.`);
+    }
+  }
+
+  statement() {
+    const { table, aggregate, column, groupBy } = this.options;
+
+    const where = Object.entries(this.options.where ?? {}).map(
+      ([name, value]) =>
+        value === null
+          ? sql`${raw(quoteIdentifier(name))} IS NULL`
+          : sql`${raw(quoteIdentifier(name))} = ${value}`
+    );
+
+    const columnSql = column ? raw(quoteIdentifier(column)) : raw('*');
+    const groupSql = groupBy ? raw(quoteIdentifier(groupBy)) : raw('NULL');
+
+    return sql`
+      SELECT
+        ${groupSql} AS "group",
+        COUNT(*) AS "rows",
+        COUNT(${columnSql}) AS "values",
+        ${
+          aggregate === 'count'
+            ? raw('NULL')
+            : sql`${raw(aggregate.toUpperCase())}(${columnSql})`
+        } AS "value"
+      FROM ${raw(quoteIdentifier(table))}
+      ${where.length > 0 ? sql`WHERE ${join(where, ' AND ')}` : empty}
+      ${groupBy ? sql`GROUP BY ${groupSql}` : empty}
+    `;
+  }
+
+  /**
+   * Applies the row changes to `groups` in place.
+   *
+   * @returns `false` if they can't be applied, in which case `groups` must
+   *   be queried again.
+   */
+  apply(groups: Map<SqlValue, GroupState>, rowChanges: RowChange[]) {
+    for (const { record, previousRecord } of rowChanges) {
+      if (
+        previousRecord &&
+        this.matches(previousRecord) &&
+        !this.remove(groups, previousRecord)
+      ) {
+        return false;
+      }
+
+      if (record && this.matches(record) && !this.add(groups, record)) {
+        return false;
+      }
+    }
+
+    // e.g. an update which moved the maximum up is fine but one which moved
+    // it down isn't
+    for (const state of groups.values()) {
+      if (state.lost) return false;
+    }
+
+    return true;
+  }
+
+  result(groups: Map<SqlValue, GroupState>): AggregateGroups {
+    const result: AggregateGroups = new Map();
+
+    for (const [group, state] of groups) {
+      result.set(group, this.value(state));
+    }
+
+    if (!this.options.groupBy && !result.has(UNGROUPED)) {
+      result.set(UNGROUPED, this.options.aggregate === 'count' ? 0 : null);
+    }
+
+    return result;
+  }
+
+  private value(state: GroupState) {
+    if (this.options.aggregate === 'count') {
+      return this.options.column ? state.values : state.rows;
+    }
+
+    return state.values > 0 ? state.value : null;
+  }
+
+  private matches(record: { [column: string]: SqlValue }) {
+    return Object.entries(this.options.where ?? {}).every(
+      ([column, value]) =>
+        column in record &&
+        (value === null
+          ? record[column] === null
+          : record[column] !== null &&
+            compareSqlValues(record[column], value) === 0)
+    );
+  }
+
+  private add(
+    groups: Map<SqlValue, GroupState>,
+    record: { [column: string]: SqlValue }
+  ) {
+    const group = this.groupOf(record);
+    const value = this.valueOf(record);
+
+    if (group === undefined || value === undefined) return false;
+
+    let state = groups.get(group);
+
+    if (!state) {
+      state = { rows: 0, values: 0, value: null };
+      groups.set(group, state);
+    }
+
+    state.rows++;
+
+    if (value === null) return true;
+
+    state.values++;
+
+    switch (this.options.aggregate) {
+      case 'count':
+        return true;
+      case 'sum':
+        if (!isExactSum(value)) return false;
+        state.value =
+          state.values === 1 ? value : (state.value as number) + value;
+        return isExactSum(state.value);
+      case 'min':
+      case 'max': {
+        const order = this.options.aggregate === 'min' ? 1 : -1;
+
+        const comparison = compareSqlValues(value, state.value) * order;
+
+        if (state.values === 1 || comparison < 0) {
+          state.value = value;
+          state.lost = false;
+        } else if (state.lost && comparison === 0) {
+          state.lost = false;
+        }
+
+        return true;
+      }
+    }
+  }
+
+  private remove(
+    groups: Map<SqlValue, GroupState>,
+    record: { [column: string]: SqlValue }
+  ) {
+    const group = this.groupOf(record);
+    const value = this.valueOf(record);
+    const state = group === undefined ? undefined : groups.get(group);
+
+    if (!state || value === undefined) return false;
+
+    state.rows--;
+
+    if (value !== null) {
+      state.values--;
+
+      switch (this.options.aggregate) {
+        case 'sum':
+          if (!isExactSum(value)) return false;
+          state.value = (state.value as number) - value;
+          if (!isExactSum(state.value)) return false;
+          break;
+        case 'min':
+        case 'max':
+          if (state.values === 0) {
+            state.lost = false;
+          } else if (compareSqlValues(value, state.value) === 0) {
+            // the next smallest (or largest) value isn't known
+            state.lost = true;
+          }
+          break;
+      }
+    }
+
+    if (state.rows === 0) groups.delete(group!);
+
+    return true;
+  }
+
+  /** @returns `undefined` if the record doesn't say which group it's in. */
+  private groupOf(record: { [column: string]: SqlValue }) {
+    const { groupBy } = this.options;
+
+    if (!groupBy) return UNGROUPED;
+
+    return groupBy in record ? record[groupBy] : undefined;
+  }
+
+  /** @returns `undefined` if the record doesn't have the column. */
+  private valueOf(record: { [column: string]: SqlValue }) {
+    const { column } = this.options;
+
+    if (!column) return 1;
+
+    return column in record ? record[column] : undefined;
+  }
+}
+
+/**
+ * Adding and subtracting floats drifts from the sum SQLite computes, so
+ * only sums of integers are kept up to date without querying.
+ */
+function isExactSum(value: SqlValue): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value);
+}
+
+function isEqualGroups(a: AggregateGroups, b: AggregateGroups) {
+  if (a.size !== b.size) return false;
+
+  for (const [group, value] of a) {
+    if (!b.has(group) || compareSqlValues(b.get(group), value) !== 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,149 @@
+import sql from 'sql-template-tag';
+import { DatabaseHost } from './DatabaseHost';
+import { SQLiteClient } from './SqliteDatabase';
+import { StatementCacheOptions } from './statementCache';
+import { RowFilterCacheOptions } from './queryDependencies';
+import { RecordMap } from './schema';
+
+export type BenchmarkResult = {
+  name: string;
+  /** Milliseconds per iteration without `StatementCache` or `RowFilterCache`. */
+  uncached: number;
+  /** Milliseconds per iteration with both caches at their defaults. */
+  cached: number;
+  /** `uncached / cached`. */
+  speedup: number;
+};
+
+type Scenario = {
+  name: string;
+  /** @returns a function which runs an iteration. */
+  prepare: (client: SQLiteClient) => (iteration: number) => Promise<unknown>;
+};
+
+const THREADS = 20;
+const MESSAGES_PER_THREAD = 50;
+
+const scenarios: Scenario[] = [
+  {
+    name: 'live record re-run',
+    prepare: (client) => client.liveRecord('counter', 'counter').runQuery,
+  },
+  {
+    name: 'per-thread messages re-run',
+    prepare: (client) => {
+      const queries = Array.from({ length: THREADS }, (_, t) =>
+        client.liveQuery(
+          sql`SELECT * FROM message WHERE thread_id = ${`thread-${t}`} ORDER BY id`
+        )
+      );
+
+      return (i) => queries[i % THREADS].runQuery();
+    },
+  },
+  {
+    name: 'observe a query again',
+    prepare: (client) => () =>
+      client
+        .liveQuery(sql`SELECT * FROM message WHERE thread_id = ${'thread-0'}`)
+        .getTableNames(),
+  },
+];
+
+/**
+ * Measures how much `StatementCache` and `RowFilterCache` speed up live
+ * queries by running each scenario against an in-memory database with and
+ * without them.
+ * In the demo's dev server, run it from the browser console with
+ *
+ *     (await import('/src/database/benchmark.ts'))
+ *       .benchmarkLiveQueries()
+ *       .then(console.table)
+ *
+ * @param options.iterations how many times each scenario runs. Defaults to
+ *   1,000.
+ */
+export async function benchmarkLiveQueries(
+  options: { iterations?: number } = {}
+): Promise<BenchmarkResult[]> {
+  const { iterations = 1_000 } = options;
+
+  const uncached = await runScenarios(iterations, {
+    statementCache: { maxStatements: 0, maxQueryTableNames: 0 },
+    rowFilterCache: { maxQueries: 0 },
+  });
+  const cached = await runScenarios(iterations, {});
+
+  return scenarios.map(({ name }, i) => ({
+    name,
+    uncached: uncached[i],
+    cached: cached[i],
+    speedup: uncached[i] / cached[i],
+  }));
+}
+
+/** @returns the milliseconds per iteration of each scenario. */
+async function runScenarios(
+  iterations: number,
+  caches: {
+    statementCache?: StatementCacheOptions;
+    rowFilterCache?: RowFilterCacheOptions;
+  }
+) {
+  const client = await SQLiteClient.init({
+    connection: await DatabaseHost.open({
+      statementCache: caches.statementCache,
+    }),
+    rowFilterCache: caches.rowFilterCache,
+    instrumentation: null,
+  });
+
+  try {
+    await client.writeRecordMap(seedRecords());
+
+    const durations: number[] = [];
+
+    for (const scenario of scenarios) {
+      const run = scenario.prepare(client);
+
+      // warm up, e.g. so that the JIT has compiled the code involved
+      for (let i = 0; i < Math.min(iterations, 100); i++) await run(i);
+
+      const start = performance.now();
+
+      for (let i = 0; i < iterations; i++) await run(i);
+
+      durations.push((performance.now() - start) / iterations);
+    }
+
+    return durations;
+  } finally {
+    await client.close();
+  }
+}
+
+function seedRecords() {
+  const recordMap: { [table: string]: { [id: string]: unknown } } = {
+    counter: { counter: { id: 'counter', value: 1 } },
+    thread: {},
+    message: {},
+  };
+
+  for (let t = 0; t < THREADS; t++) {
+    const threadId = `thread-${t}`;
+
+    recordMap.thread[threadId] = { id: threadId, subject: `Thread ${t}` };
+
+    for (let m = 0; m < MESSAGES_PER_THREAD; m++) {
+      const id = `message-${t}-${String(m).padStart(3, '0')}`;
+
+      recordMap.message[id] = {
+        id,
+        thread_id: threadId,
+        content: `Message ${m} in thread ${t}`,
+      };
+    }
+  }
+
+  return recordMap as RecordMap;
+}
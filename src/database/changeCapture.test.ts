@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { ChangeCapture } from './changeCapture';
+import { loadSqlite, openMemoryDatabase } from '../test/sqlite';
+
+async function capture(schema: string) {
+  const sqlite3 = await loadSqlite();
+  const db = await openMemoryDatabase();
+
+  db.exec(schema);
+
+  return { db, changeCapture: new ChangeCapture(db, sqlite3.capi) };
+}
+
+describe('ChangeCapture', () => {
+  it('captures inserts, updates and deletes', async () => {
+    const { db, changeCapture } = await capture(
+      'CREATE TABLE item (id TEXT PRIMARY KEY, value INTEGER)'
+    );
+
+    db.exec(`INSERT INTO item VALUES ('a', 1)`);
+    db.exec(`UPDATE item SET value = 2 WHERE id = 'a'`);
+    db.exec(`DELETE FROM item WHERE id = 'a'`);
+
+    expect(changeCapture.drain()).toEqual([
+      {
+        table: 'item',
+        id: 'a',
+        rowId: 1,
+        operation: 'insert',
+        record: { id: 'a', value: 1 },
+        previousRecord: null,
+      },
+      {
+        table: 'item',
+        id: 'a',
+        rowId: 1,
+        operation: 'update',
+        record: { id: 'a', value: 2 },
+        previousRecord: { id: 'a', value: 1 },
+      },
+      {
+        table: 'item',
+        id: 'a',
+        rowId: 1,
+        operation: 'delete',
+        record: null,
+        previousRecord: { id: 'a', value: 2 },
+      },
+    ]);
+  });
+
+  it('captures BLOBs as bytes', async () => {
+    const { db, changeCapture } = await capture(`
+      CREATE TABLE file (id TEXT PRIMARY KEY, name TEXT, content BLOB);
+      CREATE TABLE chunk (
+        file BLOB,
+        chunk INTEGER,
+        PRIMARY KEY (file, chunk)
+      );
+    `);
+
+    db.exec(`INSERT INTO file VALUES ('a', '{"$blob":"00"}', x'00ff10')`);
+    db.exec(`UPDATE file SET content = x'' WHERE id = 'a'`);
+    db.exec(`INSERT INTO chunk VALUES (x'0a', 1)`);
+
+    const [insert, update, chunk] = changeCapture.drain();
+
+    expect(insert.record).toEqual({
+      id: 'a',
+      // text which looks like an encoded BLOB stays text
+      name: '{"$blob":"00"}',
+      content: new Uint8Array([0x00, 0xff, 0x10]),
+    });
+    expect(update.previousRecord!.content).toEqual(
+      new Uint8Array([0x00, 0xff, 0x10])
+    );
+    expect(update.record!.content).toEqual(new Uint8Array());
+    expect(chunk.id).toBe('[{"$blob":"0A"},1]');
+    expect(chunk.record).toEqual({ file: new Uint8Array([0x0a]), chunk: 1 });
+  });
+
+  it('captures an update which changes the key as a delete and an insert', async () => {
+    const { db, changeCapture } = await capture(
+      'CREATE TABLE item (id TEXT PRIMARY KEY, value INTEGER)'
+    );
+
+    db.exec(`INSERT INTO item VALUES ('a', 1)`);
+    changeCapture.drain();
+
+    db.exec(`UPDATE item SET id = 'b' WHERE id = 'a'`);
+
+    expect(changeCapture.drain()).toEqual([
+      {
+        table: 'item',
+        id: 'a',
+        rowId: 1,
+        operation: 'delete',
+        record: null,
+        previousRecord: { id: 'a', value: 1 },
+      },
+      {
+        table: 'item',
+        id: 'b',
+        rowId: 1,
+        operation: 'insert',
+        record: { id: 'b', value: 1 },
+        previousRecord: null,
+      },
+    ]);
+  });
+
+  it('captures the rows of a table created by the same exec once synced', async () => {
+    const { db, changeCapture } = await capture(`
+      CREATE TABLE item (id TEXT PRIMARY KEY, value INTEGER);
+      INSERT INTO item VALUES ('existing', 0);
+    `);
+
+    db.exec(`
+      CREATE TABLE tag (id TEXT PRIMARY KEY, name TEXT);
+      INSERT INTO tag VALUES ('a', 'red'), ('b', 'blue');
+      INSERT INTO item VALUES ('c', 1);
+    `);
+    changeCapture.sync();
+
+    db.exec(`UPDATE tag SET name = 'green' WHERE id = 'a'`);
+    changeCapture.sync();
+
+    // rows which were there when capture started aren't changes
+    expect(
+      changeCapture.drain().map(({ table, id, operation, record }) => ({
+        table,
+        id,
+        operation,
+        record,
+      }))
+    ).toEqual([
+      {
+        table: 'item',
+        id: 'c',
+        operation: 'insert',
+        record: { id: 'c', value: 1 },
+      },
+      {
+        table: 'tag',
+        id: 'a',
+        operation: 'insert',
+        record: { id: 'a', name: 'red' },
+      },
+      {
+        table: 'tag',
+        id: 'b',
+        operation: 'insert',
+        record: { id: 'b', name: 'blue' },
+      },
+      {
+        table: 'tag',
+        id: 'a',
+        operation: 'update',
+        record: { id: 'a', name: 'green' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,307 @@
+import { Database, SqlValue, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+
+export type RowOperation = 'insert' | 'update' | 'delete';
+
+export interface RowChange {
+  table: string;
+  /**
+   * The primary key of the changed row as a string. For tables with a
+   * composite primary key this is a JSON array of the key columns and for
+   * tables without a declared primary key it is the rowid.
+   */
+  id: string;
+  /** `null` for `WITHOUT ROWID` tables. */
+  rowId: number | null;
+  /**
+   * An update which changes the primary key is logged as a `delete` of the
+   * old key followed by an `insert` of the new one.
+   */
+  operation: RowOperation;
+  /** The row as it exists after the change. `null` for deletes. */
+  record: { [columnName: string]: SqlValue } | null;
+  /** The row as it was before the change. `null` for inserts. */
+  previousRecord: { [columnName: string]: SqlValue } | null;
+}
+
+const CHANGE_LOG_TABLE = '_change_log';
+const TRIGGER_PREFIX = '_change_capture_';
+const BLOB_KEY = '$blob';
+
+/**
+ * Records every row-level INSERT/UPDATE/DELETE in the database using
+ * generated `TEMP` triggers which write to a `TEMP` change log table. Because
+ * this happens inside SQLite, changes made with raw SQL, by user triggers or
+ * by `ON DELETE CASCADE` are all captured. We use triggers rather than
+ * `sqlite3_update_hook()` because the update hook only gives us the rowid
+ * and our records are keyed by their `id` column.
+ *
+ * The triggers and the log table are `TEMP` objects so that they are never
+ * written into a persisted database file. Since the log table is part of the
+ * transaction, rows logged by a transaction that is rolled back disappear
+ * with it.
+ */
+export class ChangeCapture {
+  /** table name -> the column signature its triggers were generated for */
+  private installed = new Map<string, string>();
+  private schemaVersion: number | null = null;
+  private lastTotalChanges = -1;
+
+  constructor(
+    private db: Database,
+    private capi: Sqlite3Static['capi']
+  ) {
+    db.exec(`
+      CREATE TEMP TABLE IF NOT EXISTS ${CHANGE_LOG_TABLE} (
+        seq INTEGER PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        row_key TEXT NOT NULL,
+        row_id INTEGER,
+        operation TEXT NOT NULL,
+        record TEXT,
+        previous_record TEXT
+      );
+    `);
+
+    this.sync();
+  }
+
+  /**
+   * (Re)generates the capture triggers if the database schema has changed
+   * since the last call. Call it after every `exec`, before `drain()`. A
+   * table which has appeared since the last call was created by that `exec`
+   * so its rows, which were written before it had triggers, are logged as
+   * inserts.
+   */
+  sync() {
+    const schemaVersion = this.db.selectValue(
+      'PRAGMA main.schema_version'
+    ) as number;
+
+    if (schemaVersion === this.schemaVersion) return;
+
+    const isFirstSync = this.schemaVersion === null;
+    this.schemaVersion = schemaVersion;
+
+    const tables = this.db
+      .selectObjects('PRAGMA main.table_list')
+      .filter(
+        (t) => t.type === 'table' && !(t.name as string).startsWith('sqlite_')
+      )
+      .map((t) => t.name as string);
+
+    for (const table of this.installed.keys()) {
+      if (tables.includes(table)) continue;
+      this.dropTriggers(table);
+      this.installed.delete(table);
+    }
+
+    for (const table of tables) {
+      const columns = this.db.selectObjects(
+        `PRAGMA main.table_info(${quoteIdentifier(table)})`
+      ) as { name: string; pk: number }[];
+
+      const withoutRowId = /\bWITHOUT\s+ROWID\b/i.test(
+        String(
+          this.db.selectValue(
+            `SELECT sql FROM main.sqlite_master WHERE type = 'table' AND name = ?`,
+            [table]
+          ) ?? ''
+        )
+      );
+
+      const signature = JSON.stringify([columns, withoutRowId]);
+
+      const installedSignature = this.installed.get(table);
+
+      if (installedSignature === signature) continue;
+
+      const sql = captureSql(table, columns, withoutRowId);
+
+      this.dropTriggers(table);
+      this.db.exec(sql.triggers);
+      this.installed.set(table, signature);
+
+      if (installedSignature === undefined && !isFirstSync) {
+        this.db.exec(sql.logExistingRows);
+      }
+    }
+
+    // creating the temp triggers bumps the temp schema version but not the
+    // main one
+    this.lastTotalChanges = -1;
+  }
+
+  /**
+   * Returns and clears the changes logged since the last call. Changes made
+   * inside an open transaction are held back until it is committed.
+   */
+  drain(): RowChange[] {
+    const totalChanges = this.db.changes(true);
+
+    if (totalChanges === this.lastTotalChanges) return [];
+    if (this.capi.sqlite3_txn_state(this.db, 0) !== 0) return [];
+
+    const rows = this.db.selectObjects(
+      `SELECT * FROM temp.${CHANGE_LOG_TABLE} ORDER BY seq`
+    );
+
+    if (rows.length > 0) {
+      this.db.exec(`DELETE FROM temp.${CHANGE_LOG_TABLE}`);
+    }
+
+    this.lastTotalChanges = this.db.changes(true);
+
+    return rows.map((row) => ({
+      table: row.table_name as string,
+      id: row.row_key as string,
+      rowId: row.row_id as number | null,
+      operation: row.operation as RowOperation,
+      record: row.record === null ? null : parseRecord(row.record as string),
+      previousRecord:
+        row.previous_record === null
+          ? null
+          : parseRecord(row.previous_record as string),
+    }));
+  }
+
+  private dropTriggers(table: string) {
+    for (const operation of ['insert', 'update', 'delete'] as const) {
+      this.db.exec(
+        `DROP TRIGGER IF EXISTS temp.${quoteIdentifier(
+          triggerName(table, operation)
+        )}`
+      );
+    }
+  }
+}
+
+function captureSql(
+  table: string,
+  columns: { name: string; pk: number }[],
+  withoutRowId: boolean
+) {
+  const pkColumns = columns
+    .filter((c) => c.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((c) => quoteIdentifier(c.name));
+
+  const keyExpr = (ref: string) =>
+    pkColumns.length === 1
+      ? `CAST(${ref}.${pkColumns[0]} AS TEXT)`
+      : pkColumns.length > 1
+      ? `json_array(${pkColumns
+          .map((c) => jsonValueExpr(`${ref}.${c}`))
+          .join(', ')})`
+      : `CAST(${ref}.rowid AS TEXT)`;
+
+  const rowIdExpr = (ref: string) => (withoutRowId ? 'NULL' : `${ref}.rowid`);
+
+  const recordExpr = (ref: string) =>
+    `json_object(${columns
+      .map(
+        (c) =>
+          `${quoteString(c.name)}, ${jsonValueExpr(
+            `${ref}.${quoteIdentifier(c.name)}`
+          )}`
+      )
+      .join(', ')})`;
+
+  const target = `main.${quoteIdentifier(table)}`;
+  const tableLiteral = quoteString(table);
+
+  /**
+   * Logs the `ref` row: `NEW`, `OLD` or the alias of the table in `from`.
+   * Updates and deletes log `OLD` as the previous record.
+   */
+  const log = (
+    ref: string,
+    operation: RowOperation,
+    { where = '', from = '' } = {}
+  ) => `
+    INSERT INTO ${CHANGE_LOG_TABLE}
+      (table_name, row_key, row_id, operation, record, previous_record)
+    SELECT
+      ${tableLiteral},
+      ${keyExpr(ref)},
+      ${rowIdExpr(ref)},
+      '${operation}',
+      ${operation === 'delete' ? 'NULL' : recordExpr(ref)},
+      ${operation === 'insert' ? 'NULL' : recordExpr('OLD')}
+    ${from}
+    ${where ? `WHERE ${where}` : ''};
+  `;
+
+  const keyChanged = `${keyExpr('OLD')} IS NOT ${keyExpr('NEW')}`;
+
+  return {
+    triggers: `
+      CREATE TEMP TRIGGER ${quoteIdentifier(triggerName(table, 'insert'))}
+      AFTER INSERT ON ${target}
+      BEGIN
+        ${log('NEW', 'insert')}
+      END;
+
+      CREATE TEMP TRIGGER ${quoteIdentifier(triggerName(table, 'update'))}
+      AFTER UPDATE ON ${target}
+      BEGIN
+        ${log('OLD', 'delete', { where: keyChanged })}
+        ${log('NEW', 'insert', { where: keyChanged })}
+        ${log('NEW', 'update', { where: `NOT (${keyChanged})` })}
+      END;
+
+      CREATE TEMP TRIGGER ${quoteIdentifier(triggerName(table, 'delete'))}
+      AFTER DELETE ON ${target}
+      BEGIN
+        ${log('OLD', 'delete')}
+      END;
+    `,
+    logExistingRows: log('existing', 'insert', {
+      from: `FROM ${target} AS existing`,
+    }),
+  };
+}
+
+/**
+ * `json_object()` and `json_array()` reject BLOBs so they're logged as
+ * `{ "$blob": "<hex>" }`, which `parseRecord()` turns back into bytes. No
+ * other column value becomes a JSON object.
+ */
+function jsonValueExpr(value: string) {
+  return `
+    CASE WHEN typeof(${value}) = 'blob'
+    THEN json_object('${BLOB_KEY}', hex(${value}))
+    ELSE ${value} END
+  `;
+}
+
+function parseRecord(json: string): { [columnName: string]: SqlValue } {
+  return JSON.parse(json, (_, value) =>
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value[BLOB_KEY] === 'string'
+      ? hexToBytes(value[BLOB_KEY])
+      : value
+  );
+}
+
+function hexToBytes(hex: string) {
+  const bytes = new Uint8Array(hex.length / 2);
+
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  return bytes;
+}
+
+function triggerName(table: string, operation: RowOperation) {
+  return `${TRIGGER_PREFIX}${table}_${operation}`;
+}
+
+export function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteString(value: string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,169 @@
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { RowChange } from './changeCapture';
+import { RecordMap } from './schema';
+import { StorageInfo } from './storage';
+
+/**
+ * The interface between `SQLiteClient` and the database it queries. The
+ * database may live on the main thread (`DatabaseHost`) or behind an async
+ * boundary such as a Web Worker (`RpcConnection`), so every method is async
+ * and all arguments and results must be structured-cloneable.
+ */
+export interface DatabaseConnection {
+  exec<T = { [columnName: string]: SqlValue }>(
+    args: SQLiteClientExecProps
+  ): Promise<SQLiteClientExecResult<T>>;
+
+  writeRecordMap(
+    recordMap: RecordMap,
+    options?: TransactionOptions
+  ): Promise<void>;
+
+  /**
+   * Resolves with the tables the query reads from. Rejects with a
+   * `QueryTableNamesError` if the query can't be observed (see
+   * `parseTableNames`).
+   */
+  getQueryTableNames(sql: string): Promise<string[]>;
+
+  /**
+   * Opens a transaction and resolves with its id. Until the transaction is
+   * committed or rolled back, only calls passing its `transactionId` will
+   * run. Others wait for it to finish.
+   */
+  beginTransaction(): Promise<string>;
+  /**
+   * Resolves with the change the transaction made, which subscribers also
+   * receive, or `null` if it didn't change anything.
+   */
+  commitTransaction(transactionId: string): Promise<DatabaseChange | null>;
+  rollbackTransaction(transactionId: string): Promise<void>;
+
+  /**
+   * The callback is called with every change committed to the database.
+   * @returns an unsubscribe function.
+   */
+  subscribeToChanges(callback: (change: DatabaseChange) => void): () => void;
+
+  /** Serializes the whole database into the bytes of a SQLite file. */
+  exportSnapshot(): Promise<Uint8Array>;
+
+  /**
+   * Replaces every record with those in a snapshot from `exportSnapshot()`,
+   * migrating it first if it's from an older version. Rejects without
+   * changing anything if the snapshot can't be read or migrated.
+   */
+  importSnapshot(snapshot: Uint8Array): Promise<void>;
+
+  /** Resolves with every record in the database. */
+  exportRecordMap(options?: TransactionOptions): Promise<RecordMap>;
+
+  /**
+   * Replaces every record with those in `recordMap`. Records which aren't
+   * in it are deleted. Only records which differ are written, all inside a
+   * single savepoint, so subscribers receive one `DatabaseChange` with
+   * every affected table.
+   */
+  importRecordMap(
+    recordMap: RecordMap,
+    options?: TransactionOptions
+  ): Promise<void>;
+
+  /** Describes where the database is actually being stored. */
+  getStorageInfo(): Promise<StorageInfo>;
+
+  close(): Promise<void>;
+}
+
+export interface DatabaseChange {
+  tableNames: string[];
+  /**
+   * The current value of every changed record. Deleted records are `null`
+   * tombstones.
+   */
+  changes: RecordMap;
+  /** Every changed row, in the order the changes were made. */
+  rowChanges: RowChange[];
+}
+
+/**
+ * What opening the database is doing. `done` is how many of the `total`
+ * pending migrations have been applied.
+ */
+export type InitProgress =
+  | { step: 'opening' }
+  | {
+      step: 'migrating';
+      version: number;
+      name: string;
+      done: number;
+      total: number;
+    }
+  | { step: 'hydrating' };
+
+export type TransactionOptions = {
+  /** Run inside the transaction returned by `beginTransaction()`. */
+  transactionId?: string;
+};
+
+export type SQLiteClientExecResult<T = { [columnName: string]: SqlValue }> = {
+  resultRows: T[];
+};
+
+export type SQLiteClientExecProps = TransactionOptions & {
+  sql: string;
+  /**
+   * Binds one or more values to its bindable parameters. It accepts 1 or 2 arguments:
+   *
+   * If passed a single argument, it must be either an array, an object, or a value of
+   * a bindable type (see below). Its bind index is assumed to be 1.
+   *
+   * If passed 2 arguments, the first one is the 1-based bind index or bindable
+   * parameter name and the second one must be a value of a bindable type.
+   *
+   * Bindable value types:
+   * - null is bound as NULL.
+   * - undefined as a standalone value is a no-op: passing undefined as a value to this
+   *   function will not actually bind anything and this function will skip confirmation
+   *   that binding is even legal. (Those semantics simplify certain client-side uses.)
+   *   Conversely, a value of undefined as an array or object property when binding an
+   *   array/object (see below) is treated the same as null.
+   * - Numbers are bound as either doubles or integers: doubles if they are larger than
+   *   32 bits, else double or int32, depending on whether they have a fractional part.
+   *   Booleans are bound as integer 0 or 1. It is not expected the distinction of
+   *   binding doubles which have no fractional parts as integers is significant for the
+   *   majority of clients due to sqlite3's data typing model. If BigInt support is
+   *   enabled then this routine will bind BigInt values as 64-bit integers if they'll
+   *   fit in 64 bits. If that support is disabled, it will store the BigInt as an int32
+   *   or a double if it can do so without loss of precision. In either case, if a BigInt
+   *   is too BigInt then it will throw.
+   * - Strings are bound as strings (use bindAsBlob() to force blob binding).
+   * - Uint8Array, Int8Array, and ArrayBuffer instances are bound as blobs.
+   *
+   * If passed an array, each element of the array is bound at the parameter index equal
+   * to the array index plus 1 (because arrays are 0-based but binding is 1-based).
+   *
+   * If passed an object, each object key is treated as a bindable parameter name. The
+   * object keys must match any bindable parameter names, including any $, @, or : prefix.
+   * Because $ is a legal identifier chararacter in JavaScript, that is the suggested
+   * prefix for bindable parameters: stmt.bind({$a: 1, $b: 2}).
+   *
+   * It returns this object on success and throws on error. Errors include:
+   * - Any bind index is out of range, a named bind parameter does not match, or this
+   *   statement has no bindable parameters.
+   * - Any value to bind is of an unsupported type.
+   * - Passed no arguments or more than two.
+   * - The statement has been finalized.
+   */
+  bind?: any[] | { [key: string]: any };
+  /**
+   * One of
+   * - 'array' (the default) causes the results of stmt.get([]) to be passed to the
+   *   callback and/or appended to resultRows.
+   * - 'object' causes the results of stmt.get(Object.create(null)) to be passed to the
+   *   callback and/or appended to resultRows. Achtung: an SQL result may have multiple
+   *   columns with identical names. In that case, the right-most column will be the one
+   *   set in this object!
+   */
+  // rowMode?: 'object' | 'array';
+};
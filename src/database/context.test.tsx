@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act } from 'react-test-renderer';
+import { ProvideDatabaseContext } from './context';
+import { useDatabaseContext, useDatabaseStatus } from './databaseStatus';
+import { InitProgress, SQLiteClient } from './SqliteDatabase';
+import { render, waitFor } from '../test/react';
+
+/** An `init` prop which opens the database when `open()` is called. */
+function controlledInit() {
+  let onProgress!: (progress: InitProgress) => void;
+  let resolve!: (client: SQLiteClient) => void;
+  let reject!: (error: unknown) => void;
+
+  const init = vi.fn((callback: (progress: InitProgress) => void) => {
+    onProgress = callback;
+    return new Promise<SQLiteClient>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  });
+
+  return {
+    init,
+    progress: (progress: InitProgress) => act(() => onProgress(progress)),
+    open: async (client?: SQLiteClient) => {
+      client ??= await SQLiteClient.init({ instrumentation: null });
+      await act(async () => resolve(client!));
+      return client;
+    },
+    fail: (error: unknown) => act(async () => reject(error)),
+  };
+}
+
+function Ready() {
+  const client = useDatabaseContext();
+  const { status } = useDatabaseStatus();
+
+  return <>{`${status}: ${client instanceof SQLiteClient}`}</>;
+}
+
+describe('ProvideDatabaseContext', () => {
+  it('renders the fallback with the progress and then its children', async () => {
+    const { init, progress, open } = controlledInit();
+
+    const renderer = await render(
+      <ProvideDatabaseContext
+        init={init}
+        fallback={(progress) =>
+          progress?.step === 'migrating'
+            ? `migrating ${progress.done + 1} of ${progress.total}`
+            : `fallback: ${progress?.step ?? null}`
+        }
+      >
+        <Ready />
+      </ProvideDatabaseContext>
+    );
+
+    expect(renderer.toJSON()).toBe('fallback: null');
+
+    progress({ step: 'opening' });
+    expect(renderer.toJSON()).toBe('fallback: opening');
+
+    progress({ step: 'migrating', version: 2, name: 'b', done: 1, total: 3 });
+    expect(renderer.toJSON()).toBe('migrating 2 of 3');
+
+    await open();
+    expect(renderer.toJSON()).toBe('ready: true');
+  });
+
+  it('renders errorFallback when opening fails and opens again on retry', async () => {
+    const { init, fail, open } = controlledInit();
+    const error = new Error('no database');
+
+    const renderer = await render(
+      <ProvideDatabaseContext
+        init={init}
+        fallback="opening"
+        errorFallback={(error, retry) => (
+          <button type="button" onClick={retry}>
+            {String(error)}
+          </button>
+        )}
+      >
+        <Ready />
+      </ProvideDatabaseContext>
+    );
+
+    await fail(error);
+
+    const button = renderer.root.findByType('button');
+    expect(button.children).toEqual(['Error: no database']);
+
+    act(() => button.props.onClick());
+    expect(renderer.toJSON()).toBe('opening');
+    expect(init).toHaveBeenCalledTimes(2);
+
+    await open();
+    expect(renderer.toJSON()).toBe('ready: true');
+  });
+
+  it('closes the database when it unmounts', async () => {
+    const { init, open } = controlledInit();
+
+    const renderer = await render(<ProvideDatabaseContext init={init} />);
+    const client = await open();
+    const close = vi.spyOn(client, 'close');
+
+    await act(async () => renderer.unmount());
+
+    expect(close).toHaveBeenCalledOnce();
+  });
+
+  it('closes a database which opens after it unmounted', async () => {
+    const { init, open } = controlledInit();
+
+    const renderer = await render(<ProvideDatabaseContext init={init} />);
+    await act(async () => renderer.unmount());
+
+    const client = await SQLiteClient.init({ instrumentation: null });
+    const close = vi.spyOn(client, 'close');
+    await open(client);
+
+    expect(close).toHaveBeenCalledOnce();
+  });
+
+  it('logs a failure to close the database', async () => {
+    const { init, open } = controlledInit();
+    const error = new Error("couldn't close");
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const renderer = await render(<ProvideDatabaseContext init={init} />);
+    const client = await open();
+    const close = client.close.bind(client);
+
+    vi.spyOn(client, 'close').mockRejectedValueOnce(error);
+    await act(async () => renderer.unmount());
+
+    await waitFor(() =>
+      expect(consoleError).toHaveBeenCalledWith(
+        'Failed to close the database',
+        error
+      )
+    );
+
+    consoleError.mockRestore();
+    await close();
+  });
+});
@@ -1,38 +1,113 @@
 import {
-  createContext,
-  useContext,
   PropsWithChildren,
+  ReactNode,
   useState,
   useEffect,
+  useRef,
   FunctionComponent,
 } from 'react';
-import { SQLiteClient } from './SqliteDatabase';
+import { InitProgress, SQLiteClient } from './SqliteDatabase';
+import { initDatabase } from './initDatabase';
+import { DatabaseStatus, DatabaseStatusContext } from './databaseStatus';
 
-const DatabaseContext = createContext<SQLiteClient | null>(null);
+/**
+ * Opens the database and provides it to `useDatabaseContext()`. Children
+ * are only rendered once the database is ready. The database is closed
+ * when this unmounts.
+ *
+ * @param props.init opens the database, telling `onProgress` what it's doing
+ *   (see `SQLiteClientOptions`). Defaults to the demo's database.
+ * @param props.fallback rendered while the database is opening. A function
+ *   receives the latest progress.
+ * @param props.errorFallback rendered if opening the database fails. Without
+ *   it the error is thrown to the nearest error boundary.
+ */
+export const ProvideDatabaseContext: FunctionComponent<
+  PropsWithChildren<{
+    init?: (
+      onProgress: (progress: InitProgress) => void
+    ) => Promise<SQLiteClient>;
+    fallback?: ReactNode | ((progress: InitProgress | null) => ReactNode);
+    errorFallback?: (error: unknown, retry: () => void) => ReactNode;
+  }>
+> = (props) => {
+  const [status, setStatus] = useState<DatabaseStatus>({
+    status: 'initializing',
+    progress: null,
+  });
 
-export const ProvideDatabaseContext: FunctionComponent<PropsWithChildren<{}>> =
-  (props) => {
-    const [context, setContext] = useState<SQLiteClient | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const initRef = useRef(
+    props.init ??
+      ((onProgress: (progress: InitProgress) => void) =>
+        initDatabase({ onProgress }))
+  );
 
-    useEffect(() => {
-      SQLiteClient.init().then(setContext);
-    }, []);
+  useEffect(() => {
+    let cancelled = false;
+    let openClient: SQLiteClient | undefined;
 
-    if (!context) return null;
+    setStatus({ status: 'initializing', progress: null });
 
-    return (
-      <DatabaseContext.Provider value={context}>
-        {props.children}
-      </DatabaseContext.Provider>
+    const onProgress = (progress: InitProgress) => {
+      if (!cancelled) setStatus({ status: 'initializing', progress });
+    };
+
+    initRef.current(onProgress).then(
+      (client) => {
+        if (cancelled) {
+          closeClient(client);
+          return;
+        }
+
+        openClient = client;
+        setStatus({ status: 'ready', client });
+      },
+      (error) => {
+        if (cancelled) return;
+
+        setStatus({
+          status: 'error',
+          error,
+          retry: () => setAttempt((attempt) => attempt + 1),
+        });
+      }
     );
-  };
 
-export function useDatabaseContext() {
-  const context = useContext(DatabaseContext);
+    return () => {
+      cancelled = true;
+      if (openClient) closeClient(openClient);
+    };
+  }, [attempt]);
 
-  if (!context) {
-    throw new Error('DatabaseContext not provided');
+  let children: ReactNode;
+
+  switch (status.status) {
+    case 'initializing': {
+      children =
+        typeof props.fallback === 'function'
+          ? props.fallback(status.progress)
+          : props.fallback ?? null;
+      break;
+    }
+    case 'ready': {
+      children = props.children;
+      break;
+    }
+    case 'error': {
+      if (!props.errorFallback) throw status.error;
+      children = props.errorFallback(status.error, status.retry);
+      break;
+    }
   }
 
-  return context as SQLiteClient;
+  return (
+    <DatabaseStatusContext.Provider value={status}>
+      {children}
+    </DatabaseStatusContext.Provider>
+  );
+};
+
+function closeClient(client: SQLiteClient) {
+  client.close().catch((e) => console.error('Failed to close the database', e));
 }
@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { connectAcrossTabs } from './crossTab';
+import { DatabaseHost } from './DatabaseHost';
+import { DatabaseChange, DatabaseConnection } from './connection';
+import { RpcMessage } from './rpc';
+import { RecordMap } from './schema';
+
+type LockCallback = (lock: { name: string }) => unknown;
+
+/**
+ * An in-memory `navigator.locks` shared by every "tab" of a test. Only
+ * exclusive locks are supported, which is all `connectAcrossTabs` uses.
+ */
+class FakeLockManager {
+  /** The holder of each lock followed by the requests waiting for it. */
+  private queues = new Map<string, (() => void)[]>();
+
+  request(
+    name: string,
+    optionsOrCallback: { signal?: AbortSignal } | LockCallback,
+    callback?: LockCallback
+  ) {
+    const options =
+      typeof optionsOrCallback === 'function' ? {} : optionsOrCallback;
+    const fn = callback ?? (optionsOrCallback as LockCallback);
+    const queue = this.queues.get(name) ?? [];
+    this.queues.set(name, queue);
+
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        const index = queue.indexOf(grant);
+        if (index <= 0) return;
+        queue.splice(index, 1);
+        reject(new DOMException('The request was aborted.', 'AbortError'));
+      };
+
+      const grant = () => {
+        options.signal?.removeEventListener('abort', abort);
+
+        Promise.resolve()
+          .then(() => fn({ name }))
+          .then(resolve, reject)
+          .finally(() => {
+            queue.shift();
+            queue[0]?.();
+          });
+      };
+
+      options.signal?.addEventListener('abort', abort);
+      queue.push(grant);
+      if (queue.length === 1) grant();
+    });
+  }
+}
+
+const connections: DatabaseConnection[] = [];
+let name: string;
+let locks: FakeLockManager;
+
+beforeEach(() => {
+  // each test gets its own channel so that tabs from earlier tests are
+  // never found
+  name = `test-${crypto.randomUUID()}`;
+  locks = new FakeLockManager();
+  vi.stubGlobal('navigator', { locks });
+});
+
+afterEach(async () => {
+  while (connections.length > 0) await connections.pop()!.close();
+  vi.unstubAllGlobals();
+});
+
+/** Opens a tab. `open` is only called if it's elected leader. */
+async function openTab(open = vi.fn(() => DatabaseHost.open())) {
+  const connection = await connectAcrossTabs({ name, open });
+  connections.push(connection);
+  return { connection, open };
+}
+
+/** Closes a tab from `openTab()` before the test ends. */
+async function closeTab(connection: DatabaseConnection) {
+  connections.splice(connections.indexOf(connection), 1);
+  await connection.close();
+}
+
+const counter = (id: string, value: number) =>
+  ({ counter: { [id]: { id, value } } }) as RecordMap;
+
+const readCounters = (connection: DatabaseConnection) =>
+  connection
+    .exec({ sql: 'SELECT * FROM counter ORDER BY id' })
+    .then(({ resultRows }) => resultRows);
+
+describe('connectAcrossTabs', () => {
+  it('opens the database in the first tab only', async () => {
+    const leader = await openTab();
+    const followers = [await openTab(), await openTab()];
+
+    expect(leader.open).toHaveBeenCalledOnce();
+    for (const { open } of followers) expect(open).not.toHaveBeenCalled();
+  });
+
+  it("forwards the followers' requests to the leader", async () => {
+    const leader = await openTab();
+    const follower = await openTab();
+
+    await follower.connection.writeRecordMap(counter('a', 1));
+
+    expect(await readCounters(leader.connection)).toEqual([
+      { id: 'a', value: 1 },
+    ]);
+    expect(await readCounters(follower.connection)).toEqual([
+      { id: 'a', value: 1 },
+    ]);
+
+    // errors keep their message
+    await expect(
+      follower.connection.exec({ sql: 'SELECT * FROM missing' })
+    ).rejects.toThrow('no such table: missing');
+  });
+
+  it('delivers changes to every tab', async () => {
+    const tabs = [await openTab(), await openTab(), await openTab()];
+    const received = tabs.map(({ connection }) => {
+      const changes: DatabaseChange[] = [];
+      connection.subscribeToChanges((change) => changes.push(change));
+      return changes;
+    });
+
+    await tabs[1].connection.writeRecordMap(counter('a', 1));
+
+    await vi.waitFor(() => {
+      for (const changes of received) {
+        expect(changes.map((change) => change.changes)).toEqual([
+          counter('a', 1),
+        ]);
+      }
+    });
+  });
+
+  it('elects another tab which opens the database when the leader closes', async () => {
+    const leader = await openTab();
+    const followers = [await openTab(), await openTab()];
+
+    await closeTab(leader.connection);
+
+    await vi.waitFor(() =>
+      expect(
+        followers.filter(({ open }) => open.mock.calls.length > 0)
+      ).toHaveLength(1)
+    );
+
+    // both tabs use the new leader's database
+    await followers[0].connection.writeRecordMap(counter('a', 1));
+    await followers[1].connection.writeRecordMap(counter('b', 2));
+
+    for (const { connection } of followers) {
+      expect(await readCounters(connection)).toEqual([
+        { id: 'a', value: 1 },
+        { id: 'b', value: 2 },
+      ]);
+    }
+  });
+
+  it('rolls back the transactions left open by a follower which closes', async () => {
+    const leader = await openTab();
+    const follower = await openTab();
+
+    const transactionId = await follower.connection.beginTransaction();
+    await follower.connection.writeRecordMap(counter('a', 1), {
+      transactionId,
+    });
+
+    await closeTab(follower.connection);
+
+    // would wait for the transaction forever if it were still open
+    await leader.connection.writeRecordMap(counter('b', 2));
+
+    expect(await readCounters(leader.connection)).toEqual([
+      { id: 'b', value: 2 },
+    ]);
+  });
+
+  it("rolls back the transactions of a follower which goes without saying so once its tab's lock is released", async () => {
+    const leader = await openTab();
+
+    // a tab which crashes, so never sends `disconnect`
+    const channel = new BroadcastChannel(name);
+    let releaseTabLock!: () => void;
+    locks.request(
+      `${name}:tab:crashed`,
+      () => new Promise<void>((resolve) => (releaseTabLock = resolve))
+    );
+
+    const responses: RpcMessage[] = [];
+    channel.onmessage = ({ data }) => {
+      if (data.type === 'leader') {
+        channel.postMessage({
+          type: 'rpc',
+          from: 'crashed',
+          to: data.from,
+          message: {
+            type: 'request',
+            id: 1,
+            method: 'beginTransaction',
+            args: [],
+          },
+        });
+      } else if (data.type === 'rpc' && data.to === 'crashed') {
+        responses.push(data.message);
+      }
+    };
+    channel.postMessage({ type: 'hello', from: 'crashed' });
+
+    await vi.waitFor(() =>
+      expect(responses).toContainEqual(
+        expect.objectContaining({ type: 'response', id: 1 })
+      )
+    );
+
+    channel.close();
+    releaseTabLock();
+
+    await leader.connection.writeRecordMap(counter('a', 1));
+
+    expect(await readCounters(leader.connection)).toEqual([
+      { id: 'a', value: 1 },
+    ]);
+  });
+
+  it('opens the database in every tab without Web Locks', async () => {
+    vi.stubGlobal('navigator', {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const tabs = [await openTab(), await openTab()];
+
+    for (const { open } of tabs) expect(open).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledTimes(tabs.length);
+
+    warn.mockRestore();
+  });
+});
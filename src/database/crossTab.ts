@@ -0,0 +1,477 @@
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { RecordMap } from './schema';
+import {
+  DatabaseChange,
+  DatabaseConnection,
+  SQLiteClientExecProps,
+  TransactionOptions,
+} from './connection';
+import {
+  MessageTransport,
+  RpcConnection,
+  RpcMessage,
+  serveDatabase,
+} from './rpc';
+
+/**
+ * Shares `DatabaseChange`s with the other tabs (and workers) of this origin
+ * which use the same channel `name`. Changes posted here are not delivered
+ * back to `onChange`.
+ */
+export function createChangeBroadcast(
+  name: string,
+  onChange: (change: DatabaseChange) => void
+) {
+  const channel = new BroadcastChannel(name);
+
+  channel.onmessage = (event) => onChange(event.data as DatabaseChange);
+
+  return {
+    post: (change: DatabaseChange) => channel.postMessage(change),
+    close: () => channel.close(),
+  };
+}
+
+type TabMessage =
+  /** Sent by a tab looking for the leader and to introduce itself to it. */
+  | { type: 'hello'; from: string }
+  /** Sent by the leader when it's elected and in reply to `hello`. */
+  | { type: 'leader'; from: string }
+  | { type: 'rpc'; from: string; to: string; message: RpcMessage }
+  | { type: 'disconnect'; from: string };
+
+/**
+ * Opens one connection to the database for every tab which calls this with
+ * the same `name`. The tabs elect a leader using the Web Locks API. Only the
+ * leader calls `open()` and the other tabs forward their queries and writes
+ * to it over a `BroadcastChannel`. Changes reach every tab through its
+ * connection. When the leader closes, another tab is elected and opens the
+ * database. Requests which the old leader hadn't answered reject.
+ *
+ * Every tab also holds a lock of its own for as long as it's open, which the
+ * leader waits for to find out when a follower has gone, even one which
+ * crashed without saying so. It then rolls back the transactions the
+ * follower left open, which would otherwise block every other tab.
+ *
+ * Falls back to calling `open()` in every tab where Web Locks aren't
+ * available.
+ */
+export async function connectAcrossTabs(options: {
+  name: string;
+  open: () => Promise<DatabaseConnection>;
+}): Promise<DatabaseConnection> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    console.warn(
+      'Web Locks are not available so the database is not shared across tabs.'
+    );
+
+    return options.open();
+  }
+
+  const connection = new TabConnection(options.name, options.open);
+  await connection.ready;
+  return connection;
+}
+
+class TabConnection implements DatabaseConnection {
+  readonly ready: Promise<void>;
+
+  private id = crypto.randomUUID();
+
+  private channel: BroadcastChannel;
+
+  private connection: DatabaseConnection | undefined;
+
+  private isLeader = false;
+
+  private closed = false;
+
+  private changeSubscriptions = new Set<(change: DatabaseChange) => void>();
+
+  private unsubscribeFromConnection: (() => void) | undefined;
+
+  private releaseLock: (() => void) | undefined;
+
+  private releaseTabLock: (() => void) | undefined;
+
+  // used while following
+
+  private leaderId: string | null = null;
+
+  /** Requests waiting for a leader to be found. */
+  private outbox: RpcMessage[] = [];
+
+  /** The ids of requests sent to the leader which haven't been answered. */
+  private inFlight = new Set<number>();
+
+  private rpcListeners = new Set<(message: RpcMessage) => void>();
+
+  // used while leading
+
+  private followers = new Map<
+    string,
+    { receive: (message: RpcMessage) => void; stop: () => void }
+  >();
+
+  constructor(
+    private name: string,
+    private open: () => Promise<DatabaseConnection>
+  ) {
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event) =>
+      this.handleMessage(event.data as TabMessage);
+
+    let resolveReady!: () => void;
+    let rejectReady!: (error: unknown) => void;
+
+    this.ready = new Promise((resolve, reject) => {
+      resolveReady = resolve;
+      rejectReady = reject;
+    });
+
+    RpcConnection.connect(this.leaderTransport()).then(
+      (connection) => {
+        if (this.connection) return;
+        this.useConnection(connection);
+        resolveReady();
+      },
+      // rejected when this tab becomes the leader first
+      () => {}
+    );
+
+    // held until this tab closes so that the leader can tell when it's gone
+    navigator.locks.request(
+      tabLockName(name, this.id),
+      () =>
+        new Promise<void>((release) => {
+          if (this.closed) return release();
+          this.releaseTabLock = release;
+        })
+    );
+
+    navigator.locks.request(
+      name,
+      () =>
+        new Promise<void>((release) => {
+          if (this.closed) return release();
+
+          this.releaseLock = release;
+
+          this.lead().then(resolveReady, (e) => {
+            release();
+            rejectReady(e);
+            if (this.connection) console.error('Failed to open database', e);
+          });
+        })
+    );
+
+    this.post({ type: 'hello', from: this.id });
+
+    globalThis.addEventListener?.('pagehide', () =>
+      this.post({ type: 'disconnect', from: this.id })
+    );
+  }
+
+  exec<T = { [columnName: string]: SqlValue }>(args: SQLiteClientExecProps) {
+    return this.connection!.exec<T>(args);
+  }
+
+  writeRecordMap(recordMap: RecordMap, options?: TransactionOptions) {
+    return this.connection!.writeRecordMap(recordMap, options);
+  }
+
+  getQueryTableNames(sql: string) {
+    return this.connection!.getQueryTableNames(sql);
+  }
+
+  beginTransaction() {
+    return this.connection!.beginTransaction();
+  }
+
+  commitTransaction(transactionId: string) {
+    return this.connection!.commitTransaction(transactionId);
+  }
+
+  rollbackTransaction(transactionId: string) {
+    return this.connection!.rollbackTransaction(transactionId);
+  }
+
+  subscribeToChanges(callback: (change: DatabaseChange) => void) {
+    this.changeSubscriptions.add(callback);
+
+    return () => {
+      this.changeSubscriptions.delete(callback);
+    };
+  }
+
+  exportSnapshot() {
+    return this.connection!.exportSnapshot();
+  }
+
+  importSnapshot(snapshot: Uint8Array) {
+    return this.connection!.importSnapshot(snapshot);
+  }
+
+  exportRecordMap(options?: TransactionOptions) {
+    return this.connection!.exportRecordMap(options);
+  }
+
+  importRecordMap(recordMap: RecordMap, options?: TransactionOptions) {
+    return this.connection!.importRecordMap(recordMap, options);
+  }
+
+  getStorageInfo() {
+    return this.connection!.getStorageInfo();
+  }
+
+  async close() {
+    this.closed = true;
+    this.post({ type: 'disconnect', from: this.id });
+    this.channel.close();
+    this.unsubscribeFromConnection?.();
+    this.changeSubscriptions.clear();
+    this.releaseTabLock?.();
+
+    if (!this.isLeader) return;
+
+    for (const followerId of [...this.followers.keys()]) {
+      this.dropFollower(followerId);
+    }
+
+    try {
+      await this.connection!.close();
+    } finally {
+      // lets another tab take over
+      this.releaseLock?.();
+    }
+  }
+
+  private async lead() {
+    const connection = await this.open();
+
+    if (this.closed) {
+      await connection.close();
+      this.releaseLock?.();
+      return;
+    }
+
+    this.isLeader = true;
+    this.leaderId = this.id;
+    this.useConnection(connection);
+
+    // This tab's `RpcConnection` is no longer used
+    this.rejectUnansweredRequests(
+      this.outbox.flatMap((m) => (m.type === 'request' ? [m.id] : []))
+    );
+    this.outbox = [];
+    this.rpcListeners.clear();
+    this.post({ type: 'leader', from: this.id });
+  }
+
+  private useConnection(connection: DatabaseConnection) {
+    this.unsubscribeFromConnection?.();
+    this.connection = connection;
+    this.unsubscribeFromConnection = connection.subscribeToChanges((change) => {
+      for (const callback of this.changeSubscriptions) callback(change);
+    });
+  }
+
+  private handleMessage(message: TabMessage) {
+    switch (message.type) {
+      case 'hello': {
+        if (!this.isLeader) return;
+        if (!this.followers.has(message.from)) this.serve(message.from);
+        this.post({ type: 'leader', from: this.id });
+        return;
+      }
+      case 'leader': {
+        if (this.isLeader || message.from === this.leaderId) return;
+
+        // the previous leader (if any) is gone
+        this.rejectUnansweredRequests();
+        this.leaderId = message.from;
+
+        // so that the new leader sends us changes
+        this.post({ type: 'hello', from: this.id });
+
+        const outbox = this.outbox;
+        this.outbox = [];
+        for (const request of outbox) this.sendToLeader(request);
+
+        return;
+      }
+      case 'rpc': {
+        if (message.to !== this.id) return;
+
+        if (this.isLeader) {
+          const follower =
+            this.followers.get(message.from) ?? this.serve(message.from);
+          follower.receive(message.message);
+          return;
+        }
+
+        if (message.from !== this.leaderId) return;
+
+        if ('id' in message.message) {
+          this.inFlight.delete(message.message.id);
+        }
+
+        for (const listener of this.rpcListeners) listener(message.message);
+
+        return;
+      }
+      case 'disconnect': {
+        this.dropFollower(message.from);
+        return;
+      }
+    }
+  }
+
+  /** The transport this tab's `RpcConnection` uses to reach the leader. */
+  private leaderTransport(): MessageTransport {
+    return {
+      postMessage: (message) => {
+        if (this.leaderId === null) {
+          this.outbox.push(message);
+        } else {
+          this.sendToLeader(message);
+        }
+      },
+      onMessage: (listener) => {
+        this.rpcListeners.add(listener);
+        return () => this.rpcListeners.delete(listener);
+      },
+    };
+  }
+
+  private sendToLeader(message: RpcMessage) {
+    if (message.type === 'request') this.inFlight.add(message.id);
+    this.post({ type: 'rpc', from: this.id, to: this.leaderId!, message });
+  }
+
+  /**
+   * Rejects the requests sent to the leader which it hadn't answered along
+   * with any other given requests.
+   */
+  private rejectUnansweredRequests(otherIds: number[] = []) {
+    const ids = [...this.inFlight, ...otherIds];
+
+    this.inFlight.clear();
+
+    for (const id of ids) {
+      for (const listener of this.rpcListeners) {
+        listener({
+          type: 'error',
+          id,
+          error: {
+            name: 'Error',
+            message:
+              'The tab which held the database closed before it responded.',
+            properties: {},
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Serves the leader's connection to a follower tab until it disconnects or
+   * its tab lock is released.
+   */
+  private serve(followerId: string) {
+    const listeners = new Set<(message: RpcMessage) => void>();
+
+    /** The ids of the follower's `beginTransaction()` requests. */
+    const beginRequestIds = new Set<number>();
+
+    /** The transactions the follower has opened and not yet finished. */
+    const transactionIds = new Set<string>();
+
+    let stopped = false;
+
+    const rollback = (transactionId: string) =>
+      this.connection!.rollbackTransaction(transactionId).catch(() => {
+        // it was committed or rolled back in the meantime
+      });
+
+    const stopServing = serveDatabase(this.connection!, {
+      postMessage: (message) => {
+        if (message.type === 'response' && beginRequestIds.has(message.id)) {
+          beginRequestIds.delete(message.id);
+
+          const transactionId = message.result as string;
+
+          // the follower went while its transaction was being opened
+          if (stopped) return rollback(transactionId);
+
+          transactionIds.add(transactionId);
+        }
+
+        this.post({ type: 'rpc', from: this.id, to: followerId, message });
+      },
+      onMessage: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    });
+
+    const receive = (message: RpcMessage) => {
+      if (message.type === 'request') {
+        if (message.method === 'beginTransaction') {
+          beginRequestIds.add(message.id);
+        } else if (
+          message.method === 'commitTransaction' ||
+          message.method === 'rollbackTransaction'
+        ) {
+          // the transaction is finished even if committing it fails
+          transactionIds.delete(message.args[0] as string);
+        }
+      }
+
+      for (const listener of listeners) listener(message);
+    };
+
+    const stopWatching = new AbortController();
+
+    // granted once the follower's tab lock is released
+    navigator.locks
+      .request(
+        tabLockName(this.name, followerId),
+        { signal: stopWatching.signal },
+        () => this.dropFollower(followerId)
+      )
+      .catch(() => {
+        // aborted because the follower disconnected first
+      });
+
+    const stop = () => {
+      stopped = true;
+      stopServing();
+      stopWatching.abort();
+      for (const transactionId of transactionIds) rollback(transactionId);
+      transactionIds.clear();
+    };
+
+    const follower = { receive, stop };
+    this.followers.set(followerId, follower);
+    return follower;
+  }
+
+  /**
+   * Stops serving a follower which has gone and rolls back the
+   * transactions it left open.
+   */
+  private dropFollower(followerId: string) {
+    this.followers.get(followerId)?.stop();
+    this.followers.delete(followerId);
+  }
+
+  private post(message: TabMessage) {
+    this.channel.postMessage(message);
+  }
+}
+
+/** The lock each tab holds while it's open. */
+function tabLockName(name: string, tabId: string) {
+  return `${name}:tab:${tabId}`;
+}
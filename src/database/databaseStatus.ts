@@ -0,0 +1,35 @@
+import { createContext, useContext } from 'react';
+import { InitProgress, SQLiteClient } from './SqliteDatabase';
+
+export type DatabaseStatus =
+  /** `progress` is `null` until opening the database reports any. */
+  | { status: 'initializing'; progress: InitProgress | null }
+  | { status: 'ready'; client: SQLiteClient }
+  | { status: 'error'; error: unknown; retry: () => void };
+
+/** Provided by `ProvideDatabaseContext`. */
+export const DatabaseStatusContext = createContext<DatabaseStatus | null>(null);
+
+/**
+ * Whether the database provided by `ProvideDatabaseContext` is still
+ * opening, ready or failed to open.
+ */
+export function useDatabaseStatus() {
+  const status = useContext(DatabaseStatusContext);
+
+  if (!status) {
+    throw new Error('DatabaseContext not provided');
+  }
+
+  return status;
+}
+
+export function useDatabaseContext() {
+  const status = useDatabaseStatus();
+
+  if (status.status !== 'ready') {
+    throw new Error('The database is not ready');
+  }
+
+  return status.client;
+}
@@ -0,0 +1,168 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'vitest';
+import { Database } from '@sqlite.org/sqlite-wasm';
+import { openMemoryDatabase } from '../test/sqlite';
+import {
+  RecordFromTable,
+  RecordsFromSchema,
+  SchemaDefinition,
+  assertSchemaMatches,
+  ftsContentTable,
+} from './defineSchema';
+
+const schema = {
+  note: {
+    columns: {
+      id: { type: 'TEXT' },
+      title: { type: 'TEXT' },
+      body: { type: 'TEXT', nullable: true },
+      pinned: { type: 'INTEGER', default: 0 },
+      score: { type: 'REAL' },
+      attachment: { type: 'BLOB', nullable: true },
+    },
+  },
+} as const satisfies SchemaDefinition;
+
+const searchIndexes = { note_fts: { table: 'note', columns: ['title'] } };
+
+const createNote = `
+  CREATE TABLE note (
+    id TEXT PRIMARY KEY NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    score REAL NOT NULL,
+    attachment BLOB
+  );
+`;
+
+const createNoteFts = `
+  CREATE VIRTUAL TABLE note_fts USING fts5(title, content='note');
+`;
+
+let db: Database;
+
+beforeEach(async () => {
+  db = await openMemoryDatabase();
+});
+
+afterEach(() => {
+  db.close();
+});
+
+/** The problems `assertSchemaMatches` finds after running `sql`. */
+function problems(sql: string) {
+  if (sql) db.exec(sql);
+
+  try {
+    assertSchemaMatches(db, schema, searchIndexes);
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+describe('RecordFromTable', () => {
+  it('derives the value type of each column', () => {
+    expectTypeOf<RecordFromTable<typeof schema.note>>().toEqualTypeOf<{
+      id: string;
+      title: string;
+      body: string | null;
+      pinned: number;
+      score: number;
+      attachment: Uint8Array | null;
+    }>();
+
+    expectTypeOf<RecordsFromSchema<typeof schema>>().toHaveProperty('note');
+  });
+});
+
+describe('assertSchemaMatches', () => {
+  it('accepts a database which matches', () => {
+    expect(problems(createNote + createNoteFts)).toBe(null);
+  });
+
+  it('reports missing tables, columns and search indexes', () => {
+    expect(problems('')).toMatch(/table "note" does not exist/);
+
+    const message = problems(
+      'CREATE TABLE note (id TEXT PRIMARY KEY NOT NULL, title TEXT NOT NULL)'
+    );
+
+    expect(message).toMatch(/column "note.body" does not exist/);
+    expect(message).toMatch(/search index "note_fts" does not exist/);
+    expect(message).toMatch(/Did you forget to add a migration\?$/);
+  });
+
+  it('reports columns with the wrong type or nullability', () => {
+    const message = problems(
+      createNote
+        .replace('title TEXT NOT NULL', 'title INTEGER NOT NULL')
+        .replace('body TEXT', 'body TEXT NOT NULL')
+        .replace('score REAL NOT NULL', 'score REAL') + createNoteFts
+    );
+
+    expect(message).toMatch(
+      /column "note.title" has type INTEGER but TEXT was expected/
+    );
+    expect(message).toMatch(/column "note.body" should be nullable/);
+    expect(message).toMatch(/column "note.score" should not be nullable/);
+  });
+
+  it('reports a table whose primary key is not id', () => {
+    expect(
+      problems(
+        createNote.replace('id TEXT PRIMARY KEY NOT NULL', 'id TEXT NOT NULL') +
+          createNoteFts
+      )
+    ).toMatch(/table "note" should have "id" as its primary key/);
+
+    db.exec('DROP TABLE note; DROP TABLE note_fts');
+
+    expect(
+      problems(
+        createNote
+          .replace('id TEXT PRIMARY KEY NOT NULL', 'id TEXT NOT NULL')
+          .replace(');', ', PRIMARY KEY (id, title));') + createNoteFts
+      )
+    ).toMatch(/table "note" should have "id" as its primary key/);
+  });
+
+  it('reports search indexes over the wrong table or columns', () => {
+    const message = problems(
+      createNote +
+        `CREATE VIRTUAL TABLE note_fts USING fts5(title, body, content='other');`
+    );
+
+    expect(message).toMatch(
+      /search index "note_fts" should index table "note"/
+    );
+    expect(message).toMatch(
+      /search index "note_fts" has columns title, body but title were expected/
+    );
+  });
+});
+
+describe('ftsContentTable', () => {
+  it('reads the content option however it is quoted', () => {
+    expect(
+      ftsContentTable(`CREATE VIRTUAL TABLE f USING fts5(a, content='t')`)
+    ).toBe('t');
+    expect(
+      ftsContentTable(`CREATE VIRTUAL TABLE f USING fts5(a, content="it""s")`)
+    ).toBe('it"s');
+    expect(
+      ftsContentTable(`CREATE VIRTUAL TABLE f USING fts5(a, content=t)`)
+    ).toBe('t');
+    expect(ftsContentTable(`CREATE VIRTUAL TABLE f USING fts5(a)`)).toBe(null);
+    expect(
+      ftsContentTable(`CREATE VIRTUAL TABLE f USING fts5(a, content='')`)
+    ).toBe(null);
+  });
+});
@@ -0,0 +1,169 @@
+import { Database } from '@sqlite.org/sqlite-wasm';
+
+export type ColumnType = 'TEXT' | 'INTEGER' | 'REAL' | 'BLOB';
+
+export interface ColumnDefinition {
+  type: ColumnType;
+  /** Columns are `NOT NULL` unless this is `true`. */
+  nullable?: boolean;
+  /** A literal default value. Strings are quoted for you. */
+  default?: string | number;
+}
+
+/**
+ * Every table is keyed by a `TEXT` `id` primary key column. This is what
+ * allows `RecordMap`, `liveRecord()` and `observeRecord()` to address a
+ * record with just its table and id.
+ */
+export interface TableDefinition {
+  columns: { id: ColumnDefinition & { type: 'TEXT' } } & {
+    [columnName: string]: ColumnDefinition;
+  };
+}
+
+export type SchemaDefinition = { [tableName: string]: TableDefinition };
+
+/**
+ * An FTS5 table which indexes `columns` of `table`. It's an external
+ * content table (`content='<table>'`) keyed by the table's rowid, kept in
+ * sync by `AFTER INSERT/UPDATE/DELETE` triggers on the table. `VACUUM` may
+ * renumber rowids, so rebuild the index after running it (see
+ * `SQLiteClient.rebuildSearchIndexes()`).
+ */
+export interface SearchIndexDefinition {
+  table: string;
+  columns: readonly string[];
+}
+
+export type SearchIndexesDefinition = {
+  [indexName: string]: SearchIndexDefinition;
+};
+
+type ColumnValue<C extends ColumnDefinition> =
+  | (C['type'] extends 'TEXT'
+      ? string
+      : C['type'] extends 'BLOB'
+      ? Uint8Array
+      : number)
+  | (C extends { nullable: true } ? null : never);
+
+export type RecordFromTable<T extends TableDefinition> = {
+  -readonly [Column in keyof T['columns']]: ColumnValue<T['columns'][Column]>;
+};
+
+export type RecordsFromSchema<S extends SchemaDefinition> = {
+  -readonly [Table in keyof S]: RecordFromTable<S[Table]>;
+};
+
+/**
+ * Throws if the tables (or search indexes) in the database don't match the
+ * schema definition (e.g. a table was added to the definition without a
+ * migration creating it).
+ */
+export function assertSchemaMatches(
+  db: Database,
+  schema: SchemaDefinition,
+  searchIndexes: SearchIndexesDefinition = {}
+) {
+  const problems: string[] = [];
+
+  for (const [tableName, table] of Object.entries(schema)) {
+    const actualColumns = new Map(
+      (
+        db.selectObjects(`PRAGMA main.table_info(${tableName})`) as {
+          name: string;
+          type: string;
+          notnull: number;
+          pk: number;
+        }[]
+      ).map((c) => [c.name, c])
+    );
+
+    if (actualColumns.size === 0) {
+      problems.push(`table "${tableName}" does not exist`);
+      continue;
+    }
+
+    const primaryKey = [...actualColumns.values()].filter((c) => c.pk > 0);
+
+    if (primaryKey.length !== 1 || primaryKey[0].name !== 'id') {
+      problems.push(`table "${tableName}" should have "id" as its primary key`);
+    }
+
+    for (const [columnName, column] of Object.entries(table.columns)) {
+      const actual = actualColumns.get(columnName);
+
+      if (!actual) {
+        problems.push(`column "${tableName}.${columnName}" does not exist`);
+      } else if (actual.type.toUpperCase() !== column.type) {
+        problems.push(
+          `column "${tableName}.${columnName}" has type ${actual.type} ` +
+            `but ${column.type} was expected`
+        );
+      } else if (!!actual.notnull === !!column.nullable) {
+        problems.push(
+          `column "${tableName}.${columnName}" should ` +
+            `${column.nullable ? '' : 'not '}be nullable`
+        );
+      }
+    }
+  }
+
+  for (const [indexName, index] of Object.entries(searchIndexes)) {
+    const createSql = db.selectValue(
+      `SELECT sql FROM main.sqlite_schema WHERE type = 'table' AND name = ?`,
+      [indexName]
+    );
+
+    if (typeof createSql !== 'string' || !/\bUSING\s+fts5\b/i.test(createSql)) {
+      problems.push(`search index "${indexName}" does not exist`);
+      continue;
+    }
+
+    if (ftsContentTable(createSql) !== index.table) {
+      problems.push(
+        `search index "${indexName}" should index table "${index.table}"`
+      );
+    }
+
+    const columns = (
+      db.selectObjects(`PRAGMA main.table_info(${indexName})`) as {
+        name: string;
+      }[]
+    ).map((c) => c.name);
+
+    if (columns.join() !== index.columns.join()) {
+      problems.push(
+        `search index "${indexName}" has columns ${columns.join(', ')} ` +
+          `but ${index.columns.join(', ')} were expected`
+      );
+    }
+  }
+
+  if (problems.length === 0) return;
+
+  throw new Error(
+    `The database schema does not match the schema definition: ` +
+      `${problems.join('; ')}. Did you forget to add a migration?`
+  );
+}
+
+/**
+ * @param createSql the `CREATE VIRTUAL TABLE ... USING fts5(...)` statement
+ *   of an FTS5 table.
+ * @returns the table given as its `content` option, or `null` if it stores
+ *   its own content (or is contentless).
+ */
+export function ftsContentTable(createSql: string) {
+  const match =
+    /[(,]\s*content\s*=\s*(?:'((?:[^']|'')*)'|"((?:[^"]|"")*)"|([\w$]+))/i.exec(
+      createSql
+    );
+
+  if (!match) return null;
+
+  const table =
+    match[1]?.replace(/''/g, "'") ?? match[2]?.replace(/""/g, '"') ?? match[3];
+
+  return table || null;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { deleteRecordsSql } from './deleteRecordSql';
+import { SQLiteClient } from './SqliteDatabase';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+const ids = Array.from({ length: 2500 }, (_, i) => `counter-${i}`);
+
+async function createCounters() {
+  const client = await createClient();
+
+  await client.writeRecordMap({
+    counter: Object.fromEntries(ids.map((id) => [id, { id, value: 1 }])),
+  } as RecordMap);
+
+  return client;
+}
+
+async function countRecords(client: SQLiteClient) {
+  const { resultRows } = await client.exec({
+    sql: 'SELECT COUNT(*) AS count FROM counter',
+  });
+
+  return resultRows[0].count;
+}
+
+describe('deleteRecordsSql', () => {
+  it('splits the ids into batches', () => {
+    const statements = deleteRecordsSql('counter', ids);
+
+    expect(statements.map(({ values }) => values.length)).toEqual([
+      999, 999, 502,
+    ]);
+    expect(statements.flatMap(({ values }) => values)).toEqual(ids);
+  });
+
+  it('returns no statements without ids', () => {
+    expect(deleteRecordsSql('counter', [])).toEqual([]);
+  });
+
+  it('deletes more records than fit in one statement', async () => {
+    const client = await createCounters();
+
+    await client.deleteRecords('counter', ids.slice(1));
+
+    expect(await countRecords(client)).toBe(1);
+  });
+
+  it('deletes more tombstones than fit in one statement', async () => {
+    const client = await createCounters();
+
+    await client.writeRecordMap({
+      counter: Object.fromEntries(ids.map((id) => [id, null])),
+    } as RecordMap);
+
+    expect(await countRecords(client)).toBe(0);
+  });
+
+  it('emits null from observeRecord for a deleted record', async () => {
+    const client = await createCounters();
+    const records: unknown[] = [];
+
+    const subscription = client
+      .observeRecord('counter', 'counter-0')
+      .subscribe((record) => records.push(record));
+
+    await vi.waitFor(() => expect(records).toHaveLength(1));
+    await client.deleteRecord('counter', 'counter-0');
+    await vi.waitFor(() => expect(records).toHaveLength(2));
+
+    expect(records).toEqual([{ id: 'counter-0', value: 1 }, null]);
+    subscription.unsubscribe();
+  });
+
+  it('drops deleted records from live queries', async () => {
+    const client = await createCounters();
+    const results: string[][] = [];
+
+    const subscription = client
+      .observeQuery<{ id: string }>({
+        sql: `SELECT id FROM counter WHERE id IN ('counter-1', 'counter-2')`,
+        values: [],
+      })
+      .subscribe(({ resultRows }) =>
+        results.push(resultRows.map(({ id }) => id))
+      );
+
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+    await client.deleteRecords('counter', ids.slice(1));
+    await vi.waitFor(() => expect(results).toHaveLength(2));
+
+    expect(results).toEqual([['counter-1', 'counter-2'], []]);
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,39 @@
+import sql, { join, raw, Sql } from 'sql-template-tag';
+import { RecordTable } from './schema';
+
+/**
+ * The most ids bound to one statement. SQLite builds before 3.32 allow at
+ * most 999 bound parameters.
+ */
+const MAX_IDS_PER_STATEMENT = 999;
+
+/**
+ * @returns one statement for each batch of `MAX_IDS_PER_STATEMENT` ids, so
+ *   that no statement binds more parameters than SQLite allows. Run them in
+ *   one transaction to delete the records together.
+ */
+export function deleteRecordsSql(table: RecordTable, ids: string[]) {
+  const statements: Sql[] = [];
+
+  for (let i = 0; i < ids.length; i += MAX_IDS_PER_STATEMENT) {
+    statements.push(sql`
+      DELETE FROM ${raw(table)}
+      WHERE ${raw(table)}.id IN (${join(
+        ids.slice(i, i + MAX_IDS_PER_STATEMENT)
+      )});
+    `);
+  }
+
+  return statements;
+}
+
+/**
+ * @param where an `sql` template fragment used as the `WHERE` clause, e.g.
+ *   sql`message.thread_id = ${threadId}`
+ */
+export function deleteWhereSql(table: RecordTable, where: Sql) {
+  return sql`
+    DELETE FROM ${raw(table)}
+    WHERE ${where};
+  `;
+}
@@ -0,0 +1,108 @@
+import { Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+
+/**
+ * SQLite failed to run a statement. `resultCode` is SQLite's extended
+ * result code (e.g. 2067 for `SQLITE_CONSTRAINT_UNIQUE`), `code` is its
+ * name and `sql` is the statement which failed.
+ */
+export class SqliteError extends Error {
+  constructor(
+    message: string,
+    public resultCode: number,
+    public code: string,
+    public sql?: string
+  ) {
+    super(message);
+    this.name = 'SqliteError';
+  }
+}
+
+/**
+ * The statement couldn't be compiled. Either it has a syntax error or it
+ * uses a table, column or function which doesn't exist, e.g. because a
+ * migration hasn't run yet.
+ */
+export class SqlParseError extends SqliteError {
+  constructor(message: string, resultCode: number, code: string, sql?: string) {
+    super(message, resultCode, code, sql);
+    this.name = 'SqlParseError';
+  }
+}
+
+/** A `UNIQUE`, `NOT NULL`, `CHECK` or foreign key constraint failed. */
+export class ConstraintError extends SqliteError {
+  constructor(message: string, resultCode: number, code: string, sql?: string) {
+    super(message, resultCode, code, sql);
+    this.name = 'ConstraintError';
+  }
+}
+
+/**
+ * `writeRecordMap()` couldn't write a record. Nothing in the record map was
+ * written. `cause` is usually a `ConstraintError`.
+ */
+export class RecordWriteError extends Error {
+  constructor(
+    public table: string,
+    /** `undefined` when deleting several records at once failed. */
+    public recordId: string | undefined,
+    public cause: unknown
+  ) {
+    super(
+      `Could not ${recordId === undefined ? 'delete records in' : 'write'} ` +
+        `${table}${recordId === undefined ? '' : ` ${recordId}`}: ${
+          cause instanceof Error ? cause.message : String(cause)
+        }`
+    );
+    this.name = 'RecordWriteError';
+  }
+}
+
+const SQLITE_ERROR = 1;
+const SQLITE_CONSTRAINT = 19;
+
+const PARSE_ERROR_MESSAGE =
+  /syntax error|incomplete input|unrecognized token|no such (table|column|function)|has no column named|ambiguous column name/;
+
+/**
+ * Wraps an error thrown by sqlite-wasm in the matching `SqliteError`
+ * subclass. Other errors are returned as they are.
+ *
+ * @param sql the statement which failed.
+ */
+export function toSqliteError(
+  error: unknown,
+  capi: Sqlite3Static['capi'],
+  sql?: string
+) {
+  const resultCode = (error as { resultCode?: unknown } | null)?.resultCode;
+
+  if (
+    !(error instanceof Error) ||
+    error instanceof SqliteError ||
+    typeof resultCode !== 'number'
+  ) {
+    return error;
+  }
+
+  const code = capi.sqlite3_js_rc_str(resultCode) ?? `SQLITE_${resultCode}`;
+
+  // sqlite-wasm prefixes messages with e.g. "SQLITE_ERROR: sqlite3 result
+  // code 1: " which `code` already says
+  const message = error.message.replace(
+    /^SQLITE_\w+: sqlite3 result code \d+: /,
+    ''
+  );
+
+  // the primary result code is in the low byte
+  const primaryCode = resultCode & 0xff;
+
+  const ErrorClass =
+    primaryCode === SQLITE_CONSTRAINT
+      ? ConstraintError
+      : primaryCode === SQLITE_ERROR && PARSE_ERROR_MESSAGE.test(message)
+      ? SqlParseError
+      : SqliteError;
+
+  return new ErrorClass(message, resultCode, code, sql);
+}
@@ -0,0 +1,42 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { SnapshotStore } from './storage';
+
+/**
+ * Keeps the snapshot in a file, for `snapshot` storage in Node. Each save
+ * writes a temporary file next to `path` and renames it over `path` so that
+ * a crash mid-save leaves the previous snapshot in place. Saves are written
+ * one at a time, in the order they were made.
+ *
+ * Only import this in Node. It isn't exported with the rest of the storage
+ * so that browser bundles don't include `node:fs`.
+ *
+ *     SQLiteClient.init({
+ *       storage: { type: 'snapshot', store: createFileSnapshotStore(path) },
+ *     });
+ */
+export function createFileSnapshotStore(path: string): SnapshotStore {
+  let saving = Promise.resolve();
+
+  return {
+    load: async () => {
+      try {
+        return new Uint8Array(await readFile(path));
+      } catch (e) {
+        if ((e as { code?: string }).code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+    save: (snapshot) => {
+      const save = saving.then(async () => {
+        const temporaryPath = `${path}.tmp`;
+        await writeFile(temporaryPath, snapshot);
+        await rename(temporaryPath, path);
+      });
+
+      // a failed save doesn't stop the next one
+      saving = save.catch(() => {});
+
+      return save;
+    },
+  };
+}
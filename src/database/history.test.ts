@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SQLiteClient } from './SqliteDatabase';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+async function createHistory() {
+  const client = await createClient();
+
+  await client.writeRecordMap({
+    thread: { a: { id: 'a', subject: 'First' } },
+  } as RecordMap);
+
+  return { client, history: client.createHistory() };
+}
+
+async function readThreads(client: SQLiteClient) {
+  const { resultRows } = await client.exec({
+    sql: 'SELECT * FROM thread ORDER BY id',
+  });
+
+  return resultRows;
+}
+
+describe('History', () => {
+  it('undoes and redoes writes', async () => {
+    const { client, history } = await createHistory();
+
+    await history.record('Rename', (tx) =>
+      tx.writeRecordMap({
+        thread: { a: { id: 'a', subject: 'Renamed' } },
+      } as RecordMap)
+    );
+
+    await history.undo();
+    expect(await readThreads(client)).toEqual([{ id: 'a', subject: 'First' }]);
+
+    await history.redo();
+    expect(await readThreads(client)).toEqual([
+      { id: 'a', subject: 'Renamed' },
+    ]);
+  });
+
+  it('undoes and redoes an update which changes the id', async () => {
+    const { client, history } = await createHistory();
+
+    await history.record('Change id', (tx) =>
+      tx.exec({ sql: `UPDATE thread SET id = 'b' WHERE id = 'a'` })
+    );
+
+    expect(await readThreads(client)).toEqual([{ id: 'b', subject: 'First' }]);
+
+    await history.undo();
+    expect(await readThreads(client)).toEqual([{ id: 'a', subject: 'First' }]);
+
+    await history.redo();
+    expect(await readThreads(client)).toEqual([{ id: 'b', subject: 'First' }]);
+
+    await history.undo();
+    expect(await readThreads(client)).toEqual([{ id: 'a', subject: 'First' }]);
+  });
+});
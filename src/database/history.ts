@@ -0,0 +1,192 @@
+import { BehaviorSubject } from 'rxjs';
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { DatabaseConnection } from './connection';
+import { RowChange } from './changeCapture';
+import { RecordMap, tables } from './schema';
+import { SQLiteTransaction, runTransactionWithChange } from './transaction';
+
+export type HistoryOptions = {
+  /**
+   * The most operations which can be undone. Older operations are
+   * forgotten. Defaults to 100.
+   */
+  maxOperations?: number;
+};
+
+export type HistoryState = {
+  /** The names of the operations `undo()` can undo, the next one last. */
+  undo: string[];
+  /** The names of the operations `redo()` can redo, the next one last. */
+  redo: string[];
+};
+
+type Operation = {
+  name: string;
+  /** The operation's changes to record tables, in the order they were made. */
+  rowChanges: RowChange[];
+};
+
+/**
+ * Undo and redo for the writes made through `record()`, e.g. for an editor.
+ *
+ *     const history = client.createHistory();
+ *
+ *     await history.record('Rename thread', (tx) =>
+ *       tx.writeRecordMap({ thread: { [thread.id]: { ...thread, subject } } })
+ *     );
+ *
+ *     await history.undo();
+ *
+ * Each operation runs in a transaction. When it commits, its row changes
+ * are kept along with each record's value from before the change (see
+ * `RowChange`), so writes made with raw SQL, by triggers or by `ON DELETE
+ * CASCADE` are undone too. Undoing an operation writes its records back as
+ * they were before it, and redoing writes them as they were after it, each
+ * in one transaction. Live queries receive the `DatabaseChange` as they
+ * would for any other write.
+ *
+ * Only changes to the schema's record tables are kept. Writes made outside
+ * `record()` (e.g. by the server) can't be undone, and undoing overwrites
+ * changes made to the same records since.
+ */
+export class History {
+  private undoStack: Operation[] = [];
+
+  private redoStack: Operation[] = [];
+
+  /** Operations, undos and redos run one at a time, in the order called. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private subject = new BehaviorSubject<HistoryState>({ undo: [], redo: [] });
+
+  /** What can be undone and redone, updated whenever it changes. */
+  readonly state$ = this.subject.asObservable();
+
+  private maxOperations: number;
+
+  constructor(
+    private connection: DatabaseConnection,
+    options: HistoryOptions = {}
+  ) {
+    this.maxOperations = options.maxOperations ?? 100;
+  }
+
+  getState() {
+    return this.subject.getValue();
+  }
+
+  /**
+   * Runs `fn` inside a transaction (see `SQLiteClient#transaction()`) and,
+   * once it commits, adds it to the history as an operation named `name`.
+   * Whatever could be redone is forgotten. An operation which doesn't
+   * change any records isn't added.
+   */
+  record<R>(name: string, fn: (tx: SQLiteTransaction) => Promise<R>) {
+    return this.enqueue(async () => {
+      const { result, change } = await runTransactionWithChange(
+        this.connection,
+        fn
+      );
+
+      const rowChanges =
+        change?.rowChanges.filter((rowChange) => rowChange.table in tables) ??
+        [];
+
+      if (rowChanges.length > 0) {
+        this.undoStack.push({ name, rowChanges });
+        this.undoStack.splice(0, this.undoStack.length - this.maxOperations);
+        this.redoStack = [];
+        this.emit();
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Undoes the most recent operation which hasn't been undone.
+   *
+   * @returns its name, or `null` if there was nothing to undo.
+   */
+  undo() {
+    return this.enqueue(async () => {
+      const operation = this.undoStack[this.undoStack.length - 1];
+
+      if (!operation) return null;
+
+      await runTransactionWithChange(this.connection, async (tx) => {
+        for (const { table, id, previousRecord } of [
+          ...operation.rowChanges,
+        ].reverse()) {
+          await writeRecord(tx, table, id, previousRecord);
+        }
+      });
+
+      // unless the history was cleared in the meantime
+      if (this.undoStack[this.undoStack.length - 1] === operation) {
+        this.undoStack.pop();
+        this.redoStack.push(operation);
+        this.emit();
+      }
+
+      return operation.name;
+    });
+  }
+
+  /**
+   * Redoes the most recently undone operation.
+   *
+   * @returns its name, or `null` if there was nothing to redo.
+   */
+  redo() {
+    return this.enqueue(async () => {
+      const operation = this.redoStack[this.redoStack.length - 1];
+
+      if (!operation) return null;
+
+      await runTransactionWithChange(this.connection, async (tx) => {
+        for (const { table, id, record } of operation.rowChanges) {
+          await writeRecord(tx, table, id, record);
+        }
+      });
+
+      if (this.redoStack[this.redoStack.length - 1] === operation) {
+        this.redoStack.pop();
+        this.undoStack.push(operation);
+        this.emit();
+      }
+
+      return operation.name;
+    });
+  }
+
+  /** Forgets every operation. The records are left as they are. */
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emit();
+  }
+
+  private enqueue<T>(fn: () => Promise<T>) {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private emit() {
+    this.subject.next({
+      undo: this.undoStack.map((operation) => operation.name),
+      redo: this.redoStack.map((operation) => operation.name),
+    });
+  }
+}
+
+/** Writes `record` or, if it's `null`, deletes the record. */
+function writeRecord(
+  tx: SQLiteTransaction,
+  table: string,
+  id: string,
+  record: { [columnName: string]: SqlValue } | null
+) {
+  return tx.writeRecordMap({ [table]: { [id]: record } } as RecordMap);
+}
@@ -0,0 +1,172 @@
+import { ReactNode } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { act } from 'react-test-renderer';
+import sql from 'sql-template-tag';
+import {
+  useLiveQuery,
+  useLiveRecord,
+  useLiveWindow,
+  useMutation,
+} from './hooks';
+import { DatabaseStatusContext } from './databaseStatus';
+import { SQLiteClient } from './SqliteDatabase';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+import { render, waitFor } from '../test/react';
+
+const counters = (values: { [id: string]: number | null }) =>
+  ({
+    counter: Object.fromEntries(
+      Object.entries(values).map(([id, value]) => [
+        id,
+        value === null ? null : { id, value },
+      ])
+    ),
+  }) as RecordMap;
+
+/** Renders what `useValue()` returns as JSON. */
+async function renderHook<T>(client: SQLiteClient, useValue: () => T) {
+  function Value() {
+    return <>{JSON.stringify(useValue())}</>;
+  }
+
+  const wrap = (children: ReactNode) => (
+    <DatabaseStatusContext.Provider value={{ status: 'ready', client }}>
+      {children}
+    </DatabaseStatusContext.Provider>
+  );
+
+  const renderer = await render(wrap(<Value />));
+
+  return {
+    value: () => JSON.parse(String(renderer.toJSON())) as T,
+    rerender: () => act(() => renderer.update(wrap(<Value />))),
+  };
+}
+
+describe('useLiveQuery', () => {
+  it("returns 'loading' and then the rows, which update after a write", async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 1 }));
+
+    const { value } = await renderHook(client, () =>
+      useLiveQuery(sql`SELECT * FROM counter ORDER BY id`)
+    );
+
+    await waitFor(() => expect(value()).toEqual([{ id: 'a', value: 1 }]));
+
+    await act(() => client.writeRecordMap(counters({ b: 2 })));
+
+    await waitFor(() =>
+      expect(value()).toEqual([
+        { id: 'a', value: 1 },
+        { id: 'b', value: 2 },
+      ])
+    );
+  });
+
+  it("returns 'loading' before the first result", async () => {
+    const client = await createClient();
+    let first: unknown;
+
+    await renderHook(client, () => {
+      const rows = useLiveQuery(sql`SELECT * FROM counter`);
+      first ??= rows;
+      return rows;
+    });
+
+    expect(first).toBe('loading');
+  });
+
+  it('returns null without a statement', async () => {
+    const client = await createClient();
+
+    const { value } = await renderHook(client, () => useLiveQuery(null));
+
+    expect(value()).toBe(null);
+  });
+});
+
+describe('useLiveRecord', () => {
+  it('returns the record and null once it is deleted', async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 1 }));
+
+    const { value } = await renderHook(client, () =>
+      useLiveRecord('counter', 'a')
+    );
+
+    await waitFor(() => expect(value()).toEqual({ id: 'a', value: 1 }));
+
+    await act(() => client.writeRecordMap(counters({ a: null })));
+
+    await waitFor(() => expect(value()).toBe(null));
+  });
+});
+
+describe('useLiveWindow', () => {
+  it('keeps its window until the options change', async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 1, b: 2, c: 3 }));
+
+    const liveWindow = vi.spyOn(client, 'liveWindow');
+    let minimum = 0;
+    let loadMore!: () => Promise<void>;
+
+    const { value, rerender } = await renderHook(client, () => {
+      // a new object every render
+      const [state, controls] = useLiveWindow({
+        table: 'counter',
+        where: sql`value > ${minimum}`,
+        orderBy: 'value',
+        pageSize: 1,
+      });
+
+      loadMore = controls.loadMore;
+      return state === 'loading' ? state : state.rows.map(({ id }) => id);
+    });
+
+    await waitFor(() => expect(value()).toEqual(['a']));
+
+    rerender();
+    await act(() => loadMore());
+
+    await waitFor(() => expect(value()).toEqual(['a', 'b']));
+    expect(liveWindow).toHaveBeenCalledOnce();
+
+    minimum = 1;
+    rerender();
+
+    await waitFor(() => expect(value()).toEqual(['b']));
+    expect(liveWindow).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useMutation', () => {
+  it('reports whether the mutation is pending, succeeded or failed', async () => {
+    const client = await createClient();
+    let mutate!: (value: number) => Promise<void>;
+
+    const { value } = await renderHook(client, () => {
+      const [fn, state] = useMutation((client, value: number) =>
+        value < 0
+          ? Promise.reject(new Error('negative'))
+          : client.writeRecordMap(counters({ a: value }))
+      );
+
+      mutate = fn;
+      return state;
+    });
+
+    expect(value()).toEqual({ status: 'idle' });
+
+    await act(() => mutate(1));
+
+    expect(value()).toEqual({ status: 'success' });
+    expect(await client.exportRecordMap()).toMatchObject(counters({ a: 1 }));
+
+    await act(() => expect(mutate(-1)).rejects.toThrow('negative'));
+
+    expect(value()).toMatchObject({ status: 'error' });
+  });
+});
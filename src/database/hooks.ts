@@ -0,0 +1,380 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import {
+  useObservable,
+  useObservableState,
+  useRenderThrow,
+} from 'observable-hooks';
+import {
+  Observable,
+  distinctUntilChanged,
+  firstValueFrom,
+  map,
+  of,
+  switchMap,
+} from 'rxjs';
+import { Sql } from 'sql-template-tag';
+import { useDatabaseContext } from './databaseStatus';
+import { ObserveOptions, SQLiteClient } from './SqliteDatabase';
+import { RecordTable, RecordValue, SearchIndex } from './schema';
+import { toCacheKey } from './queryCache';
+import { LiveWindowOptions, LiveWindowState } from './pagination';
+import { SearchIndexTable, SearchOptions, SearchResult } from './search';
+import { AggregateGroups, LiveAggregateOptions } from './aggregates';
+
+export type LiveQueryOptions = ObserveOptions & {
+  /**
+   * When `true`, the component suspends (for the nearest `<Suspense>`)
+   * until the first result is ready rather than receiving `'loading'`.
+   */
+  suspense?: boolean;
+};
+
+/**
+ * Subscribes to the query's rows. Returns `'loading'` until the first result
+ * is ready (unless `suspense` is set) and `null` if `statement` is `null`.
+ * Query errors are thrown during render so that they reach the nearest
+ * error boundary.
+ *
+ *     const messages = useLiveQuery<MessageRecord>(
+ *       sql`SELECT * FROM message WHERE thread_id = ${threadId}`
+ *     );
+ */
+export function useLiveQuery<T = { [columnName: string]: SqlValue }>(
+  statement: Sql,
+  options: LiveQueryOptions & { suspense: true }
+): T[];
+export function useLiveQuery<T = { [columnName: string]: SqlValue }>(
+  statement: Sql | null | undefined,
+  options?: LiveQueryOptions
+): T[] | null | 'loading';
+export function useLiveQuery<T>(
+  statement: Sql | null | undefined,
+  options: LiveQueryOptions = {}
+) {
+  return useLiveValue(
+    statement
+      ? toCacheKey([
+          'query',
+          statement.sql,
+          statement.values,
+          options.distinct,
+          options.priority,
+          options.retry,
+        ])
+      : null,
+    (client) =>
+      client
+        .observeQuery<T>(statement!, options)
+        .pipe(map(({ resultRows }) => resultRows)),
+    options.suspense
+  );
+}
+
+/**
+ * Subscribes to a single record. Returns `null` if the record doesn't exist
+ * or `id` is `null`. Otherwise behaves like `useLiveQuery()`.
+ */
+export function useLiveRecord<T extends RecordTable>(
+  table: T,
+  id: string,
+  options: LiveQueryOptions & { suspense: true }
+): RecordValue<T> | null;
+export function useLiveRecord<T extends RecordTable>(
+  table: T,
+  id: string | null | undefined,
+  options?: LiveQueryOptions
+): RecordValue<T> | null | 'loading';
+export function useLiveRecord<T extends RecordTable>(
+  table: T,
+  id: string | null | undefined,
+  options: LiveQueryOptions = {}
+) {
+  return useLiveValue(
+    id
+      ? toCacheKey([
+          'record',
+          table,
+          id,
+          options.distinct,
+          options.priority,
+          options.retry,
+        ])
+      : null,
+    (client) => client.observeRecord(table, id!, options),
+    options.suspense
+  );
+}
+
+/**
+ * Subscribes to a `client.liveWindow()`. Returns the window's state (or
+ * `'loading'` until the first page is ready) and functions which load more
+ * rows. The window is recreated when `options` change.
+ *
+ *     const [messages, { loadMore }] = useLiveWindow({
+ *       table: 'message',
+ *       where: sql`thread_id = ${threadId}`,
+ *     });
+ */
+export function useLiveWindow<T extends RecordTable>(
+  options: LiveWindowOptions<T>
+) {
+  const client = useDatabaseContext();
+
+  const key = toCacheKey([
+    'window',
+    options.table,
+    options.where?.sql,
+    options.where?.values,
+    options.orderBy,
+    options.direction,
+    options.pageSize,
+    options.startAt,
+  ]);
+
+  // `options` is usually a new object every render so it's only replaced
+  // when `key` changes
+  const [windowOptions, setWindowOptions] = useState({ key, options });
+
+  if (windowOptions.key !== key) setWindowOptions({ key, options });
+
+  const liveWindow = useMemo(
+    () => client.liveWindow(windowOptions.options),
+    [client, windowOptions]
+  );
+
+  const state = useLiveValue(key, () => liveWindow.state$) as
+    | LiveWindowState<RecordValue<T>>
+    | 'loading';
+
+  const controls = useMemo(
+    () => ({
+      loadMore: () => liveWindow.loadMore(),
+      loadPrevious: () => liveWindow.loadPrevious(),
+    }),
+    [liveWindow]
+  );
+
+  return [state, controls] as const;
+}
+
+/**
+ * Subscribes to a full-text search (see `client.observeSearch()`). Returns
+ * `'loading'` until the first results are ready unless `suspense` is set.
+ */
+export function useLiveSearch<I extends SearchIndex>(
+  index: I,
+  query: string,
+  options: SearchOptions & { suspense: true }
+): SearchResult<RecordValue<SearchIndexTable<I>>>[];
+export function useLiveSearch<I extends SearchIndex>(
+  index: I,
+  query: string,
+  options?: SearchOptions & { suspense?: boolean }
+): SearchResult<RecordValue<SearchIndexTable<I>>>[] | 'loading';
+export function useLiveSearch<I extends SearchIndex>(
+  index: I,
+  query: string,
+  options: SearchOptions & { suspense?: boolean } = {}
+) {
+  const { suspense, ...searchOptions } = options;
+
+  return useLiveValue(
+    toCacheKey(['search', index, query, searchOptions]),
+    (client) => client.observeSearch(index, query, searchOptions),
+    suspense
+  );
+}
+
+/**
+ * Subscribes to an aggregate (see `client.observeAggregate()`). Returns a
+ * `Map` of each group's value when `groupBy` is set and the value
+ * otherwise, or `'loading'` until it's ready unless `suspense` is set.
+ *
+ *     const messageCount = useLiveAggregate({
+ *       table: 'message',
+ *       aggregate: 'count',
+ *       where: { thread_id: threadId },
+ *     });
+ */
+export function useLiveAggregate<T extends RecordTable>(
+  options: LiveAggregateOptions<T> & {
+    groupBy: keyof RecordValue<T> & string;
+    suspense: true;
+  }
+): AggregateGroups;
+export function useLiveAggregate<T extends RecordTable>(
+  options: LiveAggregateOptions<T> & {
+    groupBy: keyof RecordValue<T> & string;
+    suspense?: boolean;
+  }
+): AggregateGroups | 'loading';
+export function useLiveAggregate<T extends RecordTable>(
+  options: LiveAggregateOptions<T> & { groupBy?: undefined; suspense: true }
+): SqlValue;
+export function useLiveAggregate<T extends RecordTable>(
+  options: LiveAggregateOptions<T> & { groupBy?: undefined; suspense?: boolean }
+): SqlValue | 'loading';
+export function useLiveAggregate<T extends RecordTable>(
+  options: LiveAggregateOptions<T> & { suspense?: boolean }
+) {
+  const { suspense, ...aggregateOptions } = options;
+
+  return useLiveValue(
+    toCacheKey(['aggregate', aggregateOptions]),
+    (client) =>
+      client.observeAggregate(
+        aggregateOptions as LiveAggregateOptions<T> & { groupBy?: undefined }
+      ) as Observable<AggregateGroups | SqlValue>,
+    suspense
+  );
+}
+
+export type MutationState =
+  | { status: 'idle' }
+  | { status: 'pending' }
+  | { status: 'success' }
+  | { status: 'error'; error: unknown };
+
+/**
+ * Wraps a write so that components can render its progress. The returned
+ * function resolves with the mutation's result and rejects if it fails.
+ *
+ *     const [increment, { status }] = useMutation((db, id: string) =>
+ *       db.transaction(async (tx) => { ... })
+ *     );
+ *
+ * @param options.throwOnError throw a failed mutation's error during render
+ *   so that it reaches the nearest error boundary.
+ */
+export function useMutation<Args extends unknown[], R>(
+  mutation: (client: SQLiteClient, ...args: Args) => Promise<R>,
+  options: { throwOnError?: boolean } = {}
+) {
+  const client = useDatabaseContext();
+  const [state, setState] = useState<MutationState>({ status: 'idle' });
+  const mutationRef = useRef(mutation);
+
+  useLayoutEffect(() => {
+    mutationRef.current = mutation;
+  });
+
+  const mutate = useCallback(
+    async (...args: Args) => {
+      setState({ status: 'pending' });
+
+      try {
+        const result = await mutationRef.current(client, ...args);
+        setState({ status: 'success' });
+        return result;
+      } catch (e) {
+        setState({ status: 'error', error: e });
+        throw e;
+      }
+    },
+    [client]
+  );
+
+  if (options.throwOnError && state.status === 'error') throw state.error;
+
+  return [mutate, state] as const;
+}
+
+function useLiveValue<T>(
+  key: string | null,
+  observe: (client: SQLiteClient) => Observable<T>,
+  suspense = false
+): T | null | 'loading' {
+  const client = useDatabaseContext();
+
+  const initialValue =
+    suspense && key !== null
+      ? readSuspenseCache(client, key, observe)
+      : undefined;
+
+  // `observe` is a new function every render so `key` decides when to
+  // resubscribe
+  const value$ = useObservable(
+    (inputs$) =>
+      inputs$.pipe(
+        distinctUntilChanged(
+          ([prevClient, prevKey], [client, key]) =>
+            prevClient === client && prevKey === key
+        ),
+        switchMap(([client, key, observe]) =>
+          key === null
+            ? of(null)
+            : observe(client).pipe(map((value) => ({ key, value })))
+        )
+      ),
+    [client, key, observe]
+  );
+
+  const state = useObservableState(useRenderThrow(value$), null);
+
+  if (key === null) return null;
+
+  // the state may still belong to the previous key
+  if (state?.key === key) return state.value;
+
+  return initialValue ? initialValue.current : 'loading';
+}
+
+// Suspense throws away the state of a component which suspends so the
+// first result of a query is kept here, long enough for the component to
+// re-render and read it.
+const SUSPENSE_CACHE_TIME = 5_000;
+
+type SuspenseCacheEntry = {
+  promise: Promise<void>;
+  value?: { current: unknown };
+  error?: unknown;
+};
+
+const suspenseCache = new WeakMap<
+  SQLiteClient,
+  Map<string, SuspenseCacheEntry>
+>();
+
+function readSuspenseCache<T>(
+  client: SQLiteClient,
+  key: string,
+  observe: (client: SQLiteClient) => Observable<T>
+) {
+  let entries = suspenseCache.get(client);
+
+  if (!entries) {
+    entries = new Map();
+    suspenseCache.set(client, entries);
+  }
+
+  let entry = entries.get(key);
+
+  if (!entry) {
+    const newEntry: SuspenseCacheEntry = {
+      promise: firstValueFrom(observe(client)).then(
+        (value) => {
+          newEntry.value = { current: value };
+          setTimeout(() => entries!.delete(key), SUSPENSE_CACHE_TIME);
+        },
+        (error) => {
+          newEntry.error = error;
+        }
+      ),
+    };
+
+    entries.set(key, newEntry);
+    entry = newEntry;
+  }
+
+  if (entry.value) return entry.value as { current: T };
+
+  if (entry.error) {
+    // so that retrying (e.g. resetting the error boundary) runs the query
+    // again
+    entries.delete(key);
+    throw entry.error;
+  }
+
+  throw entry.promise;
+}
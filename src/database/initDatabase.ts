@@ -0,0 +1,16 @@
+import { SQLiteClient, SQLiteClientOptions } from './SqliteDatabase';
+
+/**
+ * Opens the demo's database, which is persisted in OPFS.
+ *
+ * @param options e.g. the `instrumentation` to use.
+ */
+export function initDatabase(options: SQLiteClientOptions = {}) {
+  return SQLiteClient.initInWorker({
+    ...options,
+    storage: { type: 'opfs', filename: '/observable-sqlite.sqlite3' },
+    // Only one tab opens the OPFS database. The others send their
+    // queries to it and receive its changes.
+    shareAcrossTabs: true,
+  });
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LiveQueryInspector } from './instrumentation';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+const counter = (id: string, value: number) =>
+  ({ counter: { [id]: { id, value } } }) as RecordMap;
+
+const statement = { sql: 'SELECT * FROM counter ORDER BY id', values: [] };
+
+/** A client whose live queries are tracked by the returned inspector. */
+async function createInspectedClient(
+  options: Parameters<typeof createClient>[0] = {},
+  inspector = new LiveQueryInspector()
+) {
+  const client = await createClient({ ...options, instrumentation: inspector });
+
+  return { client, inspector };
+}
+
+describe('LiveQueryInspector', () => {
+  it('counts the subscribers and runs of each live query', async () => {
+    const { client, inspector } = await createInspectedClient();
+    await client.writeRecordMap(counter('a', 1));
+
+    const subscriptions = [
+      client.observeQuery(statement).subscribe(),
+      client.observeQuery(statement).subscribe(),
+    ];
+
+    await vi.waitFor(() =>
+      expect(inspector.getQueries()).toMatchObject([{ runCount: 1 }])
+    );
+
+    expect(inspector.getQueries()).toEqual([
+      expect.objectContaining({
+        sql: statement.sql,
+        values: [],
+        tableNames: ['counter'],
+        subscriberCount: 2,
+        runCount: 1,
+      }),
+    ]);
+
+    await client.writeRecordMap(counter('b', 2));
+    await vi.waitFor(() =>
+      expect(inspector.getQueries()).toMatchObject([{ runCount: 2 }])
+    );
+
+    // a write to a table the query doesn't read doesn't run it
+    await client.exec({ sql: `INSERT INTO thread VALUES ('t1', 'Hello')` });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(inspector.getQueries()).toMatchObject([{ runCount: 2 }]);
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+  });
+
+  it('records the change which caused each run, newest first', async () => {
+    const { client, inspector } = await createInspectedClient();
+
+    const subscription = client.observeQuery(statement).subscribe();
+
+    await vi.waitFor(() =>
+      expect(inspector.getQueries()).toMatchObject([{ runCount: 1 }])
+    );
+
+    await client.writeRecordMap(counter('a', 1));
+    await vi.waitFor(() =>
+      expect(inspector.getQueries()).toMatchObject([{ runCount: 2 }])
+    );
+
+    const [query] = inspector.getQueries();
+
+    expect(query.lastRun).toBe(query.recentRuns[0]);
+    expect(query.recentRuns).toEqual([
+      expect.objectContaining({
+        id: query.id,
+        trigger: expect.objectContaining({ changes: counter('a', 1) }),
+        rowCount: 1,
+      }),
+      expect.objectContaining({ id: query.id, trigger: null, rowCount: 0 }),
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it('keeps the given number of recent runs', async () => {
+    const { client, inspector } = await createInspectedClient(
+      {},
+      new LiveQueryInspector({ recentRuns: 2 })
+    );
+
+    const subscription = client.observeQuery(statement).subscribe();
+
+    for (const value of [1, 2, 3]) {
+      await client.writeRecordMap(counter('a', value));
+      await vi.waitFor(() =>
+        expect(inspector.getQueries()).toMatchObject([{ runCount: value + 1 }])
+      );
+    }
+
+    const [query] = inspector.getQueries();
+
+    expect(query.recentRuns.map(({ rowCount }) => rowCount)).toEqual([1, 1]);
+    expect(query.recentRuns.map(({ trigger }) => trigger?.changes)).toEqual([
+      counter('a', 3),
+      counter('a', 2),
+    ]);
+    subscription.unsubscribe();
+  });
+
+  it('forgets a query once it stops after its last subscriber leaves', async () => {
+    const { client, inspector } = await createInspectedClient({
+      queryCache: { keepAlive: 50 },
+    });
+    const emitted: number[] = [];
+
+    inspector.queries$.subscribe((queries) => emitted.push(queries.length));
+
+    const subscription = client.observeQuery(statement).subscribe();
+
+    await vi.waitFor(() =>
+      expect(inspector.getQueries()).toMatchObject([{ runCount: 1 }])
+    );
+
+    subscription.unsubscribe();
+
+    // kept alive without subscribers for a while
+    expect(inspector.getQueries()).toMatchObject([{ subscriberCount: 0 }]);
+
+    await vi.waitFor(() => expect(inspector.getQueries()).toEqual([]));
+    expect(emitted.at(-1)).toBe(0);
+  });
+});
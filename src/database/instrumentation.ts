@@ -0,0 +1,173 @@
+import { BehaviorSubject } from 'rxjs';
+import { DatabaseChange } from './connection';
+
+/** A live query which started being observed. */
+export type LiveQueryStart = {
+  /** Identifies the query in the other events. */
+  id: string;
+  sql: string;
+  values: unknown[];
+};
+
+export type LiveQueryRun = {
+  id: string;
+  /** The change which caused the query to re-run. `null` for the first run. */
+  trigger: DatabaseChange | null;
+  /** The tables the query reads. */
+  tableNames: string[];
+  /** When the run started, in milliseconds since the epoch. */
+  startedAt: number;
+  /** How long the run took in milliseconds. */
+  duration: number;
+  rowCount?: number;
+  error?: unknown;
+};
+
+/**
+ * Receives what `SQLiteClient` is doing, for logging and debugging. Pass
+ * one to `SQLiteClient.init({ instrumentation })`. Every method is
+ * optional.
+ */
+export interface Instrumentation {
+  /** Called with every change to the database, local or from another tab. */
+  onChange?(change: DatabaseChange): void;
+  onQueryStart?(query: LiveQueryStart): void;
+  /**
+   * Called when the number of subscribers to a live query changes. A query
+   * with no subscribers may be kept alive for a while (see `QueryCache`).
+   */
+  onQuerySubscribers?(id: string, count: number): void;
+  onQueryRun?(run: LiveQueryRun): void;
+  /** The live query stopped and won't run again. */
+  onQueryStop?(id: string): void;
+}
+
+/**
+ * Logs to the console. Changes are logged by default and query runs when
+ * `options.queries` is `true`.
+ */
+export function createConsoleInstrumentation(
+  options: { changes?: boolean; queries?: boolean } = {}
+): Instrumentation {
+  const { changes = true, queries = false } = options;
+
+  return {
+    onChange: changes
+      ? (change) => console.log('Database changes:', change)
+      : undefined,
+    onQueryRun: queries
+      ? (run) =>
+          console.log(
+            `Query ${run.id} ran in ${run.duration.toFixed(1)}ms`,
+            run
+          )
+      : undefined,
+  };
+}
+
+/** Forwards every event to each of the given instrumentations. */
+export function combineInstrumentation(
+  ...instrumentations: Instrumentation[]
+): Instrumentation {
+  return {
+    onChange: (change) => {
+      for (const i of instrumentations) i.onChange?.(change);
+    },
+    onQueryStart: (query) => {
+      for (const i of instrumentations) i.onQueryStart?.(query);
+    },
+    onQuerySubscribers: (id, count) => {
+      for (const i of instrumentations) i.onQuerySubscribers?.(id, count);
+    },
+    onQueryRun: (run) => {
+      for (const i of instrumentations) i.onQueryRun?.(run);
+    },
+    onQueryStop: (id) => {
+      for (const i of instrumentations) i.onQueryStop?.(id);
+    },
+  };
+}
+
+export type LiveQueryStats = LiveQueryStart & {
+  tableNames: string[];
+  subscriberCount: number;
+  runCount: number;
+  lastRun: LiveQueryRun | null;
+  /** The most recent runs, newest first. */
+  recentRuns: LiveQueryRun[];
+};
+
+/**
+ * Keeps track of every live query for a dev tools panel: the tables it
+ * reads, how many subscribers it has, how often it has run and which
+ * change caused each run.
+ *
+ *     const inspector = new LiveQueryInspector();
+ *     const client = await SQLiteClient.init({ instrumentation: inspector });
+ *     inspector.queries$.subscribe((queries) => render(queries));
+ */
+export class LiveQueryInspector implements Instrumentation {
+  private queries = new Map<string, LiveQueryStats>();
+
+  private subject = new BehaviorSubject<LiveQueryStats[]>([]);
+
+  /** Every active live query, updated whenever one starts, stops or runs. */
+  readonly queries$ = this.subject.asObservable();
+
+  /**
+   * @param options.recentRuns how many runs to keep for each query.
+   *   Defaults to 10.
+   */
+  constructor(private options: { recentRuns?: number } = {}) {}
+
+  getQueries() {
+    return this.subject.getValue();
+  }
+
+  onQueryStart(query: LiveQueryStart) {
+    this.queries.set(query.id, {
+      ...query,
+      tableNames: [],
+      subscriberCount: 0,
+      runCount: 0,
+      lastRun: null,
+      recentRuns: [],
+    });
+
+    this.emit();
+  }
+
+  onQuerySubscribers(id: string, count: number) {
+    this.update(id, () => ({ subscriberCount: count }));
+  }
+
+  onQueryRun(run: LiveQueryRun) {
+    this.update(run.id, (stats) => ({
+      tableNames: run.tableNames,
+      runCount: stats.runCount + 1,
+      lastRun: run,
+      recentRuns: [run, ...stats.recentRuns].slice(
+        0,
+        this.options.recentRuns ?? 10
+      ),
+    }));
+  }
+
+  onQueryStop(id: string) {
+    if (this.queries.delete(id)) this.emit();
+  }
+
+  private update(
+    id: string,
+    fn: (stats: LiveQueryStats) => Partial<LiveQueryStats>
+  ) {
+    const stats = this.queries.get(id);
+    if (!stats) return;
+    this.queries.set(id, { ...stats, ...fn(stats) });
+    this.emit();
+  }
+
+  private emit() {
+    this.subject.next(Array.from(this.queries.values()));
+  }
+}
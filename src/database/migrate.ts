@@ -0,0 +1,131 @@
+import { Database } from '@sqlite.org/sqlite-wasm';
+
+export interface Migration {
+  /**
+   * Migrations are applied in order of their version. Versions must start at
+   * 1 and be consecutive. The database's `PRAGMA user_version` records the
+   * version of the last migration applied to it.
+   */
+  version: number;
+  name: string;
+  /** Either SQL to execute or a function which receives the database. */
+  up: string | ((db: Database) => void);
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public migration?: Migration,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Applies every migration newer than the database's `user_version`. All
+ * pending migrations run inside a single transaction so if any migration
+ * throws, the database is rolled back to the version it started at and a
+ * `MigrationError` is thrown.
+ *
+ * @param options.to only apply migrations up to and including this version.
+ *   This is handy for testing a migration against a database built by the
+ *   migrations that came before it.
+ * @param options.onMigration called before each pending migration runs with
+ *   how many have been applied so far and how many are pending.
+ * @returns the database version before and after migrating.
+ */
+export function migrate(
+  db: Database,
+  migrations: Migration[],
+  options: {
+    to?: number;
+    onMigration?: (migration: Migration, done: number, total: number) => void;
+  } = {}
+) {
+  validateMigrations(migrations);
+
+  const latestVersion = migrations.length;
+  const targetVersion = options.to ?? latestVersion;
+  const currentVersion = getUserVersion(db);
+
+  if (targetVersion > latestVersion) {
+    throw new MigrationError(
+      `Cannot migrate to version ${targetVersion}. ` +
+        `The latest migration is version ${latestVersion}.`
+    );
+  }
+
+  if (currentVersion > latestVersion) {
+    throw new MigrationError(
+      `The database is at version ${currentVersion} which is newer than ` +
+        `the latest known migration (version ${latestVersion}).`
+    );
+  }
+
+  const pending = migrations.filter(
+    (m) => m.version > currentVersion && m.version <= targetVersion
+  );
+
+  if (pending.length === 0) {
+    return { from: currentVersion, to: currentVersion };
+  }
+
+  db.transaction((db) => {
+    for (const [index, migration] of pending.entries()) {
+      options.onMigration?.(migration, index, pending.length);
+
+      try {
+        if (typeof migration.up === 'string') {
+          db.exec(migration.up);
+        } else {
+          migration.up(db);
+        }
+
+        db.exec(`PRAGMA user_version = ${migration.version}`);
+      } catch (e) {
+        throw new MigrationError(
+          `Migration ${migration.version} ("${migration.name}") failed: ` +
+            (e instanceof Error ? e.message : String(e)),
+          migration,
+          e
+        );
+      }
+    }
+  });
+
+  return { from: currentVersion, to: targetVersion };
+}
+
+export function getUserVersion(db: Database) {
+  return db.selectValue('PRAGMA user_version') as number;
+}
+
+/**
+ * @returns the SQL of every table, index, view and trigger in the database
+ *   sorted by name. Useful for comparing the schema a set of migrations
+ *   produces against a snapshot of the expected schema.
+ */
+export function dumpSchema(db: Database) {
+  return db.selectValues(
+    `
+      SELECT sql FROM main.sqlite_master
+      WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+      ORDER BY type, name
+    `
+  ) as string[];
+}
+
+function validateMigrations(migrations: Migration[]) {
+  migrations.forEach((migration, index) => {
+    if (migration.version === index + 1) return;
+
+    throw new MigrationError(
+      `Expected migration "${migration.name}" to have version ${index + 1} ` +
+        `but it has version ${migration.version}. Migration versions must ` +
+        `start at 1 and be consecutive.`,
+      migration
+    );
+  });
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '@sqlite.org/sqlite-wasm';
+import { openMemoryDatabase } from '../test/sqlite';
+import { MigrationError, dumpSchema, getUserVersion, migrate } from './migrate';
+import { migrations } from './migrations';
+import { assertSchemaMatches } from './defineSchema';
+import { searchIndexes, tables } from './schema';
+
+let db: Database;
+
+beforeEach(async () => {
+  db = await openMemoryDatabase();
+});
+
+afterEach(() => {
+  db.close();
+});
+
+function seedVersion1(db: Database) {
+  db.exec(`
+    INSERT INTO counter (id, value) VALUES ('counter', 3);
+    INSERT INTO thread (id, subject) VALUES ('t1', 'Release planning');
+    INSERT INTO message (id, thread_id, content) VALUES
+      ('m1', 't1', 'Ship the search feature'),
+      ('m2', 't1', 'Search needs an index');
+  `);
+}
+
+function readRecords(db: Database) {
+  return Object.fromEntries(
+    Object.keys(tables).map((table) => [
+      table,
+      db.selectObjects(`SELECT * FROM ${table} ORDER BY id`),
+    ])
+  );
+}
+
+describe('migrations', () => {
+  it('v0 → v1 builds the tables', () => {
+    expect(migrate(db, migrations, { to: 1 })).toEqual({ from: 0, to: 1 });
+    expect(getUserVersion(db)).toBe(1);
+    expect(dumpSchema(db)).toMatchSnapshot();
+  });
+
+  it('v1 → v2 adds the search indexes', () => {
+    migrate(db, migrations, { to: 1 });
+
+    expect(migrate(db, migrations, { to: 2 })).toEqual({ from: 1, to: 2 });
+    expect(dumpSchema(db)).toMatchSnapshot();
+  });
+
+  it('v1 → v2 keeps the data and indexes what was already there', () => {
+    migrate(db, migrations, { to: 1 });
+    seedVersion1(db);
+    const before = readRecords(db);
+
+    migrate(db, migrations, { to: 2 });
+
+    expect(readRecords(db)).toEqual(before);
+    expect(readRecords(db)).toMatchSnapshot();
+    expect(
+      db.selectValues(
+        `SELECT rowid FROM message_fts WHERE message_fts MATCH 'search' ORDER BY rowid`
+      )
+    ).toHaveLength(2);
+    expect(
+      db.selectValues(
+        `SELECT rowid FROM thread_fts WHERE thread_fts MATCH 'planning'`
+      )
+    ).toHaveLength(1);
+  });
+
+  it('migrating in one go matches migrating one version at a time', async () => {
+    migrate(db, migrations, { to: 1 });
+    migrate(db, migrations, { to: 2 });
+
+    const other = await openMemoryDatabase();
+
+    try {
+      migrate(other, migrations);
+      expect(dumpSchema(other)).toEqual(dumpSchema(db));
+    } finally {
+      other.close();
+    }
+  });
+
+  it('builds the schema in ./schema', () => {
+    migrate(db, migrations);
+    expect(() => assertSchemaMatches(db, tables, searchIndexes)).not.toThrow();
+  });
+
+  it('rolls back every pending migration if one fails', () => {
+    expect(() =>
+      migrate(db, [
+        ...migrations,
+        { version: migrations.length + 1, name: 'broken', up: 'NOT SQL' },
+      ])
+    ).toThrow(MigrationError);
+
+    expect(getUserVersion(db)).toBe(0);
+    expect(dumpSchema(db)).toEqual([]);
+  });
+});
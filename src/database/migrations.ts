@@ -0,0 +1,85 @@
+import { Migration } from './migrate';
+
+/**
+ * The migrations which build our database schema, oldest first. Once a
+ * migration has shipped it must never change, so migrations are written as
+ * plain SQL rather than derived from the table definitions in `./schema`.
+ * `SQLiteClient.init()` checks that the migrated database matches those
+ * definitions.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create counter, thread and message tables',
+    up: `
+      CREATE TABLE counter (
+        id TEXT PRIMARY KEY NOT NULL,
+        value INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE thread (
+        id TEXT PRIMARY KEY NOT NULL,
+        subject TEXT NOT NULL
+      );
+
+      CREATE TABLE message (
+        id TEXT PRIMARY KEY NOT NULL,
+        thread_id TEXT NOT NULL,
+        content TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'create message and thread search indexes',
+    up: `
+      CREATE VIRTUAL TABLE message_fts USING fts5(
+        content,
+        content='message'
+      );
+
+      CREATE TRIGGER message_fts_after_insert AFTER INSERT ON message BEGIN
+        INSERT INTO message_fts (rowid, content)
+        VALUES (NEW.rowid, NEW.content);
+      END;
+
+      CREATE TRIGGER message_fts_after_update AFTER UPDATE ON message BEGIN
+        INSERT INTO message_fts (message_fts, rowid, content)
+        VALUES ('delete', OLD.rowid, OLD.content);
+        INSERT INTO message_fts (rowid, content)
+        VALUES (NEW.rowid, NEW.content);
+      END;
+
+      CREATE TRIGGER message_fts_after_delete AFTER DELETE ON message BEGIN
+        INSERT INTO message_fts (message_fts, rowid, content)
+        VALUES ('delete', OLD.rowid, OLD.content);
+      END;
+
+      INSERT INTO message_fts (message_fts) VALUES ('rebuild');
+
+      CREATE VIRTUAL TABLE thread_fts USING fts5(
+        subject,
+        content='thread'
+      );
+
+      CREATE TRIGGER thread_fts_after_insert AFTER INSERT ON thread BEGIN
+        INSERT INTO thread_fts (rowid, subject)
+        VALUES (NEW.rowid, NEW.subject);
+      END;
+
+      CREATE TRIGGER thread_fts_after_update AFTER UPDATE ON thread BEGIN
+        INSERT INTO thread_fts (thread_fts, rowid, subject)
+        VALUES ('delete', OLD.rowid, OLD.subject);
+        INSERT INTO thread_fts (rowid, subject)
+        VALUES (NEW.rowid, NEW.subject);
+      END;
+
+      CREATE TRIGGER thread_fts_after_delete AFTER DELETE ON thread BEGIN
+        INSERT INTO thread_fts (thread_fts, rowid, subject)
+        VALUES ('delete', OLD.rowid, OLD.subject);
+      END;
+
+      INSERT INTO thread_fts (thread_fts) VALUES ('rebuild');
+    `,
+  },
+];
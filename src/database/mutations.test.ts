@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { MutationRejectedError, createFakeMutationServer } from './mutations';
+import { SQLiteClient } from './SqliteDatabase';
+import { RecordMap } from './schema';
+import { closeClient, createClient } from '../test/client';
+
+const connect = (server: ReturnType<typeof createFakeMutationServer>) =>
+  createClient({
+    mutationTransport: server.transport,
+    mutationQueue: { retryDelay: 5 },
+  });
+
+const counter = (value: number) =>
+  ({ counter: { counter: { id: 'counter', value } } }) as RecordMap;
+
+async function readCounter(client: SQLiteClient) {
+  const { resultRows } = await client.exec({ sql: 'SELECT * FROM counter' });
+  return resultRows[0]?.value ?? null;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('MutationQueue', () => {
+  it('keeps mutations the server confirms', async () => {
+    const server = createFakeMutationServer();
+    const client = await connect(server);
+
+    await client.mutate(counter(1));
+
+    expect(await readCounter(client)).toBe(1);
+    expect(server.records).toEqual(counter(1));
+    expect(client.getPendingMutations()).toEqual([]);
+  });
+
+  it('rolls back mutations the server rejects', async () => {
+    const server = createFakeMutationServer({
+      records: counter(1),
+      reject: () => 'not allowed',
+    });
+    const client = await connect(server);
+
+    await client.writeRecordMap(counter(1));
+
+    await expect(client.mutate(counter(2))).rejects.toBeInstanceOf(
+      MutationRejectedError
+    );
+    expect(await readCounter(client)).toBe(1);
+  });
+
+  it('sends mutations again until the server can be reached', async () => {
+    const server = createFakeMutationServer();
+    const client = await connect(server);
+
+    server.setOffline(true);
+
+    const mutated = client.mutate(counter(1));
+    await wait(30);
+
+    // neither rolled back nor forgotten
+    expect(await readCounter(client)).toBe(1);
+    expect(client.getPendingMutations()).toHaveLength(1);
+    expect(server.received).toEqual([]);
+
+    server.setOffline(false);
+    await mutated;
+
+    expect(server.records).toEqual(counter(1));
+    expect(server.received).toHaveLength(1);
+    expect(client.getPendingMutations()).toEqual([]);
+  });
+
+  it('keeps sending later mutations in order after a failure', async () => {
+    const server = createFakeMutationServer();
+    const client = await connect(server);
+
+    server.setOffline(true);
+
+    const first = client.mutate(counter(1));
+    const second = client.mutate(counter(2));
+    await wait(20);
+    server.setOffline(false);
+
+    await Promise.all([first, second]);
+
+    expect(
+      server.received.map(({ recordMap }) => recordMap.counter?.counter?.value)
+    ).toEqual([1, 2]);
+    expect(await readCounter(client)).toBe(2);
+  });
+
+  it("leaves mutations which weren't sent applied when closed", async () => {
+    const server = createFakeMutationServer();
+    const client = await connect(server);
+
+    server.setOffline(true);
+
+    const mutated = client.mutate(counter(1));
+    await wait(10);
+
+    expect(await readCounter(client)).toBe(1);
+
+    await closeClient(client);
+
+    await expect(mutated).rejects.toThrow(/queue was closed/);
+    expect(server.received).toEqual([]);
+  });
+});
@@ -0,0 +1,353 @@
+import { RecordMap, RecordTable, RecordValue } from './schema';
+import { DatabaseConnection } from './connection';
+import { SQLiteTransaction, runTransaction } from './transaction';
+import { quoteIdentifier } from './changeCapture';
+
+type AnyRecord = RecordValue<RecordTable>;
+
+export type Mutation = {
+  id: string;
+  /** Upserts, with `null` tombstones for deletes. */
+  recordMap: RecordMap;
+};
+
+/**
+ * `records` are the server's authoritative version of any records it wants
+ * to correct, e.g. because it generated some of their fields. A record
+ * which doesn't exist on the server is `null`. Mutated records which aren't
+ * included are assumed to be as the mutation wrote them when it is
+ * confirmed and as they were before the mutation when it is rejected.
+ */
+export type MutationResult =
+  | { status: 'confirmed'; records?: RecordMap }
+  | { status: 'rejected'; reason: string; records?: RecordMap };
+
+/**
+ * Sends mutations to the server. Mutations are sent one at a time in the
+ * order they were made. If `send()` rejects (e.g. the network is down) the
+ * mutation stays pending and is sent again after a delay (see
+ * `MutationQueueOptions`), so `send()` may receive the same mutation more
+ * than once. Only a `rejected` result rolls it back.
+ */
+export interface MutationTransport {
+  send(mutation: Mutation): Promise<MutationResult>;
+}
+
+export type MutationQueueOptions = {
+  /**
+   * Milliseconds before sending a mutation again after `send()` rejected,
+   * or a function of the attempt number (starting at 1). Defaults to
+   * doubling from 1s up to 30s.
+   */
+  retryDelay?: number | ((attempt: number) => number);
+};
+
+export class MutationRejectedError extends Error {
+  constructor(
+    public mutation: Mutation,
+    public reason: string
+  ) {
+    super(`The server rejected mutation ${mutation.id}: ${reason}`);
+    this.name = 'MutationRejectedError';
+  }
+}
+
+/**
+ * Applies mutations to the local database optimistically and reconciles
+ * them with the server.
+ *
+ * For every record touched by a pending mutation we remember the last
+ * version the server has confirmed. When a mutation is rejected, or the
+ * server corrects a record, the record is reset to the confirmed version
+ * and the mutations which are still pending are re-applied on top of it.
+ * Records touched by mutations shouldn't be written to by other means while
+ * mutations are pending.
+ */
+export class MutationQueue {
+  private pending: Mutation[] = [];
+
+  /** table -> id -> the server's version of the record */
+  private confirmed = new Map<string, Map<string, AnyRecord | null>>();
+
+  private sending: Promise<unknown> = Promise.resolve();
+
+  private retryDelay: (attempt: number) => number;
+
+  /** Ends the wait before sending a mutation again. */
+  private cancelRetry: (() => void) | undefined;
+
+  private closed = false;
+
+  constructor(
+    private connection: DatabaseConnection,
+    private transport: MutationTransport,
+    options: MutationQueueOptions = {}
+  ) {
+    const {
+      retryDelay = (attempt) => Math.min(1000 * 2 ** (attempt - 1), 30_000),
+    } = options;
+
+    this.retryDelay =
+      typeof retryDelay === 'number' ? () => retryDelay : retryDelay;
+  }
+
+  /**
+   * Writes `recordMap` to the local database and queues it for the server.
+   * Resolves once the server confirms the mutation and rejects with a
+   * `MutationRejectedError` once a rejected mutation has been rolled back.
+   * Until the server responds, the mutation is sent again whenever sending
+   * it fails.
+   */
+  async mutate(recordMap: RecordMap) {
+    const mutation: Mutation = {
+      id: crypto.randomUUID(),
+      recordMap: structuredClone(recordMap),
+    };
+
+    // Added to `pending` right away so that a mutation which is reconciled
+    // while this one is being applied re-applies this one on top.
+    this.pending.push(mutation);
+
+    const applied = runTransaction(this.connection, async (tx) => {
+      for (const [table, id] of recordKeys(mutation.recordMap)) {
+        if (this.confirmed.get(table)?.has(id)) continue;
+        this.setConfirmed(table, id, await readRecord(tx, table, id));
+      }
+
+      await tx.writeRecordMap(mutation.recordMap);
+    });
+
+    const sent = this.sending
+      .then(() => applied)
+      .then(() => this.send(mutation));
+
+    this.sending = sent.catch(() => {});
+
+    try {
+      await applied;
+    } catch (e) {
+      this.remove(mutation);
+      throw e;
+    }
+
+    await sent;
+  }
+
+  /** Mutations which the server hasn't confirmed or rejected yet. */
+  getPendingMutations(): readonly Mutation[] {
+    return this.pending;
+  }
+
+  /**
+   * Stops sending mutations. Those which haven't been sent stay applied
+   * locally and `mutate()` rejects for them.
+   */
+  close() {
+    this.closed = true;
+    this.cancelRetry?.();
+  }
+
+  private async send(mutation: Mutation) {
+    const result = await this.sendUntilAnswered(mutation);
+
+    this.pending = this.pending.filter((m) => m !== mutation);
+
+    const resetKeys = recordKeys(result.records ?? {});
+
+    if (result.status === 'confirmed') {
+      for (const [table, id, record] of recordKeys(mutation.recordMap)) {
+        this.setConfirmed(table, id, record);
+      }
+    } else {
+      resetKeys.push(...recordKeys(mutation.recordMap));
+    }
+
+    for (const [table, id, record] of recordKeys(result.records ?? {})) {
+      this.setConfirmed(table, id, record);
+    }
+
+    try {
+      if (resetKeys.length > 0) await this.rebase(resetKeys);
+    } finally {
+      this.forgetUnusedRecords();
+    }
+
+    if (result.status === 'rejected') {
+      throw new MutationRejectedError(mutation, result.reason);
+    }
+  }
+
+  /** Sends `mutation` again after each failure until the server answers. */
+  private async sendUntilAnswered(mutation: Mutation) {
+    for (let attempt = 1; ; attempt++) {
+      if (this.closed) {
+        throw new Error(
+          `Mutation ${mutation.id} wasn't sent because the queue was closed.`
+        );
+      }
+
+      try {
+        return await this.transport.send(structuredClone(mutation));
+      } catch {
+        // e.g. the network is down. The server may not have received it.
+      }
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.retryDelay(attempt));
+
+        this.cancelRetry = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+
+      this.cancelRetry = undefined;
+    }
+  }
+
+  /**
+   * Rewrites the given records as their confirmed version with the pending
+   * mutations applied on top.
+   */
+  private async rebase(keys: [string, string, unknown][]) {
+    const recordMap: { [table: string]: { [id: string]: unknown } } = {};
+
+    for (const [table, id] of keys) {
+      let record = this.confirmed.get(table)?.get(id) ?? null;
+
+      for (const mutation of this.pending) {
+        const rows = mutation.recordMap[table as RecordTable];
+        if (rows && id in rows) record = rows[id] ?? null;
+      }
+
+      recordMap[table] ||= {};
+      recordMap[table][id] = record;
+    }
+
+    await this.connection.writeRecordMap(recordMap as RecordMap);
+  }
+
+  private remove(mutation: Mutation) {
+    this.pending = this.pending.filter((m) => m !== mutation);
+    this.forgetUnusedRecords();
+  }
+
+  private setConfirmed(table: string, id: string, record: AnyRecord | null) {
+    let records = this.confirmed.get(table);
+
+    if (!records) {
+      records = new Map();
+      this.confirmed.set(table, records);
+    }
+
+    records.set(id, record);
+  }
+
+  private forgetUnusedRecords() {
+    for (const [table, records] of this.confirmed) {
+      for (const id of records.keys()) {
+        const isPending = this.pending.some(
+          (mutation) => id in (mutation.recordMap[table as RecordTable] ?? {})
+        );
+
+        if (!isPending) records.delete(id);
+      }
+
+      if (records.size === 0) this.confirmed.delete(table);
+    }
+  }
+}
+
+/**
+ * A stand-in for a real server which keeps its records in memory, for use
+ * in tests and demos.
+ *
+ * @param options.reject return a reason to reject the mutation.
+ * @param options.latency milliseconds to wait before responding.
+ */
+export function createFakeMutationServer(
+  options: {
+    records?: RecordMap;
+    reject?: (mutation: Mutation, records: RecordMap) => string | undefined;
+    latency?: number;
+  } = {}
+) {
+  const records: { [table: string]: { [id: string]: unknown } } =
+    structuredClone(options.records ?? {});
+
+  const received: Mutation[] = [];
+
+  let offline = false;
+
+  const transport: MutationTransport = {
+    send: async (mutation) => {
+      await new Promise((resolve) => setTimeout(resolve, options.latency));
+
+      if (offline) throw new TypeError('Failed to fetch');
+
+      received.push(mutation);
+
+      const reason = options.reject?.(mutation, records as RecordMap);
+
+      if (reason) {
+        const current: { [table: string]: { [id: string]: unknown } } = {};
+
+        for (const [table, id] of recordKeys(mutation.recordMap)) {
+          current[table] ||= {};
+          current[table][id] = structuredClone(records[table]?.[id] ?? null);
+        }
+
+        return {
+          status: 'rejected',
+          reason,
+          records: current as RecordMap,
+        };
+      }
+
+      for (const [table, id, record] of recordKeys(mutation.recordMap)) {
+        records[table] ||= {};
+
+        if (record) {
+          records[table][id] = structuredClone(record);
+        } else {
+          delete records[table][id];
+        }
+      }
+
+      return { status: 'confirmed' };
+    },
+  };
+
+  return {
+    transport,
+    /** The server's current records. */
+    records: records as RecordMap,
+    /** Every mutation the server has received, in order. */
+    received,
+    /** While offline, `send()` rejects as `fetch()` does without a network. */
+    setOffline: (value: boolean) => {
+      offline = value;
+    },
+  };
+}
+
+function recordKeys(recordMap: RecordMap) {
+  const keys: [string, string, AnyRecord | null][] = [];
+
+  for (const [table, rows] of Object.entries(recordMap)) {
+    for (const [id, record] of Object.entries(rows ?? {})) {
+      keys.push([table, id, (record as AnyRecord | null) ?? null]);
+    }
+  }
+
+  return keys;
+}
+
+async function readRecord(tx: SQLiteTransaction, table: string, id: string) {
+  const { resultRows } = await tx.exec<AnyRecord>({
+    sql: `SELECT * FROM ${quoteIdentifier(table)} WHERE id = ? LIMIT 1`,
+    bind: [id],
+  });
+
+  return resultRows[0] ?? null;
+}
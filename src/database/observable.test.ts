@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runLiveQuery } from './observable';
+import { DatabaseChange } from './connection';
+
+const change = (table: string): DatabaseChange => ({
+  tableNames: [table],
+  changes: {},
+  rowChanges: [],
+});
+
+/**
+ * A live query whose runs only finish when the test resolves them, with a
+ * function which reports a change as `subscribeToQuery` would.
+ */
+function controlledQuery() {
+  const runs: {
+    trigger: DatabaseChange | null;
+    resolve: (value: number) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  let onChange!: (change: DatabaseChange) => void;
+
+  const args = {
+    runQuery: (trigger: DatabaseChange | null) =>
+      new Promise<number>((resolve, reject) =>
+        runs.push({ trigger, resolve, reject })
+      ),
+    subscribeToQuery: (callback: (change: DatabaseChange) => void) => {
+      onChange = callback;
+      return () => {};
+    },
+  };
+
+  return { args, runs, change: (change: DatabaseChange) => onChange(change) };
+}
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('runLiveQuery', () => {
+  it('runs once more after a run during which changes arrived', async () => {
+    const query = controlledQuery();
+    const results: number[] = [];
+
+    runLiveQuery({
+      ...query.args,
+      onResult: (result) => results.push(result),
+      onError: () => {},
+    });
+
+    expect(query.runs).toHaveLength(1);
+    expect(query.runs[0].trigger).toBeNull();
+
+    query.change(change('a'));
+    query.change(change('b'));
+
+    // runs never overlap
+    expect(query.runs).toHaveLength(1);
+
+    query.runs[0].resolve(1);
+    await flushPromises();
+
+    expect(results).toEqual([1]);
+    expect(query.runs).toHaveLength(2);
+    expect(query.runs[1].trigger?.tableNames).toEqual(['a', 'b']);
+
+    query.runs[1].resolve(2);
+    await flushPromises();
+
+    expect(results).toEqual([1, 2]);
+    expect(query.runs).toHaveLength(2);
+  });
+
+  it('runs right away for a change which arrives between runs', async () => {
+    const query = controlledQuery();
+
+    runLiveQuery({ ...query.args, onResult: () => {}, onError: () => {} });
+
+    query.runs[0].resolve(1);
+    await flushPromises();
+
+    const trigger = change('a');
+    query.change(trigger);
+
+    expect(query.runs).toHaveLength(2);
+    expect(query.runs[1].trigger).toBe(trigger);
+  });
+
+  it('runs again after the next change when a run fails', async () => {
+    const query = controlledQuery();
+    const onError = vi.fn();
+    const results: number[] = [];
+
+    runLiveQuery({
+      ...query.args,
+      onResult: (result) => results.push(result),
+      onError,
+    });
+
+    const error = new Error('failed');
+    query.runs[0].reject(error);
+    await flushPromises();
+
+    expect(onError).toHaveBeenCalledWith(error, true);
+    expect(query.runs).toHaveLength(1);
+
+    query.change(change('a'));
+    query.runs[1].resolve(1);
+    await flushPromises();
+
+    expect(results).toEqual([1]);
+  });
+
+  it("doesn't deliver results after it's stopped", async () => {
+    const query = controlledQuery();
+    const onResult = vi.fn();
+
+    const stop = runLiveQuery({ ...query.args, onResult, onError: () => {} });
+
+    query.change(change('a'));
+    stop();
+    query.runs[0].resolve(1);
+    await flushPromises();
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(query.runs).toHaveLength(1);
+  });
+});
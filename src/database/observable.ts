@@ -0,0 +1,214 @@
+import { Observable, OperatorFunction, map, share } from 'rxjs';
+import { DatabaseChange } from './connection';
+import { LiveQueryRun } from './instrumentation';
+import { mergeChanges } from './scheduler';
+
+/**
+ * What a live query does after it fails. By default it runs again when the
+ * next change which may affect it arrives and isn't retried on a timer.
+ */
+export type RetryPolicy = {
+  /**
+   * Run the query again when a change which may affect it arrives, e.g.
+   * the write which fixes the data it failed on. Defaults to `true`.
+   */
+  onChange?: boolean;
+  /**
+   * How many times in a row the query is re-run on a timer without waiting
+   * for a change. Defaults to 0.
+   */
+  attempts?: number;
+  /**
+   * Milliseconds before each timed retry, or a function of the attempt
+   * number (starting at 1). Defaults to doubling from 100ms up to 10s.
+   */
+  delay?: number | ((attempt: number) => number);
+  /**
+   * Errors for which this returns `false` aren't retried and stop the
+   * query. Defaults to retrying every error.
+   */
+  shouldRetry?: (error: unknown) => boolean;
+};
+
+/**
+ * The outcome of a run of a shared live query. Errors are values so that
+ * the query can fail and then recover without ending for every subscriber.
+ */
+export type LiveQueryOutcome<T> = { value: T } | { error: unknown };
+
+type LiveQueryArgs<T> = {
+  /**
+   * `trigger` is the change which caused the run, or `null` for the first
+   * run.
+   */
+  runQuery: (trigger: DatabaseChange | null) => Promise<T>;
+  subscribeToQuery: (onChanges: (change: DatabaseChange) => void) => () => void;
+  /** Called after every run of the query, e.g. for instrumentation. */
+  onRun?: (
+    run: Omit<LiveQueryRun, 'id' | 'tableNames' | 'rowCount'> & { result?: T }
+  ) => void;
+  /** `false` stops the query when it fails. */
+  retry?: RetryPolicy | false;
+};
+
+/**
+ * Builds an observable which runs `runQuery` when it's subscribed to and
+ * again whenever `subscribeToQuery` reports a change, sharing the outcome
+ * between its subscribers (see `runLiveQuery`). It completes after an error
+ * which won't be retried. Use `unwrapOutcome()` to turn errors back into
+ * errors for a single subscriber.
+ */
+export function observable<T>(args: LiveQueryArgs<T>) {
+  return new Observable<LiveQueryOutcome<T>>((subscriber) =>
+    runLiveQuery({
+      ...args,
+      onResult: (value) => subscriber.next({ value }),
+      onError: (error, willRetry) => {
+        subscriber.next({ error });
+        if (!willRetry) subscriber.complete();
+      },
+    })
+  ).pipe(share({ resetOnRefCountZero: true }));
+}
+
+/**
+ * Emits the value of each outcome and errors on the first failed outcome.
+ * Only the subscription it's used in ends, so the shared query keeps
+ * running and later subscribers receive its next result.
+ */
+export function unwrapOutcome<T>(): OperatorFunction<LiveQueryOutcome<T>, T> {
+  return map((outcome) => {
+    if ('error' in outcome) throw outcome.error;
+    return outcome.value;
+  });
+}
+
+/**
+ * Runs `runQuery` right away and again whenever `subscribeToQuery` reports
+ * a change, passing each result to `onResult`.
+ *
+ * If a change arrived while the query was running and we re-ran the query
+ * right away, the run in progress would be wasted. If changes kept
+ * arriving, the query might never finish. So runs never overlap. Changes
+ * which arrive during a run are collected, and the query runs once more
+ * after the run finishes. That way the last result always reflects the
+ * latest change. The trailing run's trigger is those changes merged.
+ *
+ * When the query fails, `onError` is told whether it will be retried (see
+ * `RetryPolicy`). If it won't, the query stops.
+ *
+ * @returns a function which stops.
+ */
+export function runLiveQuery<T>(
+  args: LiveQueryArgs<T> & {
+    onResult: (result: T) => void;
+    onError: (error: unknown, willRetry: boolean) => void;
+  }
+) {
+  const { runQuery, subscribeToQuery, onRun, onResult, onError } = args;
+
+  const {
+    onChange: retryOnChange = true,
+    attempts = 0,
+    delay = (attempt: number) => Math.min(100 * 2 ** (attempt - 1), 10_000),
+    shouldRetry = () => true,
+  } = args.retry === false ? { onChange: false } : args.retry ?? {};
+
+  let running = false;
+  let stopped = false;
+  let pending: DatabaseChange[] = [];
+  /** The number of runs in a row which have failed. */
+  let failures = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const run = (trigger: DatabaseChange | null) => {
+    const startedAt = Date.now();
+    const start = performance.now();
+
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    running = true;
+
+    runQuery(trigger).then(
+      (result) => {
+        onRun?.({
+          trigger,
+          startedAt,
+          duration: performance.now() - start,
+          result,
+        });
+
+        if (stopped) return;
+
+        running = false;
+        failures = 0;
+        onResult(result);
+        runPending();
+      },
+      (error) => {
+        onRun?.({
+          trigger,
+          startedAt,
+          duration: performance.now() - start,
+          error,
+        });
+
+        if (stopped) return;
+
+        running = false;
+        failures++;
+
+        const retryable = shouldRetry(error);
+        const retryOnTimer = retryable && failures <= attempts;
+
+        if (!retryable || (!retryOnChange && !retryOnTimer)) {
+          stop();
+          onError(error, false);
+          return;
+        }
+
+        onError(error, true);
+
+        if (stopped) return;
+
+        if (retryOnTimer) {
+          const ms = typeof delay === 'number' ? delay : delay(failures);
+
+          retryTimer = setTimeout(() => {
+            const changes = pending;
+            pending = [];
+            run(changes.length > 0 ? mergeChanges(changes) : trigger);
+          }, ms);
+        }
+
+        runPending();
+      }
+    );
+  };
+
+  const runPending = () => {
+    if (stopped || running || pending.length === 0) return;
+
+    // after a failure, a timed retry runs with the changes so far
+    if (failures > 0 && !retryOnChange) return;
+
+    const changes = pending;
+    pending = [];
+    run(mergeChanges(changes));
+  };
+
+  const unsubscribe = subscribeToQuery((change) => {
+    pending.push(change);
+    runPending();
+  });
+
+  const stop = () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    unsubscribe();
+  };
+
+  run(null);
+
+  return stop;
+}
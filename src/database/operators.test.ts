@@ -0,0 +1,190 @@
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { describe, expect, it } from 'vitest';
+import { joinManyToMany, joinOneToMany, switchMapByKey } from './operators';
+
+type Item = { id: string; version?: number };
+
+/**
+ * Inner observables which count how often each key is subscribed to and
+ * which keys are currently subscribed.
+ */
+function trackInners<V>(createValue: (key: string) => V) {
+  const subscribeCounts = new Map<string, number>();
+  const subscribed = new Set<string>();
+  const subjects = new Map<string, BehaviorSubject<V>>();
+
+  const observe = (key: string) =>
+    new Observable<V>((subscriber) => {
+      subscribeCounts.set(key, (subscribeCounts.get(key) ?? 0) + 1);
+      subscribed.add(key);
+
+      const subject = new BehaviorSubject(createValue(key));
+      subjects.set(key, subject);
+      const subscription = subject.subscribe(subscriber);
+
+      return () => {
+        subscribed.delete(key);
+        subscription.unsubscribe();
+      };
+    });
+
+  return { observe, subscribeCounts, subscribed, subjects };
+}
+
+describe('switchMapByKey', () => {
+  it("doesn't re-subscribe an inner observable while its key stays", () => {
+    const source = new Subject<Item[]>();
+    const inners = trackInners((key) => `value of ${key}`);
+    const results: string[][] = [];
+
+    source
+      .pipe(
+        switchMapByKey(
+          (item) => item.id,
+          (item) => inners.observe(item.id)
+        )
+      )
+      .subscribe((result) => results.push(result));
+
+    source.next([{ id: 'a' }, { id: 'b' }]);
+    source.next([
+      { id: 'b', version: 2 },
+      { id: 'a', version: 2 },
+    ]);
+    source.next([{ id: 'a', version: 3 }, { id: 'b' }, { id: 'c' }]);
+
+    expect(inners.subscribeCounts).toEqual(
+      new Map([
+        ['a', 1],
+        ['b', 1],
+        ['c', 1],
+      ])
+    );
+
+    expect(results).toEqual([
+      ['value of a', 'value of b'],
+      ['value of b', 'value of a'],
+      ['value of a', 'value of b', 'value of c'],
+    ]);
+  });
+
+  it('unsubscribes an inner observable when its key leaves', () => {
+    const source = new Subject<Item[]>();
+    const inners = trackInners((key) => key);
+
+    const subscription = source
+      .pipe(
+        switchMapByKey(
+          (item) => item.id,
+          (item) => inners.observe(item.id)
+        )
+      )
+      .subscribe();
+
+    source.next([{ id: 'a' }, { id: 'b' }]);
+    expect(inners.subscribed).toEqual(new Set(['a', 'b']));
+
+    source.next([{ id: 'b' }]);
+    expect(inners.subscribed).toEqual(new Set(['b']));
+
+    // a key which comes back gets a new subscription
+    source.next([{ id: 'a' }, { id: 'b' }]);
+    expect(inners.subscribed).toEqual(new Set(['a', 'b']));
+    expect(inners.subscribeCounts.get('a')).toBe(2);
+    expect(inners.subscribeCounts.get('b')).toBe(1);
+
+    subscription.unsubscribe();
+    expect(inners.subscribed).toEqual(new Set());
+  });
+
+  it('emits when an inner observable emits', () => {
+    const source = new Subject<Item[]>();
+    const inners = trackInners(() => 0);
+    const results: number[][] = [];
+
+    source
+      .pipe(
+        switchMapByKey(
+          (item) => item.id,
+          (item) => inners.observe(item.id)
+        )
+      )
+      .subscribe((result) => results.push(result));
+
+    source.next([{ id: 'a' }, { id: 'b' }]);
+    inners.subjects.get('b')!.next(1);
+
+    expect(results).toEqual([
+      [0, 0],
+      [0, 1],
+    ]);
+    expect(inners.subscribeCounts.get('b')).toBe(1);
+  });
+});
+
+describe('joinOneToMany', () => {
+  it("keeps each parent's children subscribed while the parent stays", () => {
+    const source = new Subject<Item[]>();
+    const inners = trackInners((key) => [{ id: `${key}-child` }]);
+    const results: unknown[] = [];
+
+    source
+      .pipe(
+        joinOneToMany(
+          'children',
+          (parent) => parent.id,
+          (parent) => inners.observe(parent.id)
+        )
+      )
+      .subscribe((result) => results.push(result));
+
+    source.next([{ id: 'a', version: 1 }]);
+    source.next([{ id: 'a', version: 2 }, { id: 'b' }]);
+    source.next([{ id: 'b' }]);
+
+    expect(inners.subscribeCounts.get('a')).toBe(1);
+    expect(inners.subscribed).toEqual(new Set(['b']));
+
+    expect(results).toEqual([
+      [{ id: 'a', version: 1, children: [{ id: 'a-child' }] }],
+      [
+        { id: 'a', version: 2, children: [{ id: 'a-child' }] },
+        { id: 'b', children: [{ id: 'b-child' }] },
+      ],
+      [{ id: 'b', children: [{ id: 'b-child' }] }],
+    ]);
+  });
+});
+
+describe('joinManyToMany', () => {
+  it('keeps related records subscribed while the item stays', () => {
+    const source = new Subject<Item[]>();
+    const inners = trackInners((key) => [{ id: 'shared' }, { id: key }]);
+    const results: Item[][] = [];
+
+    source
+      .pipe(
+        joinManyToMany(
+          (item) => item.id,
+          (item) => inners.observe(item.id)
+        )
+      )
+      .subscribe((result) => results.push(result));
+
+    source.next([{ id: 'a' }, { id: 'b' }]);
+    source.next([{ id: 'a', version: 2 }]);
+
+    expect(inners.subscribeCounts).toEqual(
+      new Map([
+        ['a', 1],
+        ['b', 1],
+      ])
+    );
+    expect(inners.subscribed).toEqual(new Set(['a']));
+
+    expect(results).toEqual([
+      [{ id: 'shared' }, { id: 'a' }, { id: 'b' }],
+      [{ id: 'shared' }, { id: 'a' }],
+    ]);
+  });
+});
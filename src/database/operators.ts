@@ -0,0 +1,190 @@
+import { Observable, OperatorFunction, map } from 'rxjs';
+
+/**
+ * Like `switchMap()` for an observable of arrays, except that each item gets
+ * its own inner observable and those are kept across emissions. When the
+ * source emits, inner observables are only subscribed to for keys which are
+ * new and unsubscribed from for keys which are gone. Items whose key is
+ * still present keep their existing subscription, so a live query which is
+ * re-run because its parent's result changed isn't torn down and set up
+ * again.
+ *
+ * Emits the latest value of each item's inner observable, in the order of
+ * the source's latest array, once every one of them has emitted. Items with
+ * the same key share an inner observable.
+ *
+ * @param project called once per key with the first item seen for it.
+ */
+export function switchMapByKey<T, K, R>(
+  getKey: (item: T) => K,
+  project: (item: T, key: K) => Observable<R>
+): OperatorFunction<T[], R[]> {
+  return fanOutByKey(getKey, project, (_, value) => value);
+}
+
+/**
+ * Attaches each parent's children to it as `as`. The children are observed
+ * with `observeChildren` for as long as the parent's key is in the source.
+ *
+ *     observeThreads().pipe(
+ *       joinOneToMany('messages', (thread) => thread.id, (thread) =>
+ *         observeMessagesInThread(thread.id)
+ *       )
+ *     )
+ */
+export function joinOneToMany<P, C, As extends string, K = unknown>(
+  as: As,
+  getKey: (parent: P) => K,
+  observeChildren: (parent: P) => Observable<C[]>
+): OperatorFunction<P[], (P & { [_ in As]: C[] })[]> {
+  return fanOutByKey(
+    getKey,
+    observeChildren,
+    (parent, children) =>
+      ({ ...parent, [as]: children }) as P & { [_ in As]: C[] }
+  );
+}
+
+/**
+ * Observes the records related to each item in the source with
+ * `observeRelated` and emits all of them, without duplicates. E.g. the
+ * labels of every thread in a channel, where a label can belong to many
+ * threads.
+ *
+ * @param getRelatedKey identifies the related records. Defaults to their
+ *   `id`.
+ */
+export function joinManyToMany<T, R, K = unknown>(
+  getKey: (item: T) => K,
+  observeRelated: (item: T) => Observable<R[]>,
+  getRelatedKey: (record: R) => unknown = (record) =>
+    (record as { id: unknown }).id
+): OperatorFunction<T[], R[]> {
+  return (source) =>
+    source.pipe(
+      switchMapByKey(getKey, observeRelated),
+      map((results) => uniqueBy(results.flat(), getRelatedKey))
+    );
+}
+
+/**
+ * Removes records with the same key from each emitted array, keeping the
+ * first. Defaults to deduping by `id`.
+ */
+export function distinctRecords<T>(
+  getKey: (record: T) => unknown = (record) => (record as { id: unknown }).id
+): OperatorFunction<T[], T[]> {
+  return map((records) => uniqueBy(records, getKey));
+}
+
+export function uniqueBy<T>(items: T[], getKey: (item: T) => unknown) {
+  const seen = new Set<unknown>();
+
+  return items.filter((item) => {
+    const key = getKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function fanOutByKey<T, K, V, R>(
+  getKey: (item: T) => K,
+  project: (item: T, key: K) => Observable<V>,
+  select: (item: T, value: V) => R
+): OperatorFunction<T[], R[]> {
+  return (source) =>
+    new Observable<R[]>((subscriber) => {
+      type Inner = {
+        unsubscribe: () => void;
+        value?: { current: V };
+        complete: boolean;
+      };
+
+      const inners = new Map<K, Inner>();
+      let items: T[] | undefined;
+      let keys: K[] = [];
+      let sourceComplete = false;
+
+      // while the source's emission is being handled inner observables which
+      // emit synchronously shouldn't each cause an emission
+      let updating = false;
+
+      const emit = () => {
+        if (updating || !items) return;
+
+        const results: R[] = [];
+
+        for (let i = 0; i < items.length; i++) {
+          const value = inners.get(keys[i])?.value;
+          if (!value) return;
+          results.push(select(items[i], value.current));
+        }
+
+        subscriber.next(results);
+      };
+
+      const completeIfDone = () => {
+        if (!sourceComplete) return;
+
+        for (const inner of inners.values()) {
+          if (!inner.complete) return;
+        }
+
+        subscriber.complete();
+      };
+
+      const sourceSubscription = source.subscribe({
+        next: (next) => {
+          updating = true;
+          items = next;
+          keys = next.map(getKey);
+
+          const currentKeys = new Set(keys);
+
+          for (const [key, inner] of inners) {
+            if (currentKeys.has(key)) continue;
+            inner.unsubscribe();
+            inners.delete(key);
+          }
+
+          next.forEach((item, index) => {
+            const key = keys[index];
+
+            if (inners.has(key)) return;
+
+            const inner: Inner = { unsubscribe: () => {}, complete: false };
+            inners.set(key, inner);
+
+            const subscription = project(item, key).subscribe({
+              next: (value) => {
+                inner.value = { current: value };
+                emit();
+              },
+              error: (e) => subscriber.error(e),
+              complete: () => {
+                inner.complete = true;
+                completeIfDone();
+              },
+            });
+
+            inner.unsubscribe = () => subscription.unsubscribe();
+          });
+
+          updating = false;
+          emit();
+        },
+        error: (e) => subscriber.error(e),
+        complete: () => {
+          sourceComplete = true;
+          completeIfDone();
+        },
+      });
+
+      return () => {
+        sourceSubscription.unsubscribe();
+        for (const inner of inners.values()) inner.unsubscribe();
+        inners.clear();
+      };
+    });
+}
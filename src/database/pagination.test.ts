@@ -0,0 +1,240 @@
+import { describe, expect, it, vi } from 'vitest';
+import sql from 'sql-template-tag';
+import { LiveWindow, LiveWindowState, compareSqlValues } from './pagination';
+import { RecordMap } from './schema';
+import { migrations } from './migrations';
+import { createClient } from '../test/client';
+
+const counters = (values: { [id: string]: number | null }) =>
+  ({
+    counter: Object.fromEntries(
+      Object.entries(values).map(([id, value]) => [
+        id,
+        value === null ? null : { id, value },
+      ])
+    ),
+  }) as RecordMap;
+
+/** A client with counters `a` to `e` valued 1 to 5. */
+async function createSeededClient(
+  options: Parameters<typeof createClient>[0] = {}
+) {
+  // changes reach the window as soon as they're made
+  const client = await createClient({
+    ...options,
+    scheduler: { visible: 'sync' },
+  });
+  await client.writeRecordMap(counters({ a: 1, b: 2, c: 3, d: 4, e: 5 }));
+  return client;
+}
+
+/** Subscribes to a window and records every state it emits. */
+async function watch<T extends { id: string }>(window: LiveWindow<T>) {
+  const states: LiveWindowState<T>[] = [];
+  const subscription = window.state$.subscribe((state) => states.push(state));
+
+  await vi.waitFor(() => expect(states).toHaveLength(1));
+
+  return {
+    states,
+    latest: () => states.at(-1)!,
+    /** The ids of the rows in the latest state. */
+    ids: () => states.at(-1)!.rows.map((row) => row.id),
+    unsubscribe: () => subscription.unsubscribe(),
+  };
+}
+
+/** Long enough for a change which re-runs the window to emit. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('LiveWindow', () => {
+  it('loads the first page and then a page at a time after it', async () => {
+    const client = await createSeededClient();
+    const window = client.liveWindow({
+      table: 'counter',
+      orderBy: 'value',
+      pageSize: 2,
+    });
+    const { latest, ids, unsubscribe } = await watch(window);
+
+    expect(ids()).toEqual(['a', 'b']);
+    expect(latest()).toMatchObject({ hasMore: true, hasPrevious: false });
+
+    await window.loadMore();
+    await vi.waitFor(() => expect(ids()).toEqual(['a', 'b', 'c', 'd']));
+    expect(latest().hasMore).toBe(true);
+
+    await window.loadMore();
+    await vi.waitFor(() => expect(ids()).toEqual(['a', 'b', 'c', 'd', 'e']));
+    expect(latest().hasMore).toBe(false);
+    unsubscribe();
+  });
+
+  it('starts at startAt and loads pages before it', async () => {
+    const client = await createSeededClient();
+    const window = client.liveWindow({
+      table: 'counter',
+      orderBy: 'value',
+      pageSize: 2,
+      startAt: { value: 3, id: 'c' },
+    });
+    const { latest, ids, unsubscribe } = await watch(window);
+
+    expect(ids()).toEqual(['c', 'd']);
+    expect(latest()).toMatchObject({ hasMore: true, hasPrevious: true });
+
+    await window.loadPrevious();
+    await vi.waitFor(() => expect(ids()).toEqual(['a', 'b', 'c', 'd']));
+    expect(latest().hasPrevious).toBe(false);
+
+    await window.loadMore();
+    await vi.waitFor(() => expect(ids()).toEqual(['a', 'b', 'c', 'd', 'e']));
+    expect(latest()).toMatchObject({ hasMore: false, hasPrevious: false });
+    unsubscribe();
+  });
+
+  it('pages in descending order', async () => {
+    const client = await createSeededClient();
+    const window = client.liveWindow({
+      table: 'counter',
+      orderBy: 'value',
+      direction: 'desc',
+      pageSize: 2,
+      startAt: { value: 4, id: 'd' },
+    });
+    const { latest, ids, unsubscribe } = await watch(window);
+
+    expect(ids()).toEqual(['d', 'c']);
+    expect(latest()).toMatchObject({ hasMore: true, hasPrevious: true });
+
+    await window.loadMore();
+    await vi.waitFor(() => expect(ids()).toEqual(['d', 'c', 'b', 'a']));
+    expect(latest().hasMore).toBe(false);
+
+    await window.loadPrevious();
+    await vi.waitFor(() => expect(ids()).toEqual(['e', 'd', 'c', 'b', 'a']));
+    expect(latest().hasPrevious).toBe(false);
+    unsubscribe();
+  });
+
+  it('only includes records matching where', async () => {
+    const client = await createSeededClient();
+    const { ids, unsubscribe } = await watch(
+      client.liveWindow({
+        table: 'counter',
+        where: sql`counter.value % 2 = ${1}`,
+        pageSize: 10,
+      })
+    );
+
+    expect(ids()).toEqual(['a', 'c', 'e']);
+    unsubscribe();
+  });
+
+  it('re-runs when a row inside the window is inserted, updated or deleted', async () => {
+    const client = await createSeededClient();
+    const { states, ids, unsubscribe } = await watch(
+      client.liveWindow({ table: 'counter', orderBy: 'value', pageSize: 2 })
+    );
+
+    // between `a` and `b`
+    await client.writeRecordMap(counters({ x: 1 }));
+    await vi.waitFor(() => expect(ids()).toEqual(['a', 'x', 'b']));
+
+    await client.writeRecordMap(counters({ x: 0 }));
+    await vi.waitFor(() => expect(ids()).toEqual(['x', 'a', 'b']));
+    expect(states.at(-1)!.rows[0]).toEqual({ id: 'x', value: 0 });
+
+    await client.writeRecordMap(counters({ x: null }));
+    await vi.waitFor(() => expect(ids()).toEqual(['a', 'b']));
+
+    // `e` moves into the window
+    await client.writeRecordMap(counters({ e: 0 }));
+    await vi.waitFor(() => expect(ids()).toEqual(['e', 'a', 'b']));
+
+    // and `a` out of it
+    await client.writeRecordMap(counters({ a: 10 }));
+    await vi.waitFor(() => expect(ids()).toEqual(['e', 'b']));
+    unsubscribe();
+  });
+
+  it("doesn't re-run for writes outside the window", async () => {
+    const client = await createSeededClient();
+    const { states, unsubscribe } = await watch(
+      client.liveWindow({ table: 'counter', orderBy: 'value', pageSize: 2 })
+    );
+
+    await client.writeRecordMap(counters({ d: 40, x: 6 }));
+    await client.writeRecordMap(counters({ e: null }));
+    await client.exec({ sql: `INSERT INTO thread VALUES ('t1', 'Hello')` });
+    await settle();
+
+    expect(states).toHaveLength(1);
+    unsubscribe();
+  });
+
+  it('orders text the way its column collation does', async () => {
+    const client = await createClient({
+      scheduler: { visible: 'sync' },
+      migrations: [
+        {
+          version: 1,
+          name: 'create a thread table ordered case-insensitively',
+          up: `
+            ${migrations[0].up}
+            DROP TABLE thread;
+            CREATE TABLE thread (
+              id TEXT PRIMARY KEY NOT NULL,
+              subject TEXT NOT NULL COLLATE NOCASE
+            );
+          `,
+        },
+      ],
+    });
+    await client.writeRecordMap({
+      thread: {
+        t1: { id: 't1', subject: 'apple' },
+        t2: { id: 't2', subject: 'Banana' },
+        t3: { id: 't3', subject: 'cherry' },
+      },
+    });
+
+    const { ids, unsubscribe } = await watch(
+      client.liveWindow({ table: 'thread', orderBy: 'subject', pageSize: 2 })
+    );
+
+    expect(ids()).toEqual(['t1', 't2']);
+
+    // before "Banana" case-insensitively but after it by code point
+    await client.writeRecordMap({
+      thread: { t4: { id: 't4', subject: 'avocado' } },
+    });
+
+    await vi.waitFor(() => expect(ids()).toEqual(['t1', 't4', 't2']));
+    unsubscribe();
+  });
+});
+
+describe('compareSqlValues', () => {
+  it('orders NULLs, then numbers, then text, then blobs', () => {
+    const values = [
+      new Uint8Array([1]),
+      'b',
+      2n,
+      null,
+      'a',
+      1.5,
+      new Uint8Array([0, 1]),
+    ];
+
+    expect([...values].sort(compareSqlValues)).toEqual([
+      null,
+      1.5,
+      2n,
+      'a',
+      'b',
+      new Uint8Array([0, 1]),
+      new Uint8Array([1]),
+    ]);
+  });
+});
@@ -0,0 +1,467 @@
+import {
+  BehaviorSubject,
+  Observable,
+  defer,
+  filter,
+  from,
+  map,
+  share,
+  switchMap,
+} from 'rxjs';
+import sql, { Sql, empty, join, raw } from 'sql-template-tag';
+import { DatabaseChange } from './connection';
+import { quoteIdentifier } from './changeCapture';
+import { observable, unwrapOutcome } from './observable';
+import { QueryDependencies, changeAffectsQuery } from './queryDependencies';
+import { querySubscriptionKeys } from './subscriptions';
+import { RecordTable, RecordValue } from './schema';
+
+/** Identifies a position in the window's order. */
+export type WindowCursor = { value: unknown; id: string };
+
+export type LiveWindowOptions<T extends RecordTable> = {
+  table: T;
+  /**
+   * Only records matching this `WHERE` fragment are included. E.g.
+   * sql`message.thread_id = ${threadId}`
+   */
+  where?: Sql;
+  /**
+   * The column the window is ordered by. It shouldn't contain `NULL`s. Ties
+   * are broken by `id`. Defaults to `id`.
+   */
+  orderBy?: keyof RecordValue<T> & string;
+  direction?: 'asc' | 'desc';
+  /** How many rows the first page and `loadMore()`/`loadPrevious()` load. */
+  pageSize?: number;
+  /**
+   * The window starts at this position (inclusive) rather than at the first
+   * record.
+   */
+  startAt?: WindowCursor;
+};
+
+export type LiveWindowState<T> = {
+  rows: T[];
+  /** Whether `loadMore()` may load more rows. */
+  hasMore: boolean;
+  /** Whether `loadPrevious()` may load more rows. */
+  hasPrevious: boolean;
+};
+
+/** What `LiveWindow` needs from `SQLiteClient`. */
+export interface LiveWindowSource {
+  exec<T>(statement: Sql): Promise<T[]>;
+  /** See `parseQueryDependencies`. */
+  getQueryDependencies(sql: string): Promise<QueryDependencies>;
+  /** @returns a function which unsubscribes. */
+  subscribe(
+    getKeys: () => Promise<string[]>,
+    onChange: (change: DatabaseChange) => void
+  ): () => void;
+}
+
+/**
+ * The range of the window in its order. `null` means the window extends to
+ * that end of the table, so rows added there join the window.
+ */
+type WindowBounds = {
+  start: WindowCursor | null;
+  end: WindowCursor | null;
+  hasMore: boolean;
+  hasPrevious: boolean;
+};
+
+/**
+ * A live, keyset paginated window onto a table's records. Only the loaded
+ * rows are queried and the window is re-run when a change could affect it:
+ * a row inside the window's range is inserted, updated or deleted, or a row
+ * moves into or out of it. Changes to rows outside the range don't cause a
+ * re-run, unless the table has a column with a collation we can't compare
+ * in JavaScript such as `NOCASE`. `loadMore()` and `loadPrevious()` extend
+ * the range by a page.
+ *
+ * When the window reaches the start or end of the table, rows added beyond
+ * that end are included. `hasMore` and `hasPrevious` may be `true` when
+ * the rows past the window have since been deleted, in which case the next
+ * load finds nothing and sets them to `false`.
+ */
+export class LiveWindow<T extends { id: string }> {
+  /** The rows in the window. Loads the first page when subscribed to. */
+  readonly state$: Observable<LiveWindowState<T>>;
+
+  private table: string;
+
+  private orderBy: string;
+
+  private direction: 'asc' | 'desc';
+
+  private pageSize: number;
+
+  private bounds$ = new BehaviorSubject<WindowBounds | null>(null);
+
+  private initialized: Promise<void> | undefined;
+
+  private loading: Promise<unknown> = Promise.resolve();
+
+  private dependencies: Promise<QueryDependencies>;
+
+  /**
+   * Whether `compareSqlValues` orders the table's rows the way SQLite does,
+   * which it doesn't when a column has a collation other than `BINARY`
+   * (e.g. `NOCASE`). Only the `COLLATE` clauses in the table's SQL are
+   * looked at, erring on the side of `false`, in which case every change to
+   * a row matching `where` re-runs the window.
+   */
+  private hasBinaryOrder: Promise<boolean>;
+
+  /** The ids of the rows in the window's latest result. */
+  private rowIds = new Set<string>();
+
+  constructor(
+    private options: Omit<LiveWindowOptions<RecordTable>, 'orderBy'> & {
+      orderBy?: string;
+    },
+    private source: LiveWindowSource
+  ) {
+    this.table = options.table;
+    this.orderBy = options.orderBy ?? 'id';
+    this.direction = options.direction ?? 'asc';
+    this.pageSize = options.pageSize ?? 50;
+
+    const baseStatement = sql`SELECT * FROM ${raw(
+      quoteIdentifier(this.table)
+    )}${options.where ? sql` WHERE ${options.where}` : empty}`;
+
+    this.dependencies = source.getQueryDependencies(baseStatement.sql);
+
+    // reported by the window's query
+    this.dependencies.catch(() => {});
+
+    this.hasBinaryOrder = source
+      .exec<{ sql: string }>(
+        sql`SELECT sql FROM main.sqlite_schema WHERE type = 'table' AND name = ${this.table}`
+      )
+      .then(
+        ([table]) => !!table && !/\bCOLLATE\s+(?!BINARY\b)/i.test(table.sql),
+        () => false
+      );
+
+    this.state$ = defer(() => from(this.init())).pipe(
+      switchMap(() => this.bounds$),
+      filter((bounds): bounds is WindowBounds => bounds !== null),
+      switchMap((bounds) => this.observeBounds(bounds)),
+      share({ resetOnRefCountZero: true })
+    );
+  }
+
+  /** Extends the window by a page after its end. */
+  loadMore() {
+    return this.enqueue(async () => {
+      await this.init();
+
+      const bounds = this.bounds$.getValue()!;
+
+      if (!bounds.hasMore || !bounds.end) return;
+
+      const page = await this.source.exec<T>(
+        this.pageStatement(this.compare('>', bounds.end), false)
+      );
+
+      const hasMore = page.length > this.pageSize;
+
+      this.bounds$.next({
+        ...bounds,
+        end: hasMore ? this.cursor(page[this.pageSize - 1]) : null,
+        hasMore,
+      });
+    });
+  }
+
+  /** Extends the window by a page before its start. */
+  loadPrevious() {
+    return this.enqueue(async () => {
+      await this.init();
+
+      const bounds = this.bounds$.getValue()!;
+
+      if (!bounds.hasPrevious || !bounds.start) return;
+
+      const page = await this.source.exec<T>(
+        this.pageStatement(this.compare('<', bounds.start), true)
+      );
+
+      const hasPrevious = page.length > this.pageSize;
+
+      this.bounds$.next({
+        ...bounds,
+        start: hasPrevious ? this.cursor(page[this.pageSize - 1]) : null,
+        hasPrevious,
+      });
+    });
+  }
+
+  private init() {
+    this.initialized ??= this.loadFirstPage().catch((e) => {
+      // so that subscribing again tries again
+      this.initialized = undefined;
+      throw e;
+    });
+
+    return this.initialized;
+  }
+
+  private async loadFirstPage() {
+    const { startAt } = this.options;
+
+    const [page, previous] = await Promise.all([
+      this.source.exec<T>(
+        this.pageStatement(startAt ? this.compare('>=', startAt) : null, false)
+      ),
+      startAt
+        ? this.source.exec<T>(
+            this.pageStatement(this.compare('<', startAt), true, 1)
+          )
+        : [],
+    ]);
+
+    const hasMore = page.length > this.pageSize;
+    const hasPrevious = previous.length > 0;
+
+    this.bounds$.next({
+      start: hasPrevious ? startAt! : null,
+      end: hasMore ? this.cursor(page[this.pageSize - 1]) : null,
+      hasMore,
+      hasPrevious,
+    });
+  }
+
+  private observeBounds(bounds: WindowBounds) {
+    const whereValues = this.options.where?.values ?? [];
+
+    let dependencies: QueryDependencies | undefined;
+    let hasBinaryOrder = false;
+
+    return observable({
+      runQuery: async () => {
+        [dependencies, hasBinaryOrder] = await Promise.all([
+          this.dependencies,
+          this.hasBinaryOrder,
+        ]);
+        return this.source.exec<T>(this.windowStatement(bounds));
+      },
+      subscribeToQuery: (onChange) =>
+        this.source.subscribe(
+          () =>
+            this.dependencies.then((dependencies) =>
+              querySubscriptionKeys(dependencies, whereValues)
+            ),
+          (change) => {
+            if (
+              dependencies &&
+              !this.changeAffectsWindow(
+                change,
+                dependencies,
+                bounds,
+                hasBinaryOrder
+              )
+            ) {
+              return;
+            }
+
+            onChange(change);
+          }
+        ),
+      // the error ends `state$`
+      retry: false,
+    }).pipe(
+      unwrapOutcome(),
+      map((rows) => {
+        this.rowIds = new Set(rows.map((row) => row.id));
+
+        return {
+          rows,
+          hasMore: bounds.hasMore,
+          hasPrevious: bounds.hasPrevious,
+        };
+      })
+    );
+  }
+
+  private changeAffectsWindow(
+    change: DatabaseChange,
+    dependencies: QueryDependencies,
+    bounds: WindowBounds,
+    hasBinaryOrder: boolean
+  ) {
+    const whereValues = this.options.where?.values ?? [];
+
+    for (const rowChange of change.rowChanges) {
+      if (!dependencies.tableNames.includes(rowChange.table)) continue;
+
+      // e.g. a table read by a subquery in `where`
+      if (rowChange.table !== this.table) return true;
+
+      if (this.rowIds.has(rowChange.id)) return true;
+
+      const matchesWhere = changeAffectsQuery(
+        { tableNames: [rowChange.table], changes: {}, rowChanges: [rowChange] },
+        dependencies,
+        whereValues
+      );
+
+      if (!matchesWhere) continue;
+
+      // we can't tell where the record belongs
+      if (!hasBinaryOrder) return true;
+
+      for (const record of [rowChange.record, rowChange.previousRecord]) {
+        if (record && this.isInBounds(record, bounds)) return true;
+      }
+    }
+
+    return false;
+  }
+
+  private isInBounds(
+    record: { [column: string]: unknown },
+    bounds: WindowBounds
+  ) {
+    // we can't tell where the record belongs
+    if (!(this.orderBy in record) || !('id' in record)) return true;
+
+    const cursor = { value: record[this.orderBy], id: String(record.id) };
+
+    return (
+      (!bounds.start || this.compareCursors(cursor, bounds.start) >= 0) &&
+      (!bounds.end || this.compareCursors(cursor, bounds.end) <= 0)
+    );
+  }
+
+  /** Compares cursors in the window's order. */
+  private compareCursors(a: WindowCursor, b: WindowCursor) {
+    const result =
+      this.orderBy === 'id'
+        ? compareSqlValues(a.id, b.id)
+        : compareSqlValues(a.value, b.value) || compareSqlValues(a.id, b.id);
+
+    return this.direction === 'asc' ? result : -result;
+  }
+
+  private windowStatement(bounds: WindowBounds) {
+    return this.selectStatement(
+      [
+        bounds.start ? this.compare('>=', bounds.start) : null,
+        bounds.end ? this.compare('<=', bounds.end) : null,
+      ],
+      false
+    );
+  }
+
+  /**
+   * Selects a page (plus one row, to tell whether there are more) in the
+   * window's order or, when `reverse` is `true`, in the opposite order.
+   */
+  private pageStatement(
+    condition: Sql | null,
+    reverse: boolean,
+    limit = this.pageSize + 1
+  ) {
+    const statement = this.selectStatement([condition], reverse);
+    return sql`${statement} LIMIT ${limit}`;
+  }
+
+  private selectStatement(conditions: (Sql | null)[], reverse: boolean) {
+    const where = [
+      this.options.where ? sql`(${this.options.where})` : null,
+      ...conditions,
+    ].filter((condition): condition is Sql => condition !== null);
+
+    const ascending = (this.direction === 'asc') !== reverse;
+    const direction = raw(ascending ? 'ASC' : 'DESC');
+
+    const orderBy =
+      this.orderBy === 'id'
+        ? sql`"id" ${direction}`
+        : sql`${raw(
+            quoteIdentifier(this.orderBy)
+          )} ${direction}, "id" ${direction}`;
+
+    return sql`SELECT * FROM ${raw(quoteIdentifier(this.table))}${
+      where.length > 0 ? sql` WHERE ${join(where, ' AND ')}` : empty
+    } ORDER BY ${orderBy}`;
+  }
+
+  /**
+   * Selects the rows before (`<`), after (`>`) or at `cursor` in the
+   * window's order.
+   */
+  private compare(operator: '<' | '>' | '>=' | '<=', cursor: WindowCursor) {
+    const op = raw(
+      this.direction === 'asc' ? operator : FLIPPED_OPERATORS[operator]
+    );
+
+    return this.orderBy === 'id'
+      ? sql`"id" ${op} ${cursor.id}`
+      : sql`(${raw(quoteIdentifier(this.orderBy))}, "id") ${op} (${
+          cursor.value
+        }, ${cursor.id})`;
+  }
+
+  private cursor(row: T): WindowCursor {
+    return {
+      value: (row as { [column: string]: unknown })[this.orderBy],
+      id: row.id,
+    };
+  }
+
+  private enqueue(fn: () => Promise<void>) {
+    const result = this.loading.then(fn);
+    this.loading = result.catch(() => {});
+    return result;
+  }
+}
+
+const FLIPPED_OPERATORS = {
+  '<': '>',
+  '>': '<',
+  '>=': '<=',
+  '<=': '>=',
+} as const;
+
+/**
+ * Orders values the way SQLite does: `NULL`s, then numbers, then text, then
+ * blobs. Text is compared by UTF-16 code unit rather than SQLite's UTF-8
+ * bytes which only differs for characters outside the BMP. Like SQLite's
+ * `BINARY` collation, it ignores any other collation a column declares.
+ */
+export function compareSqlValues(a: unknown, b: unknown): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+
+  if (rankA !== rankB) return rankA - rankB;
+
+  if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    const bytesA = new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+    const bytesB = new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
+    const length = Math.min(bytesA.length, bytesB.length);
+
+    for (let i = 0; i < length; i++) {
+      if (bytesA[i] !== bytesB[i]) return bytesA[i] - bytesB[i];
+    }
+
+    return bytesA.length - bytesB.length;
+  }
+
+  const x = a as number | bigint | string;
+  const y = b as number | bigint | string;
+
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function typeRank(value: unknown) {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number' || typeof value === 'bigint') return 1;
+  if (typeof value === 'string') return 2;
+  return 3;
+}
@@ -0,0 +1,166 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Database, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+import {
+  QueryTableNamesError,
+  containsStatement,
+  normalizeParameters,
+  parseTableNames,
+} from './parseTableNames';
+import { SqlParseError } from './errors';
+import { loadSqlite, openMemoryDatabase } from '../test/sqlite';
+
+let db: Database;
+let capi: Sqlite3Static['capi'];
+
+beforeAll(async () => {
+  capi = (await loadSqlite()).capi;
+  db = await openMemoryDatabase();
+
+  db.exec(`
+    CREATE TABLE item (id TEXT PRIMARY KEY, tag_id TEXT, title TEXT);
+    CREATE TABLE tag (id TEXT PRIMARY KEY, name TEXT);
+    CREATE TABLE "odd ""name""" (id TEXT PRIMARY KEY);
+    CREATE VIEW tagged_item AS
+      SELECT item.*, tag.name FROM item JOIN tag ON tag.id = item.tag_id;
+    CREATE VIRTUAL TABLE item_fts USING fts5(title, content='item');
+    CREATE VIRTUAL TABLE note_fts USING fts5(body);
+    CREATE TEMP TABLE draft (id TEXT PRIMARY KEY);
+  `);
+
+  return () => db.close();
+});
+
+const tableNames = (sql: string) => parseTableNames(db, capi, sql).sort();
+
+describe('parseTableNames', () => {
+  it('finds the tables a query reads', () => {
+    expect(tableNames('SELECT * FROM item')).toEqual(['item']);
+    expect(
+      tableNames(
+        'SELECT * FROM item WHERE tag_id IN (SELECT id FROM tag WHERE name = ?)'
+      )
+    ).toEqual(['item', 'tag']);
+    expect(tableNames('SELECT * FROM "odd ""name"""')).toEqual(['odd "name"']);
+    expect(tableNames('SELECT 1')).toEqual([]);
+  });
+
+  it('resolves views to the tables behind them', () => {
+    expect(tableNames('SELECT * FROM tagged_item')).toEqual(['item', 'tag']);
+  });
+
+  it('resolves CTEs to the tables they read', () => {
+    expect(
+      tableNames(`
+        WITH named AS (SELECT id FROM tag WHERE name IS NOT NULL)
+        SELECT * FROM named
+      `)
+    ).toEqual(['tag']);
+
+    // a CTE named like a table shadows it
+    expect(
+      tableNames('WITH item AS (SELECT * FROM tag) SELECT * FROM item')
+    ).toEqual(['tag']);
+  });
+
+  it('understands schema-qualified names and temp tables', () => {
+    expect(tableNames('SELECT * FROM main.item')).toEqual(['item']);
+    expect(tableNames('SELECT * FROM temp.draft')).toEqual(['draft']);
+    expect(tableNames('SELECT * FROM draft JOIN main.tag')).toEqual([
+      'draft',
+      'tag',
+    ]);
+  });
+
+  it('maps an external content FTS5 table to its content table', () => {
+    expect(
+      tableNames(`SELECT * FROM item_fts WHERE item_fts MATCH 'hello'`)
+    ).toEqual(['item']);
+    expect(
+      tableNames(
+        `SELECT item.* FROM item_fts JOIN item ON item.rowid = item_fts.rowid`
+      )
+    ).toEqual(['item']);
+    // stores its own content
+    expect(tableNames(`SELECT * FROM note_fts`)).toEqual(['note_fts']);
+  });
+
+  it("doesn't report table-valued functions", () => {
+    expect(
+      tableNames(
+        `SELECT * FROM item, json_each('[1, 2]') WHERE item.id = value`
+      )
+    ).toEqual(['item']);
+  });
+
+  it('rejects queries which write', () => {
+    for (const sql of [
+      `INSERT INTO item (id) VALUES ('a')`,
+      `UPDATE item SET title = 'x'`,
+      `DELETE FROM item RETURNING *`,
+      `CREATE TABLE other (id TEXT)`,
+    ]) {
+      expect(() => parseTableNames(db, capi, sql)).toThrow(
+        /The query writes to the database/
+      );
+    }
+  });
+
+  it('rejects more than one statement but allows trailing comments', () => {
+    expect(() =>
+      parseTableNames(db, capi, 'SELECT * FROM item; SELECT * FROM tag')
+    ).toThrow(/more than one statement/);
+
+    expect(tableNames('SELECT * FROM item; -- all of them\n;')).toEqual([
+      'item',
+    ]);
+  });
+
+  it("rejects queries which don't compile with the parse error as the cause", () => {
+    let error: unknown;
+
+    try {
+      parseTableNames(db, capi, 'SELECT * FROM missing');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(QueryTableNamesError);
+    expect((error as QueryTableNamesError).sql).toBe('SELECT * FROM missing');
+    expect((error as QueryTableNamesError).cause).toBeInstanceOf(SqlParseError);
+    expect((error as Error).message).toMatch(/no such table: missing/);
+  });
+
+  it('leaves the authorizer unset afterwards', () => {
+    expect(() => parseTableNames(db, capi, 'SELECT * FROM nope')).toThrow();
+
+    db.exec(`INSERT INTO tag VALUES ('t', 'red')`);
+    expect(db.selectValue('SELECT name FROM tag')).toBe('red');
+    db.exec('DELETE FROM tag');
+  });
+});
+
+describe('containsStatement', () => {
+  it('ignores whitespace, semicolons and comments', () => {
+    expect(containsStatement(db, '')).toBe(false);
+    expect(containsStatement(db, ' ;\n-- note\n/* more */ ;')).toBe(false);
+    expect(containsStatement(db, '; SELECT 1')).toBe(true);
+    // even one which doesn't compile
+    expect(containsStatement(db, 'SELEC 1')).toBe(true);
+  });
+});
+
+describe('normalizeParameters', () => {
+  it('numbers ? parameters like SQLite', () => {
+    expect(normalizeParameters('SELECT ?, ?, ?5, ?, $2')).toBe(
+      'SELECT $1, $2, $5, $6, $2'
+    );
+  });
+
+  it('leaves strings, identifiers, comments and named parameters alone', () => {
+    const sql = `SELECT '?''?', "a?", \`b?\`, $name -- why?\n/* ? */ FROM t WHERE x = ?`;
+
+    expect(normalizeParameters(sql)).toBe(
+      `SELECT '?''?', "a?", \`b?\`, $name -- why?\n/* ? */ FROM t WHERE x = $1`
+    );
+  });
+});
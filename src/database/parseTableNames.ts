@@ -1,44 +1,181 @@
-import { astVisitor, parse } from 'pgsql-ast-parser';
+import { Database, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+import { ftsContentTable } from './defineSchema';
+import { toSqliteError } from './errors';
 
-export function parseTestTableNames(sqlQuery: string): string[] {
-  const statements = parse(sqlQuery);
+/**
+ * Returns the tables `sqlQuery` reads from by having SQLite compile (but not
+ * run) the query while an authorizer callback records every table read. This
+ * means SQLite's own parser and name resolution decide what is read, so
+ * views and CTEs resolve to the tables behind them, schema-qualified names
+ * work and any SQLite syntax is understood.
+ *
+ * Table-valued functions such as `json_each()` aren't tables and aren't
+ * returned. An FTS5 table with external content is replaced by its content
+ * table since that's where its changes are made.
+ *
+ * @throws a `QueryTableNamesError` if the query can't be compiled, isn't
+ *   read-only or contains more than one statement.
+ */
+export function parseTableNames(
+  db: Database,
+  capi: Sqlite3Static['capi'],
+  sqlQuery: string
+): string[] {
+  const reads = new Set<string>();
 
-  if (statements.length !== 1) {
-    throw new Error(`Must receive exactly one SQL statement`);
+  capi.sqlite3_set_authorizer(
+    db,
+    (_, actionCode, tableName) => {
+      if (actionCode === capi.SQLITE_READ && tableName) reads.add(tableName);
+      return capi.SQLITE_OK;
+    },
+    0
+  );
+
+  let statement;
+
+  try {
+    statement = db.prepare(sqlQuery);
+  } catch (e) {
+    const cause = toSqliteError(e, capi, sqlQuery);
+
+    throw new QueryTableNamesError(
+      `SQLite could not compile the query: ${errorMessage(cause)}`,
+      sqlQuery,
+      cause
+    );
+  } finally {
+    capi.sqlite3_set_authorizer(db, 0 as never, 0);
+  }
+
+  try {
+    if (!capi.sqlite3_stmt_readonly(statement)) {
+      throw new QueryTableNamesError(
+        'The query writes to the database. Only read-only statements (e.g. ' +
+          'SELECT) can be observed.',
+        sqlQuery
+      );
+    }
+
+    const statementSql = capi.sqlite3_sql(statement) ?? '';
+    const rest = sqlQuery.slice(
+      sqlQuery.indexOf(statementSql) + statementSql.length
+    );
+
+    if (containsStatement(db, rest)) {
+      throw new QueryTableNamesError(
+        'The query contains more than one statement. Observe each statement ' +
+          'separately.',
+        sqlQuery
+      );
+    }
+  } finally {
+    statement.finalize();
+  }
+
+  // Views are reported alongside the tables they read from and table-valued
+  // functions are reported as if they were tables.
+  const tables = db.selectObjects(
+    `SELECT name, sql FROM main.sqlite_schema WHERE type = 'table'
+     UNION
+     SELECT name, sql FROM temp.sqlite_schema WHERE type = 'table'`
+  ) as { name: string; sql: string | null }[];
+
+  const tableNames = new Set<string>();
+
+  for (const { name, sql } of tables) {
+    if (!reads.has(name) || name.startsWith('sqlite_')) continue;
+
+    const isFts5 = /^\s*CREATE\s+VIRTUAL\s+TABLE\b.*\bUSING\s+fts5\b/is.test(
+      sql ?? ''
+    );
+    const contentTable = isFts5 ? ftsContentTable(sql!) : null;
+
+    tableNames.add(contentTable ?? name);
   }
 
-  const statement = statements[0]!;
+  return Array.from(tableNames);
+}
+
+export class QueryTableNamesError extends Error {
+  constructor(
+    message: string,
+    public sql: string,
+    /** A `SqlParseError` when the query couldn't be compiled. */
+    public cause?: unknown
+  ) {
+    super(`${message}\n\n${sql}`);
+    this.name = 'QueryTableNamesError';
+  }
+}
 
-  const tables = new Set<string>();
+/**
+ * @returns whether `sqlQuery` holds a statement rather than only
+ *   whitespace, semicolons and comments, e.g. after the first statement of
+ *   some SQL.
+ */
+export function containsStatement(db: Database, sqlQuery: string) {
+  if (sqlQuery.trim() === '') return false;
 
-  const visitor = astVisitor(() => ({
-    tableRef: (t) => tables.add(t.name),
-  }));
+  try {
+    db.prepare(sqlQuery).finalize();
+  } catch (e) {
+    // only whitespace, semicolons and comments
+    if (/Cannot prepare empty SQL/.test(errorMessage(e))) return false;
+  }
 
-  visitor.statement(statement);
+  return true;
+}
 
-  return Array.from(tables);
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
 }
 
-export function hasIntersection<A, B>(
-  first: A[],
-  second: B[],
-  isEqual: (a: A, b: B) => boolean = Object.is
-): boolean {
-  const tLen = first.length;
-  const cLen = second.length;
+/**
+ * pgsql-ast-parser only understands `$1` style parameters but SQLite (and
+ * `sql-template-tag`) also use `?` and `?NNN`. This rewrites those to the
+ * equivalent `$N` parameter. As in SQLite, a bare `?` is numbered one higher
+ * than the largest parameter number seen so far.
+ */
+export function normalizeParameters(sqlQuery: string) {
+  let result = '';
+  let largestIndex = 0;
+  let i = 0;
 
-  for (let i = 0; i < tLen; ++i) {
-    const tablename = first[i];
+  while (i < sqlQuery.length) {
+    const char = sqlQuery[i];
+    const next = sqlQuery[i + 1];
 
-    for (let j = 0; j < cLen; ++j) {
-      const candidate = second[j];
+    let end = i + 1;
 
-      if (isEqual(tablename, candidate)) {
-        return true;
+    if (char === "'" || char === '"' || char === '`') {
+      end = sqlQuery.indexOf(char, i + 1);
+      // doubled quotes escape a quote
+      while (end !== -1 && sqlQuery[end + 1] === char) {
+        end = sqlQuery.indexOf(char, end + 2);
+      }
+      end = end === -1 ? sqlQuery.length : end + 1;
+    } else if (char === '-' && next === '-') {
+      end = sqlQuery.indexOf('\n', i);
+      end = end === -1 ? sqlQuery.length : end;
+    } else if (char === '/' && next === '*') {
+      end = sqlQuery.indexOf('*/', i + 2);
+      end = end === -1 ? sqlQuery.length : end + 2;
+    } else if (char === '?' || char === '$') {
+      const digits = /^\d*/.exec(sqlQuery.slice(i + 1))![0];
+
+      if (char === '?' || digits) {
+        const index = digits ? Number(digits) : largestIndex + 1;
+        largestIndex = Math.max(largestIndex, index);
+        result += `$${index}`;
+        i += 1 + digits.length;
+        continue;
       }
     }
+
+    result += sqlQuery.slice(i, end);
+    i = end;
   }
 
-  return false;
+  return result;
 }
@@ -0,0 +1,220 @@
+import { Subject } from 'rxjs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache, toCacheKey } from './queryCache';
+import { LiveQueryOutcome } from './observable';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('QueryCache', () => {
+  it('shares one query between every subscriber to a key', () => {
+    const cache = new QueryCache();
+    const create = vi.fn(() => new Subject<number>());
+
+    cache.get('key', create).subscribe();
+    cache.get('key', create).subscribe();
+    cache.get('other', create).subscribe();
+
+    expect(create).toHaveBeenCalledTimes(2);
+    cache.clear();
+  });
+
+  it('keeps a query without subscribers alive until keepAlive ends', () => {
+    vi.useFakeTimers();
+
+    const onRemove = vi.fn();
+    const cache = new QueryCache({ keepAlive: 100 }, { onRemove });
+    const source = new Subject<number>();
+    const create = vi.fn(() => source);
+
+    const subscription = cache.get('key', create).subscribe();
+    source.next(1);
+    subscription.unsubscribe();
+
+    vi.advanceTimersByTime(99);
+
+    // a remount receives the kept result right away
+    const received: number[] = [];
+    const remounted = cache
+      .get('key', create)
+      .subscribe((value) => received.push(value));
+
+    expect(received).toEqual([1]);
+    expect(create).toHaveBeenCalledOnce();
+
+    // subscribing again restarts the keep-alive
+    remounted.unsubscribe();
+    vi.advanceTimersByTime(99);
+
+    expect(cache.size).toBe(1);
+    expect(source.observed).toBe(true);
+
+    vi.advanceTimersByTime(1);
+
+    expect(cache.size).toBe(0);
+    expect(source.observed).toBe(false);
+    expect(onRemove).toHaveBeenCalledWith('key');
+  });
+
+  it('stops a query as soon as its last subscriber leaves when keepAlive is 0', () => {
+    const cache = new QueryCache({ keepAlive: 0 });
+    const source = new Subject<number>();
+
+    cache
+      .get('key', () => source)
+      .subscribe()
+      .unsubscribe();
+
+    expect(cache.size).toBe(0);
+    expect(source.observed).toBe(false);
+  });
+
+  it('drops the least recently used queries without subscribers once they hold too many rows', () => {
+    const cache = new QueryCache({ maxInactiveRows: 5 });
+    const sources = new Map<string, Subject<number[]>>();
+    const query = (key: string) =>
+      cache.get(
+        key,
+        () => {
+          const source = new Subject<number[]>();
+          sources.set(key, source);
+          return source;
+        },
+        (rows) => rows.length
+      );
+
+    const active = query('active').subscribe();
+    sources.get('active')!.next([1, 2, 3, 4, 5, 6]);
+
+    for (const key of ['a', 'b']) {
+      query(key).subscribe().unsubscribe();
+      sources.get(key)!.next([1, 2]);
+    }
+
+    // `a` is used again so `b` is now the least recently used
+    query('a').subscribe().unsubscribe();
+
+    for (const key of ['c', 'd']) {
+      query(key).subscribe().unsubscribe();
+      sources.get(key)!.next([1]);
+    }
+
+    expect(sources.get('b')!.observed).toBe(false);
+    expect(
+      ['active', 'a', 'c', 'd'].map((key) => sources.get(key)!.observed)
+    ).toEqual([true, true, true, true]);
+
+    // rows grown by a query without subscribers count too
+    sources.get('c')!.next([1, 2, 3]);
+
+    expect(sources.get('a')!.observed).toBe(false);
+    expect(cache.size).toBe(3);
+
+    active.unsubscribe();
+    cache.clear();
+  });
+
+  it('reports the number of subscribers to each query', () => {
+    const onSubscriberCount = vi.fn();
+    const cache = new QueryCache({}, { onSubscriberCount });
+    const query = cache.get('key', () => new Subject<number>());
+
+    const first = query.subscribe();
+    const second = query.subscribe();
+    first.unsubscribe();
+    second.unsubscribe();
+
+    expect(onSubscriberCount.mock.calls).toEqual([
+      ['key', 1],
+      ['key', 2],
+      ['key', 1],
+      ['key', 0],
+    ]);
+    cache.clear();
+  });
+
+  it('replays the latest result to new subscribers', () => {
+    const cache = new QueryCache();
+    const source = new Subject<number>();
+    const query = cache.get('key', () => source);
+
+    query.subscribe();
+    source.next(1);
+
+    const received: number[] = [];
+    query.subscribe((value) => received.push(value));
+
+    expect(received).toEqual([1]);
+    cache.clear();
+  });
+
+  it("doesn't replay results which aren't replayable", () => {
+    const cache = new QueryCache();
+    const source = new Subject<LiveQueryOutcome<number>>();
+    const query = cache.get(
+      'key',
+      () => source,
+      () => 1,
+      (outcome) => 'value' in outcome
+    );
+
+    query.subscribe();
+    source.next({ value: 1 });
+    source.next({ error: new Error('failed') });
+
+    const received: LiveQueryOutcome<number>[] = [];
+    query.subscribe((outcome) => received.push(outcome));
+
+    // neither the error nor the result from before it
+    expect(received).toEqual([]);
+
+    source.next({ value: 2 });
+
+    expect(received).toEqual([{ value: 2 }]);
+    cache.clear();
+  });
+});
+
+describe('toCacheKey', () => {
+  it('keys functions by identity', () => {
+    const shouldRetry = () => true;
+
+    expect(toCacheKey({ retry: { shouldRetry } })).toBe(
+      toCacheKey({ retry: { shouldRetry } })
+    );
+    expect(toCacheKey({ retry: { shouldRetry } })).not.toBe(
+      toCacheKey({ retry: { shouldRetry: () => true } })
+    );
+    expect(toCacheKey({ retry: { shouldRetry } })).not.toBe(
+      toCacheKey({ retry: {} })
+    );
+  });
+
+  it('tells bigints, strings, blobs and arrays apart', () => {
+    const keys = [
+      [5n],
+      ['5n'],
+      [5],
+      ['5'],
+      [new Uint8Array([1, 2])],
+      [new Int8Array([1, 2])],
+      [new Uint8Array([1, 2]).buffer],
+      [[1, 2]],
+      ['Uint8Array:0102'],
+    ].map(toCacheKey);
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('keys blobs by their bytes', () => {
+    const bytes = new Uint8Array([0, 1, 2, 3]);
+
+    expect(toCacheKey([bytes.subarray(1, 3)])).toBe(
+      toCacheKey([new Uint8Array([1, 2])])
+    );
+    expect(toCacheKey([new Uint8Array([1, 2])])).not.toBe(
+      toCacheKey([new Uint8Array([1, 3])])
+    );
+  });
+});
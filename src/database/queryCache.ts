@@ -0,0 +1,234 @@
+import { Observable, Subscriber, Subscription } from 'rxjs';
+
+export type QueryCacheOptions = {
+  /**
+   * Milliseconds a query stays live after its last subscriber unsubscribes,
+   * so that a component which remounts receives the result synchronously.
+   * Defaults to 10 seconds.
+   */
+  keepAlive?: number;
+  /**
+   * The most rows which queries without subscribers may hold. When it's
+   * exceeded the least recently used of those queries are dropped before
+   * their `keepAlive` ends. Defaults to 10,000.
+   */
+  maxInactiveRows?: number;
+};
+
+/** Notified as queries enter and leave the cache, e.g. for instrumentation. */
+export type QueryCacheListener = {
+  onSubscriberCount?(key: string, count: number): void;
+  onRemove?(key: string): void;
+};
+
+type CacheEntry = {
+  key: string;
+  source: Observable<unknown>;
+  getSize: (value: unknown) => number;
+  isReplayable: (value: unknown) => boolean;
+  subscribers: Set<Subscriber<unknown>>;
+  connection?: Subscription;
+  latest?: { current: unknown };
+  size: number;
+  keepAliveTimer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Shares one live query between every subscriber asking for the same key,
+ * so the query only runs once per change however many components observe
+ * it. New subscribers receive the latest result synchronously.
+ */
+export class QueryCache {
+  /** In least to most recently used order. */
+  private entries = new Map<string, CacheEntry>();
+
+  private keepAlive: number;
+
+  private maxInactiveRows: number;
+
+  constructor(
+    options: QueryCacheOptions = {},
+    private listener: QueryCacheListener = {}
+  ) {
+    this.keepAlive = options.keepAlive ?? 10_000;
+    this.maxInactiveRows = options.maxInactiveRows ?? 10_000;
+  }
+
+  /**
+   * @param create called to build the live query when there isn't one for
+   *   `key` yet.
+   * @param getSize the number of rows in a result.
+   * @param isReplayable whether new subscribers may receive a result, e.g.
+   *   `false` for a failed run. After one which isn't, they wait for the
+   *   next result instead.
+   */
+  get<T>(
+    key: string,
+    create: () => Observable<T>,
+    getSize: (value: T) => number = () => 1,
+    isReplayable: (value: T) => boolean = () => true
+  ): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      let entry = this.entries.get(key);
+
+      if (entry) {
+        clearTimeout(entry.keepAliveTimer);
+        entry.keepAliveTimer = undefined;
+        this.entries.delete(key);
+      } else {
+        entry = {
+          key,
+          source: create(),
+          getSize: getSize as (value: unknown) => number,
+          isReplayable: isReplayable as (value: unknown) => boolean,
+          subscribers: new Set(),
+          size: 0,
+        };
+      }
+
+      this.entries.set(key, entry);
+
+      const cached = entry;
+      cached.subscribers.add(subscriber as Subscriber<unknown>);
+      this.listener.onSubscriberCount?.(key, cached.subscribers.size);
+
+      if (cached.latest) subscriber.next(cached.latest.current as T);
+      if (!cached.connection) this.connect(cached);
+
+      return () => {
+        if (!cached.subscribers.delete(subscriber as Subscriber<unknown>)) {
+          return;
+        }
+
+        this.listener.onSubscriberCount?.(key, cached.subscribers.size);
+
+        if (cached.subscribers.size === 0 && this.entries.get(key) === cached) {
+          this.release(cached);
+        }
+      };
+    });
+  }
+
+  /** The number of queries in the cache, including those being kept alive. */
+  get size() {
+    return this.entries.size;
+  }
+
+  /** Stops every query. Current subscribers won't receive more results. */
+  clear() {
+    for (const entry of Array.from(this.entries.values())) this.remove(entry);
+  }
+
+  private connect(entry: CacheEntry) {
+    entry.connection = entry.source.subscribe({
+      next: (value) => {
+        entry.latest = entry.isReplayable(value)
+          ? { current: value }
+          : undefined;
+        entry.size = entry.getSize(value);
+
+        for (const subscriber of Array.from(entry.subscribers)) {
+          subscriber.next(value);
+        }
+
+        if (entry.subscribers.size === 0) this.evictInactive();
+      },
+      error: (e) => {
+        // so that subscribing again runs the query again
+        this.remove(entry);
+        for (const subscriber of Array.from(entry.subscribers)) {
+          subscriber.error(e);
+        }
+      },
+      complete: () => {
+        this.remove(entry);
+        for (const subscriber of Array.from(entry.subscribers)) {
+          subscriber.complete();
+        }
+      },
+    });
+  }
+
+  private release(entry: CacheEntry) {
+    if (this.keepAlive <= 0) {
+      this.remove(entry);
+      return;
+    }
+
+    entry.keepAliveTimer = setTimeout(() => this.remove(entry), this.keepAlive);
+    this.evictInactive();
+  }
+
+  private evictInactive() {
+    let inactiveRows = 0;
+
+    for (const entry of this.entries.values()) {
+      if (entry.subscribers.size === 0) inactiveRows += entry.size;
+    }
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (inactiveRows <= this.maxInactiveRows) return;
+      if (entry.subscribers.size > 0) continue;
+
+      inactiveRows -= entry.size;
+      this.remove(entry);
+    }
+  }
+
+  private remove(entry: CacheEntry) {
+    clearTimeout(entry.keepAliveTimer);
+
+    entry.connection?.unsubscribe();
+    entry.connection = undefined;
+    entry.latest = undefined;
+
+    if (this.entries.get(entry.key) === entry) {
+      this.entries.delete(entry.key);
+      this.listener.onRemove?.(entry.key);
+    }
+  }
+}
+
+const functionIds = new WeakMap<(...args: never[]) => unknown, number>();
+
+let functionCount = 0;
+
+/**
+ * Serializes a statement (or any other JSON-like value) into a cache key.
+ * Bound values may be bigints and blobs which `JSON.stringify` doesn't
+ * handle on its own, so every string is tagged with its type (e.g. `5n` is
+ * `"n:5"` and the string `"5n"` is `"s:5n"`) and blobs are tagged with their
+ * class so that they never share a key with an array of numbers. Functions
+ * (e.g. a `RetryPolicy`'s `shouldRetry`) are keyed by identity, so only
+ * values holding the same function share a key.
+ */
+export function toCacheKey(value: unknown) {
+  return JSON.stringify(value, (_, v) => {
+    if (typeof v === 'string') return `s:${v}`;
+
+    if (typeof v === 'bigint') return `n:${v}`;
+
+    if (ArrayBuffer.isView(v)) {
+      return `${v.constructor.name}:${toHex(
+        new Uint8Array(v.buffer, v.byteOffset, v.byteLength)
+      )}`;
+    }
+
+    if (v instanceof ArrayBuffer) {
+      return `ArrayBuffer:${toHex(new Uint8Array(v))}`;
+    }
+
+    if (typeof v === 'function') {
+      if (!functionIds.has(v)) functionIds.set(v, ++functionCount);
+      return `function:${functionIds.get(v)}`;
+    }
+
+    return v;
+  });
+}
+
+function toHex(bytes: Uint8Array) {
+  let hex = '';
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+  return hex;
+}
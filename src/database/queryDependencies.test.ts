@@ -0,0 +1,263 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RowFilterCache,
+  changeAffectsQuery,
+  parseQueryDependencies,
+} from './queryDependencies';
+import { DatabaseChange } from './connection';
+import { RowChange } from './changeCapture';
+
+const query = 'SELECT * FROM message WHERE thread_id = ?';
+
+describe('parseQueryDependencies', () => {
+  it('finds equality filters in the WHERE clause', () => {
+    expect(parseQueryDependencies(query, ['message'])).toEqual({
+      tableNames: ['message'],
+      filters: new Map([
+        [
+          'message',
+          [{ column: 'thread_id', values: [{ type: 'parameter', index: 1 }] }],
+        ],
+      ]),
+    });
+  });
+});
+
+type Row = { [columnName: string]: string | number | null };
+
+const message = (id: string, threadId: string) => ({
+  id,
+  thread_id: threadId,
+  content: 'Hello',
+});
+
+/** A change to one row, which is an update if both records are given. */
+function changeTo(
+  table: string,
+  record: Row | null,
+  previousRecord: Row | null = null
+): DatabaseChange {
+  const rowChange: RowChange = {
+    table,
+    id: String((record ?? previousRecord)!.id),
+    rowId: 1,
+    operation: !record ? 'delete' : previousRecord ? 'update' : 'insert',
+    record,
+    previousRecord,
+  };
+
+  return {
+    tableNames: [table],
+    changes: { [table]: { [rowChange.id]: record } },
+    rowChanges: [rowChange],
+  };
+}
+
+/** Whether `change` should re-run `sql` with `values` bound. */
+function affects(
+  sql: string,
+  change: DatabaseChange,
+  values: unknown[] = [],
+  tableNames = ['message', 'thread']
+) {
+  return changeAffectsQuery(
+    change,
+    parseQueryDependencies(sql, tableNames),
+    values
+  );
+}
+
+describe('changeAffectsQuery', () => {
+  it('skips rows which fail an equality filter on a parameter', () => {
+    const change = changeTo('message', message('a', 'other'));
+
+    expect(affects(query, change, ['other'])).toBe(true);
+    expect(affects(query, change, ['thread'])).toBe(false);
+  });
+
+  it('skips rows which fail an equality filter on a literal', () => {
+    const sql = `SELECT * FROM message WHERE thread_id = 'thread'`;
+
+    expect(affects(sql, changeTo('message', message('a', 'thread')))).toBe(
+      true
+    );
+    expect(affects(sql, changeTo('message', message('a', 'other')))).toBe(
+      false
+    );
+  });
+
+  it('skips rows which fail an IN filter', () => {
+    const withParameters = 'SELECT * FROM message WHERE thread_id IN (?, ?)';
+    const withLiterals = `SELECT * FROM message WHERE thread_id IN ('x', 'y')`;
+
+    const cases: [string, string[]][] = [
+      [withParameters, ['x', 'y']],
+      [withLiterals, []],
+    ];
+
+    for (const [sql, values] of cases) {
+      expect(affects(sql, changeTo('message', message('a', 'y')), values)).toBe(
+        true
+      );
+      expect(affects(sql, changeTo('message', message('a', 'z')), values)).toBe(
+        false
+      );
+    }
+  });
+
+  it('uses the parameter at each position', () => {
+    const sql = 'SELECT * FROM message WHERE id = ? AND thread_id = ?';
+    const change = changeTo('message', message('a', 'thread'));
+
+    expect(affects(sql, change, ['a', 'thread'])).toBe(true);
+    expect(affects(sql, change, ['thread', 'a'])).toBe(false);
+  });
+
+  it('requires every filter which is ANDed together to match', () => {
+    const sql = `SELECT * FROM message WHERE thread_id = ? AND id = 'b'`;
+
+    expect(
+      affects(sql, changeTo('message', message('a', 'thread')), ['thread'])
+    ).toBe(false);
+    expect(
+      affects(sql, changeTo('message', message('b', 'thread')), ['thread'])
+    ).toBe(true);
+  });
+
+  it('re-runs when a row moves out of the filter', () => {
+    const change = changeTo(
+      'message',
+      message('a', 'other'),
+      message('a', 'thread')
+    );
+
+    expect(affects(query, change, ['thread'])).toBe(true);
+  });
+
+  it('re-runs when a row matching the filter is deleted', () => {
+    const change = changeTo('message', null, message('a', 'thread'));
+
+    expect(affects(query, change, ['thread'])).toBe(true);
+    expect(affects(query, change, ['other'])).toBe(false);
+  });
+
+  it('compares values loosely as SQLite might', () => {
+    const sql = 'SELECT * FROM counter WHERE id = ?';
+    const change = changeTo('counter', { id: '1', value: 0 });
+
+    // a numeric parameter may equal a text column with affinity and a text
+    // column may use a NOCASE collation
+    expect(affects(sql, change, [1], ['counter'])).toBe(true);
+    expect(
+      affects(
+        sql,
+        changeTo('counter', { id: 'ABC', value: 0 }),
+        ['abc'],
+        ['counter']
+      )
+    ).toBe(true);
+    // `id = NULL` is never true
+    expect(affects(sql, change, [null], ['counter'])).toBe(false);
+    // e.g. the parameter was bound by name
+    expect(affects(sql, change, [], ['counter'])).toBe(true);
+  });
+
+  it('ignores changes to tables which the query does not read', () => {
+    expect(
+      affects(
+        query,
+        changeTo('thread', { id: 't', subject: 'x' }),
+        [],
+        ['message']
+      )
+    ).toBe(false);
+  });
+
+  describe('re-runs for every change to a table when', () => {
+    const otherThread = changeTo('message', message('a', 'other'));
+
+    it('the filter is part of an OR', () => {
+      expect(
+        affects(
+          `SELECT * FROM message WHERE thread_id = ? OR id = 'b'`,
+          otherThread,
+          ['thread']
+        )
+      ).toBe(true);
+    });
+
+    it('the filter is in a JOIN condition', () => {
+      expect(
+        affects(
+          `SELECT message.* FROM message
+          JOIN thread ON thread.id = message.thread_id AND message.thread_id = ?`,
+          otherThread,
+          ['thread']
+        )
+      ).toBe(true);
+    });
+
+    it('an unqualified column could belong to any joined table', () => {
+      expect(
+        affects(
+          `SELECT message.* FROM message
+          JOIN thread ON thread.id = message.thread_id WHERE thread_id = ?`,
+          otherThread,
+          ['thread']
+        )
+      ).toBe(true);
+    });
+
+    it('the table is referenced more than once', () => {
+      expect(
+        affects(
+          `SELECT * FROM message WHERE thread_id = ? AND id IN (
+            SELECT id FROM message WHERE content = 'Hello'
+          )`,
+          otherThread,
+          ['thread']
+        )
+      ).toBe(true);
+    });
+
+    it('the table is only read in a subquery', () => {
+      expect(
+        affects(
+          'SELECT * FROM thread WHERE id IN (SELECT thread_id FROM message WHERE thread_id = ?)',
+          otherThread,
+          ['thread']
+        )
+      ).toBe(true);
+    });
+
+    it("the query can't be parsed", () => {
+      expect(
+        affects(
+          'SELECT * FROM message INDEXED BY message_thread WHERE thread_id = ?',
+          otherThread,
+          ['thread']
+        )
+      ).toBe(true);
+    });
+  });
+});
+
+describe('RowFilterCache', () => {
+  it('keeps the filters parsed from recently used queries', () => {
+    const cache = new RowFilterCache({ maxQueries: 1 });
+    const filters = cache.get(query);
+
+    expect(cache.get(query)).toBe(filters);
+
+    cache.get('SELECT * FROM thread');
+
+    expect(cache.get(query)).not.toBe(filters);
+    expect(cache.get(query)).toEqual(filters);
+  });
+
+  it('parses every time when maxQueries is 0', () => {
+    const cache = new RowFilterCache({ maxQueries: 0 });
+
+    expect(cache.get(query)).not.toBe(cache.get(query));
+  });
+});
@@ -0,0 +1,297 @@
+import { Expr, Statement, astVisitor, parse } from 'pgsql-ast-parser';
+import { normalizeParameters } from './parseTableNames';
+import { DatabaseChange } from './connection';
+
+/**
+ * A row of `table` can only be part of the query's result if its `column`
+ * equals one of `values`.
+ */
+export interface RowFilter {
+  column: string;
+  values: FilterValue[];
+}
+
+type FilterValue =
+  | { type: 'parameter'; index: number }
+  | { type: 'literal'; value: string | number | boolean };
+
+export interface QueryDependencies {
+  tableNames: string[];
+  /**
+   * Filters which every row of the table must pass to be part of the
+   * result. Tables which aren't in this map depend on every row.
+   */
+  filters: Map<string, RowFilter[]>;
+}
+
+/**
+ * Figures out, where the query makes it simple to tell, which rows of the
+ * tables it reads could be part of the result.
+ *
+ * Only `column = value` and `column IN (values)` conditions which are
+ * `AND`ed together in the `WHERE` clause of a plain `SELECT` are used, where
+ * `value` is a literal or a bound parameter. Anything more complex (e.g.
+ * `OR`, conditions in a `JOIN ... ON`, a table which is referenced more than
+ * once, a `UNION`, a CTE or syntax the Postgres parser doesn't understand)
+ * falls back to depending on every row of the table.
+ *
+ * @param tableNames the tables the query reads, as reported by SQLite (see
+ *   `parseTableNames`).
+ * @param rowFilterCache keeps the filters parsed from each query. Without
+ *   it the query is parsed every time.
+ */
+export function parseQueryDependencies(
+  sqlQuery: string,
+  tableNames: string[],
+  rowFilterCache?: RowFilterCache
+): QueryDependencies {
+  return {
+    tableNames,
+    filters: rowFilterCache
+      ? rowFilterCache.get(sqlQuery)
+      : parseRowFilters(sqlQuery),
+  };
+}
+
+export type RowFilterCacheOptions = {
+  /**
+   * The most queries whose row filters are kept. Defaults to 500. `0`
+   * parses every query again when it's observed.
+   */
+  maxQueries?: number;
+};
+
+/**
+ * Parsing is the slow part of observing a query and the same queries are
+ * observed again and again (e.g. each time a component mounts), so the
+ * filters parsed from each query's SQL are kept in least to most recently
+ * used order. They're shared, so they mustn't be changed.
+ */
+export class RowFilterCache {
+  private filters = new Map<string, Map<string, RowFilter[]>>();
+
+  private maxQueries: number;
+
+  constructor(options: RowFilterCacheOptions = {}) {
+    this.maxQueries = options.maxQueries ?? 500;
+  }
+
+  /** The filters parsed from `sqlQuery`. */
+  get(sqlQuery: string) {
+    if (this.maxQueries === 0) return parseRowFilters(sqlQuery);
+
+    let filters = this.filters.get(sqlQuery);
+
+    if (filters) {
+      this.filters.delete(sqlQuery);
+    } else {
+      filters = parseRowFilters(sqlQuery);
+    }
+
+    this.filters.set(sqlQuery, filters);
+
+    if (this.filters.size > this.maxQueries) {
+      this.filters.delete(this.filters.keys().next().value!);
+    }
+
+    return filters;
+  }
+
+  clear() {
+    this.filters.clear();
+  }
+}
+
+function parseRowFilters(sqlQuery: string) {
+  const filters = new Map<string, RowFilter[]>();
+
+  let statements: Statement[];
+
+  try {
+    statements = parse(normalizeParameters(sqlQuery));
+  } catch {
+    // SQLite specific syntax
+    return filters;
+  }
+
+  if (statements.length !== 1) return filters;
+
+  const statement = statements[0]!;
+
+  const tableReferenceCounts = new Map<string, number>();
+
+  const visitor = astVisitor(() => ({
+    tableRef: (t) =>
+      tableReferenceCounts.set(
+        t.name,
+        (tableReferenceCounts.get(t.name) ?? 0) + 1
+      ),
+  }));
+
+  visitor.statement(statement);
+
+  for (const [table, tableFilters] of extractFilters(statement)) {
+    if (tableReferenceCounts.get(table) !== 1) continue;
+    filters.set(table, tableFilters);
+  }
+
+  return filters;
+}
+
+/**
+ * @param values the values bound to the query's parameters.
+ * @returns `false` if none of the changed rows could have been, or could now
+ *   be, part of the query's result.
+ */
+export function changeAffectsQuery(
+  change: DatabaseChange,
+  dependencies: QueryDependencies,
+  values: unknown[]
+) {
+  for (const rowChange of change.rowChanges) {
+    if (!dependencies.tableNames.includes(rowChange.table)) continue;
+
+    const filters = dependencies.filters.get(rowChange.table);
+
+    if (!filters) return true;
+
+    for (const record of [rowChange.record, rowChange.previousRecord]) {
+      if (!record) continue;
+
+      const matches = filters.every(
+        (filter) =>
+          !(filter.column in record) ||
+          filter.values.some((value) =>
+            mightBeEqual(
+              record[filter.column],
+              value.type === 'parameter' ? values[value.index - 1] : value.value
+            )
+          )
+      );
+
+      if (matches) return true;
+    }
+  }
+
+  return false;
+}
+
+function extractFilters(statement: Statement) {
+  const filters = new Map<string, RowFilter[]>();
+
+  if (statement.type !== 'select' || !statement.where || !statement.from) {
+    return filters;
+  }
+
+  // alias (or name) -> table name
+  const tables = new Map<string, string>();
+
+  for (const from of statement.from) {
+    if (from.type !== 'table') continue;
+    tables.set(from.name.alias ?? from.name.name, from.name.name);
+  }
+
+  // unqualified columns can only be attributed to a table when there is just
+  // one thing being selected from
+  const defaultTable =
+    statement.from.length === 1 && statement.from[0].type === 'table'
+      ? statement.from[0].name.name
+      : undefined;
+
+  for (const condition of splitConjunction(statement.where)) {
+    const filter = parseCondition(condition);
+
+    if (!filter) continue;
+
+    const table = filter.table ? tables.get(filter.table) : defaultTable;
+
+    if (!table) continue;
+
+    filters.set(table, [
+      ...(filters.get(table) ?? []),
+      { column: filter.column, values: filter.values },
+    ]);
+  }
+
+  return filters;
+}
+
+function splitConjunction(expr: Expr): Expr[] {
+  if (expr.type === 'binary' && expr.op === 'AND') {
+    return [...splitConjunction(expr.left), ...splitConjunction(expr.right)];
+  }
+
+  return [expr];
+}
+
+function parseCondition(expr: Expr) {
+  if (expr.type !== 'binary') return;
+
+  if (expr.op === '=') {
+    const [ref, other] =
+      expr.left.type === 'ref'
+        ? [expr.left, expr.right]
+        : [expr.right, expr.left];
+
+    const value = parseValue(other);
+
+    if (ref.type !== 'ref' || !value || ref.name === '*') return;
+
+    return { table: ref.table?.name, column: ref.name, values: [value] };
+  }
+
+  if (expr.op === 'IN') {
+    if (expr.left.type !== 'ref' || expr.right.type !== 'list') return;
+
+    const values = expr.right.expressions.map(parseValue);
+
+    if (values.some((value) => !value)) return;
+
+    return {
+      table: expr.left.table?.name,
+      column: expr.left.name,
+      values: values as FilterValue[],
+    };
+  }
+}
+
+function parseValue(expr: Expr): FilterValue | undefined {
+  switch (expr.type) {
+    case 'parameter': {
+      const index = Number(expr.name.slice(1));
+      return Number.isInteger(index) ? { type: 'parameter', index } : undefined;
+    }
+    case 'string':
+    case 'integer':
+    case 'numeric':
+    case 'boolean': {
+      return { type: 'literal', value: expr.value };
+    }
+  }
+}
+
+/**
+ * Errs on the side of `true` since a false negative means a live query
+ * misses an update. SQLite's type affinity means `1` can equal `'1'` and a
+ * column may use a `NOCASE` collation, so we don't attempt to be exact.
+ */
+function mightBeEqual(a: unknown, b: unknown) {
+  // e.g. a parameter which was bound by name rather than position
+  if (a === undefined || b === undefined) return true;
+
+  // `x = NULL` is never true
+  if (a === null || b === null) return false;
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return Number(a) === Number(b);
+  }
+
+  // e.g. blobs or a number compared with a bigint
+  if (typeof a !== typeof b || typeof a === 'object') return true;
+
+  return Object.is(a, b) || a === b;
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QueryDiff, diffRows, isEmptyDiff, isEqualRows } from './queryDiff';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+type Item = { id: string; value: number };
+
+const item = (id: string, value = 0): Item => ({ id, value });
+
+const diff = (previous: Item[], next: Item[]) =>
+  diffRows(previous, next, (row) => row.id);
+
+describe('diffRows', () => {
+  it('finds added and removed rows', () => {
+    expect(
+      diff([item('a'), item('b'), item('c')], [item('a'), item('x'), item('c')])
+    ).toEqual({
+      rows: [item('a'), item('x'), item('c')],
+      added: [{ row: item('x'), index: 1 }],
+      removed: [{ row: item('b'), index: 1 }],
+      updated: [],
+      moved: [],
+    });
+  });
+
+  it('finds rows whose values changed', () => {
+    expect(diff([item('a'), item('b')], [item('a'), item('b', 1)])).toEqual({
+      rows: [item('a'), item('b', 1)],
+      added: [],
+      removed: [],
+      updated: [{ row: item('b', 1), previous: item('b'), index: 1 }],
+      moved: [],
+    });
+  });
+
+  it('only reports the fewest rows which need to move', () => {
+    const { moved } = diff(
+      [item('a'), item('b'), item('c'), item('d')],
+      [item('d'), item('a'), item('b'), item('c')]
+    );
+
+    expect(moved).toEqual([{ row: item('d'), from: 3, to: 0 }]);
+  });
+
+  it("doesn't report rows which only shifted as moved", () => {
+    const { moved } = diff(
+      [item('a'), item('b'), item('c')],
+      [item('x'), item('b'), item('c')]
+    );
+
+    expect(moved).toEqual([]);
+  });
+
+  it('reports a moved row which also changed as both', () => {
+    const { moved, updated } = diff(
+      [item('a'), item('b')],
+      [item('b', 1), item('a')]
+    );
+
+    expect(updated).toEqual([
+      { row: item('b', 1), previous: item('b'), index: 0 },
+    ]);
+    expect(moved).toHaveLength(1);
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(isEmptyDiff(diff([item('a')], [item('a')]))).toBe(true);
+    expect(isEmptyDiff(diff([item('a')], [item('a', 1)]))).toBe(false);
+  });
+});
+
+describe('isEqualRows', () => {
+  it('compares rows column by column in order', () => {
+    expect(isEqualRows([item('a')], [item('a')])).toBe(true);
+    expect(isEqualRows([item('a')], [item('a', 1)])).toBe(false);
+    expect(isEqualRows([item('a'), item('b')], [item('b'), item('a')])).toBe(
+      false
+    );
+    expect(isEqualRows([item('a')], [item('a'), item('b')])).toBe(false);
+    expect(isEqualRows([{ id: 'a' }], [{ id: 'a', value: null }])).toBe(false);
+  });
+
+  it('compares blobs by their bytes', () => {
+    expect(
+      isEqualRows(
+        [{ data: new Uint8Array([1, 2]) }],
+        [{ data: new Uint8Array([1, 2]) }]
+      )
+    ).toBe(true);
+    expect(
+      isEqualRows(
+        [{ data: new Uint8Array([1, 2]) }],
+        [{ data: new Uint8Array([1, 3]) }]
+      )
+    ).toBe(false);
+  });
+
+  it('treats NaN as equal to itself', () => {
+    expect(isEqualRows([{ value: NaN }], [{ value: NaN }])).toBe(true);
+  });
+});
+
+const counters = (values: { [id: string]: number }) =>
+  ({
+    counter: Object.fromEntries(
+      Object.entries(values).map(([id, value]) => [id, { id, value }])
+    ),
+  }) as RecordMap;
+
+describe('observeQuery', () => {
+  it("skips results equal to the last one when it's distinct", async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 1, b: 1 }));
+
+    const statement = {
+      sql: `SELECT * FROM counter WHERE id = 'a'`,
+      values: [],
+    };
+    const all: unknown[] = [];
+    const distinct: unknown[] = [];
+
+    const subscriptions = [
+      client.observeQuery(statement).subscribe(({ resultRows }) => {
+        all.push(resultRows);
+      }),
+      client
+        .observeQuery(statement, { distinct: true })
+        .subscribe(({ resultRows }) => distinct.push(resultRows)),
+    ];
+
+    await vi.waitFor(() => expect(distinct).toHaveLength(1));
+
+    // re-runs the query without changing its result
+    await client.exec({ sql: `UPDATE counter SET value = 1 WHERE id = 'a'` });
+    await vi.waitFor(() => expect(all).toHaveLength(2));
+
+    await client.writeRecordMap(counters({ a: 2 }));
+    await vi.waitFor(() => expect(all).toHaveLength(3));
+
+    expect(distinct).toEqual([
+      [{ id: 'a', value: 1 }],
+      [{ id: 'a', value: 2 }],
+    ]);
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+  });
+});
+
+describe('observeQueryDiff', () => {
+  it('emits every row as added and then only what changed', async () => {
+    const client = await createClient();
+    await client.writeRecordMap(counters({ a: 1, b: 2 }));
+
+    const diffs: QueryDiff<Item>[] = [];
+
+    const subscription = client
+      .observeQueryDiff<Item>({
+        sql: 'SELECT * FROM counter ORDER BY value',
+        values: [],
+      })
+      .subscribe((diff) => diffs.push(diff));
+
+    await vi.waitFor(() => expect(diffs).toHaveLength(1));
+
+    await client.exec({ sql: `UPDATE counter SET value = 2 WHERE id = 'b'` });
+    await client.writeRecordMap(counters({ a: 3 }));
+    await vi.waitFor(() => expect(diffs).toHaveLength(2));
+
+    expect(diffs[0].added).toEqual([
+      { row: item('a', 1), index: 0 },
+      { row: item('b', 2), index: 1 },
+    ]);
+    expect(diffs[1]).toMatchObject({
+      added: [],
+      removed: [],
+      updated: [{ row: item('a', 3), previous: item('a', 1), index: 1 }],
+      moved: [{ row: item('b', 2), from: 1, to: 0 }],
+    });
+    subscription.unsubscribe();
+  });
+});
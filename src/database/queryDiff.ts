@@ -0,0 +1,180 @@
+export type Row = { [columnName: string]: unknown };
+
+export interface QueryDiff<T> {
+  /** The full, current query result. */
+  rows: T[];
+  /** `index` is the row's position in `rows`. */
+  added: { row: T; index: number }[];
+  /** `index` is the row's position in the previous result. */
+  removed: { row: T; index: number }[];
+  /** Rows whose key was in the previous result but whose values changed. */
+  updated: { row: T; previous: T; index: number }[];
+  /**
+   * Rows which changed position relative to the other rows. This is the
+   * smallest set of rows which need to move to turn the previous order into
+   * the new one, so a row which only shifted because a row before it was
+   * added or removed isn't included.
+   */
+  moved: { row: T; from: number; to: number }[];
+}
+
+export function isEmptyDiff(diff: QueryDiff<unknown>) {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.updated.length === 0 &&
+    diff.moved.length === 0
+  );
+}
+
+/**
+ * Diffs two query results using `getKey` to identify rows. Keys must be
+ * unique within a result.
+ */
+export function diffRows<T extends Row>(
+  previous: T[],
+  next: T[],
+  getKey: (row: T) => unknown
+): QueryDiff<T> {
+  const previousIndexes = new Map<unknown, number>();
+  previous.forEach((row, index) => previousIndexes.set(getKey(row), index));
+
+  const nextKeys = new Set<unknown>();
+
+  const diff: QueryDiff<T> = {
+    rows: next,
+    added: [],
+    removed: [],
+    updated: [],
+    moved: [],
+  };
+
+  // the rows present in both results in their new order
+  const retained: { row: T; from: number; to: number }[] = [];
+
+  next.forEach((row, index) => {
+    const key = getKey(row);
+    nextKeys.add(key);
+
+    const previousIndex = previousIndexes.get(key);
+
+    if (previousIndex === undefined) {
+      diff.added.push({ row, index });
+      return;
+    }
+
+    const previousRow = previous[previousIndex];
+
+    if (!isEqualRow(previousRow, row)) {
+      diff.updated.push({ row, previous: previousRow, index });
+    }
+
+    retained.push({ row, from: previousIndex, to: index });
+  });
+
+  previous.forEach((row, index) => {
+    if (nextKeys.has(getKey(row))) return;
+    diff.removed.push({ row, index });
+  });
+
+  const unmoved = longestIncreasingSubsequence(retained.map((r) => r.from));
+
+  retained.forEach((r, index) => {
+    if (unmoved.has(index)) return;
+    diff.moved.push(r);
+  });
+
+  return diff;
+}
+
+export function isEqualRows(a: Row[], b: Row[]) {
+  if (a.length !== b.length) return false;
+
+  for (let i = 0; i < a.length; i++) {
+    if (!isEqualRow(a[i], b[i])) return false;
+  }
+
+  return true;
+}
+
+export function isEqualRow(a: Row | null, b: Row | null) {
+  if (a === b) return true;
+  if (!a || !b) return false;
+
+  const aKeys = Object.keys(a);
+
+  if (aKeys.length !== Object.keys(b).length) return false;
+
+  for (const key of aKeys) {
+    if (!(key in b) || !isEqualValue(a[key], b[key])) return false;
+  }
+
+  return true;
+}
+
+function isEqualValue(a: unknown, b: unknown) {
+  if (Object.is(a, b)) return true;
+
+  // blobs
+  if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    return isEqualBytes(
+      new Uint8Array(a.buffer, a.byteOffset, a.byteLength),
+      new Uint8Array(b.buffer, b.byteOffset, b.byteLength)
+    );
+  }
+
+  if (a instanceof ArrayBuffer && b instanceof ArrayBuffer) {
+    return isEqualBytes(new Uint8Array(a), new Uint8Array(b));
+  }
+
+  return false;
+}
+
+function isEqualBytes(a: Uint8Array, b: Uint8Array) {
+  if (a.byteLength !== b.byteLength) return false;
+
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+
+  return true;
+}
+
+/**
+ * @returns the indexes (into `values`) of one longest strictly increasing
+ *   subsequence of `values`.
+ */
+function longestIncreasingSubsequence(values: number[]) {
+  // tails[i] is the index of the smallest tail of an increasing subsequence
+  // of length i + 1
+  const tails: number[] = [];
+  const predecessors: number[] = new Array(values.length);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+
+      if (values[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    predecessors[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+
+  while (index !== -1) {
+    result.add(index);
+    index = predecessors[index];
+  }
+
+  return result;
+}
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  RpcConnection,
+  createInProcessTransportPair,
+  serveDatabase,
+} from './rpc';
+import { DatabaseHost, DatabaseHostOptions } from './DatabaseHost';
+import { DatabaseChange, InitProgress } from './connection';
+import {
+  ConstraintError,
+  RecordWriteError,
+  SqlParseError,
+  SqliteError,
+} from './errors';
+import { QueryTableNamesError } from './parseTableNames';
+import { MigrationError } from './migrate';
+import { RecordMap } from './schema';
+
+const cleanups: (() => unknown)[] = [];
+
+afterEach(async () => {
+  while (cleanups.length > 0) await cleanups.pop()!();
+});
+
+/** Serves one host to `clients` connections, each over its own transport. */
+async function serve(clients = 1, options?: DatabaseHostOptions) {
+  const host = DatabaseHost.open(options);
+
+  const connections = await Promise.all(
+    Array.from({ length: clients }, () => {
+      const [serverSide, clientSide] = createInProcessTransportPair();
+      cleanups.push(serveDatabase(host, serverSide));
+      return RpcConnection.connect(clientSide);
+    })
+  );
+
+  cleanups.push(() => connections[0].close());
+
+  return connections;
+}
+
+const counter = (id: string, value: number) =>
+  ({ counter: { [id]: { id, value } } }) as RecordMap;
+
+describe('RpcConnection', () => {
+  it('sends requests and receives their responses', async () => {
+    const [connection] = await serve();
+
+    await connection.writeRecordMap(counter('a', 1));
+
+    await expect(
+      connection.exec({ sql: 'SELECT * FROM counter' })
+    ).resolves.toEqual({ resultRows: [{ id: 'a', value: 1 }] });
+
+    await expect(
+      connection.getQueryTableNames('SELECT * FROM counter')
+    ).resolves.toEqual(['counter']);
+
+    await expect(connection.exportRecordMap()).resolves.toMatchObject(
+      counter('a', 1)
+    );
+  });
+
+  it('answers concurrent requests with their own responses', async () => {
+    const [connection] = await serve();
+
+    const results = await Promise.all(
+      [1, 2, 3].map((n) => connection.exec({ sql: 'SELECT ? AS n', bind: [n] }))
+    );
+
+    expect(results.map(({ resultRows }) => resultRows)).toEqual([
+      [{ n: 1 }],
+      [{ n: 2 }],
+      [{ n: 3 }],
+    ]);
+  });
+
+  it('passes the options given to connect() to the function which opens the database', async () => {
+    const [serverSide, clientSide] = createInProcessTransportPair();
+
+    cleanups.push(
+      serveDatabase(
+        (options: DatabaseHostOptions) => DatabaseHost.open(options),
+        serverSide
+      )
+    );
+
+    const error = await RpcConnection.connect(clientSide, {
+      migrations: [{ version: 1, name: 'broken', up: 'NOT SQL' }],
+    } satisfies DatabaseHostOptions).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.message).toMatch(/Migration 1 \("broken"\) failed/);
+    expect(error.migration).toEqual({
+      version: 1,
+      name: 'broken',
+      up: 'NOT SQL',
+    });
+    expect(error.cause).toBeInstanceOf(Error);
+  });
+
+  it('reports the progress of opening the database to connect()', async () => {
+    const [serverSide, clientSide] = createInProcessTransportPair();
+
+    cleanups.push(
+      serveDatabase(
+        (options: DatabaseHostOptions, onProgress) =>
+          DatabaseHost.open({ ...options, onProgress }),
+        serverSide
+      )
+    );
+
+    const progress: InitProgress[] = [];
+
+    const connection = await RpcConnection.connect(
+      clientSide,
+      {
+        migrations: [
+          { version: 1, name: 'first', up: 'CREATE TABLE a (id TEXT)' },
+          { version: 2, name: 'second', up: 'CREATE TABLE b (id TEXT)' },
+        ],
+      } satisfies DatabaseHostOptions,
+      (p) => progress.push(p)
+    );
+
+    cleanups.push(() => connection.close());
+
+    expect(progress).toEqual([
+      { step: 'opening' },
+      { step: 'migrating', version: 1, name: 'first', done: 0, total: 2 },
+      { step: 'migrating', version: 2, name: 'second', done: 1, total: 2 },
+    ]);
+  });
+});
+
+describe('errors', () => {
+  it('recreate SQLite errors as instances of their class', async () => {
+    const [connection] = await serve();
+
+    const parseError = await connection
+      .exec({ sql: 'SELEC 1' })
+      .catch((e) => e);
+
+    expect(parseError).toBeInstanceOf(SqlParseError);
+    expect(parseError).toBeInstanceOf(SqliteError);
+    expect(parseError).toBeInstanceOf(Error);
+    expect(parseError).toMatchObject({
+      name: 'SqlParseError',
+      code: 'SQLITE_ERROR',
+      resultCode: 1,
+      sql: 'SELEC 1',
+    });
+
+    await connection.writeRecordMap(counter('a', 1));
+
+    const constraintError = await connection
+      .exec({ sql: `INSERT INTO counter (id, value) VALUES ('a', 2)` })
+      .catch((e) => e);
+
+    expect(constraintError).toBeInstanceOf(ConstraintError);
+    expect(constraintError.code).toBe('SQLITE_CONSTRAINT_PRIMARYKEY');
+  });
+
+  it('recreate errors held in properties such as cause', async () => {
+    const [connection] = await serve();
+
+    const writeError = await connection
+      .writeRecordMap(counter('a', null as unknown as number))
+      .catch((e) => e);
+
+    expect(writeError).toBeInstanceOf(RecordWriteError);
+    expect(writeError).toMatchObject({ table: 'counter', recordId: 'a' });
+    expect(writeError.cause).toBeInstanceOf(ConstraintError);
+    expect(writeError.cause.code).toBe('SQLITE_CONSTRAINT_NOTNULL');
+
+    const tableNamesError = await connection
+      .getQueryTableNames('SELECT * FROM missing')
+      .catch((e) => e);
+
+    expect(tableNamesError).toBeInstanceOf(QueryTableNamesError);
+    expect(tableNamesError.sql).toBe('SELECT * FROM missing');
+    expect(tableNamesError.cause).toBeInstanceOf(SqlParseError);
+  });
+
+  it('keep the name, message and properties of other errors', async () => {
+    const [serverSide, clientSide] = createInProcessTransportPair();
+    const host = await DatabaseHost.open();
+
+    cleanups.push(() => host.close());
+    cleanups.push(
+      serveDatabase(
+        Object.assign(Object.create(host), {
+          exec: async () => {
+            throw Object.assign(new TypeError('nope'), { detail: [1, 2] });
+          },
+        }),
+        serverSide
+      )
+    );
+
+    const connection = await RpcConnection.connect(clientSide);
+    const error = await connection.exec({ sql: 'SELECT 1' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'TypeError',
+      message: 'nope',
+      detail: [1, 2],
+    });
+  });
+});
+
+describe('changes', () => {
+  it('fan out to every subscriber of every connection', async () => {
+    const [first, second] = await serve(2);
+    const received: [string, DatabaseChange][] = [];
+
+    first.subscribeToChanges((change) => received.push(['first a', change]));
+    first.subscribeToChanges((change) => received.push(['first b', change]));
+    second.subscribeToChanges((change) => received.push(['second', change]));
+
+    await first.writeRecordMap(counter('a', 1));
+    await second.exec({ sql: `UPDATE counter SET value = 2 WHERE id = 'a'` });
+
+    expect(
+      received.map(([subscriber, change]) => [
+        subscriber,
+        change.changes.counter?.a,
+      ])
+    ).toEqual([
+      ['first a', { id: 'a', value: 1 }],
+      ['first b', { id: 'a', value: 1 }],
+      ['second', { id: 'a', value: 1 }],
+      ['first a', { id: 'a', value: 2 }],
+      ['first b', { id: 'a', value: 2 }],
+      ['second', { id: 'a', value: 2 }],
+    ]);
+  });
+
+  it('stop after unsubscribing', async () => {
+    const [connection] = await serve();
+    const received: DatabaseChange[] = [];
+
+    const unsubscribe = connection.subscribeToChanges((change) =>
+      received.push(change)
+    );
+
+    await connection.writeRecordMap(counter('a', 1));
+    unsubscribe();
+    await connection.writeRecordMap(counter('a', 2));
+
+    expect(received).toHaveLength(1);
+  });
+
+  it('arrive before the response to the write which made them', async () => {
+    const [connection] = await serve();
+    let changed = false;
+
+    connection.subscribeToChanges(() => (changed = true));
+    await connection.writeRecordMap(counter('a', 1));
+
+    expect(changed).toBe(true);
+  });
+});
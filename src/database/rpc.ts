@@ -0,0 +1,442 @@
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import {
+  DatabaseChange,
+  DatabaseConnection,
+  InitProgress,
+  SQLiteClientExecProps,
+  SQLiteClientExecResult,
+  TransactionOptions,
+} from './connection';
+import { RecordMap } from './schema';
+import { StorageInfo } from './storage';
+import {
+  ConstraintError,
+  RecordWriteError,
+  SqlParseError,
+  SqliteError,
+} from './errors';
+import { QueryTableNamesError } from './parseTableNames';
+import { MigrationError } from './migrate';
+
+/**
+ * A bidirectional message channel. Messages must be structured-cloneable.
+ * Use `messagePortTransport()` for Web Workers, `MessagePort`s and Node
+ * `worker_threads` ports or `createInProcessTransportPair()` to keep both
+ * sides in the same thread.
+ */
+export interface MessageTransport {
+  postMessage(message: RpcMessage): void;
+  /** @returns a function which removes the listener. */
+  onMessage(listener: (message: RpcMessage) => void): () => void;
+}
+
+export type RpcMessage =
+  | {
+      type: 'request';
+      id: number;
+      method: RpcMethod;
+      args: unknown[];
+    }
+  | { type: 'response'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: SerializedError }
+  | { type: 'change'; change: DatabaseChange }
+  | { type: 'progress'; progress: InitProgress };
+
+type RpcMethod =
+  | 'ready'
+  | 'exec'
+  | 'writeRecordMap'
+  | 'getQueryTableNames'
+  | 'beginTransaction'
+  | 'commitTransaction'
+  | 'rollbackTransaction'
+  | 'exportSnapshot'
+  | 'importSnapshot'
+  | 'exportRecordMap'
+  | 'importRecordMap'
+  | 'getStorageInfo'
+  | 'close';
+
+type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+  properties: { [key: string]: unknown };
+  /** Properties which are errors themselves, such as `cause`. */
+  errorProperties?: { [key: string]: SerializedError };
+};
+
+/**
+ * Errors which are recreated as instances of their class on the other side
+ * of the transport so that `instanceof` checks work there. Other errors
+ * arrive as plain `Error`s with the original `name`.
+ */
+const ERROR_CLASSES: { [name: string]: { prototype: Error } } = {
+  SqliteError,
+  SqlParseError,
+  ConstraintError,
+  RecordWriteError,
+  QueryTableNamesError,
+  MigrationError,
+};
+
+/**
+ * Anything which looks like a `MessagePort`. This includes `Worker`, the
+ * global scope inside a worker and Node's `worker_threads` `MessagePort`.
+ */
+export interface MessageEndpoint {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void
+  ): void;
+  removeEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void
+  ): void;
+  start?(): void;
+}
+
+export function messagePortTransport(
+  endpoint: MessageEndpoint
+): MessageTransport {
+  return {
+    postMessage: (message) => endpoint.postMessage(message),
+    onMessage: (listener) => {
+      const handler = (event: { data: unknown }) =>
+        listener(event.data as RpcMessage);
+
+      endpoint.addEventListener('message', handler);
+      // MessagePort's don't deliver messages until started
+      endpoint.start?.();
+
+      return () => endpoint.removeEventListener('message', handler);
+    },
+  };
+}
+
+/**
+ * @returns two connected transports. Messages are cloned and delivered
+ *   asynchronously, like they would be when crossing a thread boundary.
+ */
+export function createInProcessTransportPair(): [
+  MessageTransport,
+  MessageTransport,
+] {
+  const listeners = [
+    new Set<(message: RpcMessage) => void>(),
+    new Set<(message: RpcMessage) => void>(),
+  ];
+
+  const transport = (side: 0 | 1): MessageTransport => ({
+    postMessage: (message) => {
+      const clone = structuredClone(message);
+
+      queueMicrotask(() => {
+        for (const listener of listeners[side === 0 ? 1 : 0]) {
+          listener(clone);
+        }
+      });
+    },
+    onMessage: (listener) => {
+      listeners[side].add(listener);
+      return () => listeners[side].delete(listener);
+    },
+  });
+
+  return [transport(0), transport(1)];
+}
+
+/**
+ * Serves a database connection (usually a `DatabaseHost`) to an
+ * `RpcConnection` on the other side of the transport. Requests which arrive
+ * before `connection` resolves are answered once it does.
+ *
+ * @param connection the connection to serve or a function which opens it.
+ *   The function receives the `options` passed to `RpcConnection.connect()`
+ *   and a callback which sends its progress to the client.
+ * @returns a function which stops serving.
+ */
+export function serveDatabase<Options>(
+  connection:
+    | DatabaseConnection
+    | Promise<DatabaseConnection>
+    | ((
+        options: Options,
+        onProgress: (progress: InitProgress) => void
+      ) => Promise<DatabaseConnection>),
+  transport: MessageTransport
+) {
+  let connectionPromise: Promise<DatabaseConnection> | undefined;
+  let unsubscribeFromChanges: (() => void) | undefined;
+
+  const open = (options: Options) => {
+    if (connectionPromise) return connectionPromise;
+
+    connectionPromise =
+      typeof connection === 'function'
+        ? connection(options, (progress) =>
+            transport.postMessage({ type: 'progress', progress })
+          )
+        : Promise.resolve(connection);
+
+    connectionPromise.then(
+      (connection) => {
+        unsubscribeFromChanges = connection.subscribeToChanges((change) =>
+          transport.postMessage({ type: 'change', change })
+        );
+      },
+      // the error is reported in response to the client's requests
+      () => {}
+    );
+
+    return connectionPromise;
+  };
+
+  if (typeof connection !== 'function') open(undefined as Options);
+
+  const stopListening = transport.onMessage(async (message) => {
+    if (message.type !== 'request') return;
+
+    try {
+      if (message.method !== 'ready' && !connectionPromise) {
+        throw new Error(
+          'The database has not been opened. Use RpcConnection.connect().'
+        );
+      }
+
+      const connection = await open(message.args[0] as Options);
+
+      const result =
+        message.method === 'ready'
+          ? undefined
+          : await (
+              connection[message.method] as (...args: unknown[]) => unknown
+            ).apply(connection, message.args);
+
+      transport.postMessage({ type: 'response', id: message.id, result });
+    } catch (e) {
+      transport.postMessage({
+        type: 'error',
+        id: message.id,
+        error: serializeError(e),
+      });
+    }
+  });
+
+  return () => {
+    stopListening();
+    unsubscribeFromChanges?.();
+  };
+}
+
+/**
+ * A `DatabaseConnection` to a database served with `serveDatabase()`,
+ * typically from a Web Worker.
+ */
+export class RpcConnection implements DatabaseConnection {
+  /**
+   * Resolves once the database on the other side of the transport has been
+   * opened. Rejects if opening it failed.
+   *
+   * @param options passed to the function given to `serveDatabase()`. They
+   *   must be structured-cloneable.
+   * @param onProgress told what opening the database is doing.
+   */
+  static async connect(
+    transport: MessageTransport,
+    options?: unknown,
+    onProgress?: (progress: InitProgress) => void
+  ) {
+    const connection = new RpcConnection(transport);
+
+    const stopListening =
+      onProgress &&
+      transport.onMessage((message) => {
+        if (message.type === 'progress') onProgress(message.progress);
+      });
+
+    try {
+      await connection.request('ready', [options]);
+    } finally {
+      stopListening?.();
+    }
+
+    return connection;
+  }
+
+  private requestCount = 0;
+
+  private pendingRequests = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: unknown) => void }
+  >();
+
+  private changeSubscriptions = new Set<(change: DatabaseChange) => void>();
+
+  private stopListening: () => void;
+
+  private constructor(private transport: MessageTransport) {
+    this.stopListening = transport.onMessage((message) =>
+      this.handleMessage(message)
+    );
+  }
+
+  exec<T = { [columnName: string]: SqlValue }>(args: SQLiteClientExecProps) {
+    return this.request('exec', [args]) as Promise<SQLiteClientExecResult<T>>;
+  }
+
+  writeRecordMap(recordMap: RecordMap, options?: TransactionOptions) {
+    return this.request('writeRecordMap', [
+      recordMap,
+      options,
+    ]) as Promise<void>;
+  }
+
+  getQueryTableNames(sql: string) {
+    return this.request('getQueryTableNames', [sql]) as Promise<string[]>;
+  }
+
+  beginTransaction() {
+    return this.request('beginTransaction', []) as Promise<string>;
+  }
+
+  commitTransaction(transactionId: string) {
+    return this.request('commitTransaction', [
+      transactionId,
+    ]) as Promise<DatabaseChange | null>;
+  }
+
+  rollbackTransaction(transactionId: string) {
+    return this.request('rollbackTransaction', [
+      transactionId,
+    ]) as Promise<void>;
+  }
+
+  subscribeToChanges(callback: (change: DatabaseChange) => void) {
+    this.changeSubscriptions.add(callback);
+
+    return () => {
+      this.changeSubscriptions.delete(callback);
+    };
+  }
+
+  exportSnapshot() {
+    return this.request('exportSnapshot', []) as Promise<Uint8Array>;
+  }
+
+  importSnapshot(snapshot: Uint8Array) {
+    return this.request('importSnapshot', [snapshot]) as Promise<void>;
+  }
+
+  exportRecordMap(options?: TransactionOptions) {
+    return this.request('exportRecordMap', [options]) as Promise<RecordMap>;
+  }
+
+  importRecordMap(recordMap: RecordMap, options?: TransactionOptions) {
+    return this.request('importRecordMap', [
+      recordMap,
+      options,
+    ]) as Promise<void>;
+  }
+
+  getStorageInfo() {
+    return this.request('getStorageInfo', []) as Promise<StorageInfo>;
+  }
+
+  async close() {
+    try {
+      await this.request('close', []);
+    } finally {
+      this.stopListening();
+      this.changeSubscriptions.clear();
+    }
+  }
+
+  private request(method: RpcMethod, args: unknown[]) {
+    const id = ++this.requestCount;
+
+    return new Promise<unknown>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      this.transport.postMessage({ type: 'request', id, method, args });
+    });
+  }
+
+  private handleMessage(message: RpcMessage) {
+    switch (message.type) {
+      case 'change': {
+        for (const callback of this.changeSubscriptions) {
+          callback(message.change);
+        }
+
+        return;
+      }
+      case 'response':
+      case 'error': {
+        const request = this.pendingRequests.get(message.id);
+
+        if (!request) return;
+
+        this.pendingRequests.delete(message.id);
+
+        if (message.type === 'response') {
+          request.resolve(message.result);
+        } else {
+          request.reject(deserializeError(message.error));
+        }
+
+        return;
+      }
+    }
+  }
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error), properties: {} };
+  }
+
+  const properties: { [key: string]: unknown } = {};
+  const errorProperties: { [key: string]: SerializedError } = {};
+
+  for (const [key, value] of Object.entries(error)) {
+    if (value instanceof Error) {
+      errorProperties[key] = serializeError(value);
+      continue;
+    }
+
+    try {
+      properties[key] = structuredClone(value);
+    } catch {
+      // skip properties which can't cross the boundary
+    }
+  }
+
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    properties,
+    errorProperties,
+  };
+}
+
+function deserializeError(serialized: SerializedError): Error {
+  const ErrorClass = ERROR_CLASSES[serialized.name];
+
+  // the class's constructor isn't called since its arguments aren't known
+  const error: Error = ErrorClass
+    ? Object.create(ErrorClass.prototype)
+    : new Error(serialized.message);
+
+  error.message = serialized.message;
+  Object.assign(error, serialized.properties);
+
+  for (const [key, value] of Object.entries(serialized.errorProperties ?? {})) {
+    Object.assign(error, { [key]: deserializeError(value) });
+  }
+
+  error.name = serialized.name;
+  if (serialized.stack) error.stack = serialized.stack;
+  return error;
+}
@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChangeScheduler, mergeChanges } from './scheduler';
+import { DatabaseChange } from './connection';
+import { RecordMap } from './schema';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** A change which sets each counter in `values`. */
+const change = (values: { [id: string]: number | null }): DatabaseChange => ({
+  tableNames: ['counter'],
+  changes: {
+    counter: Object.fromEntries(
+      Object.entries(values).map(([id, value]) => [
+        id,
+        value === null ? null : { id, value },
+      ])
+    ),
+  } as RecordMap,
+  rowChanges: Object.entries(values).map(([id, value]) => ({
+    table: 'counter',
+    id,
+    rowId: null,
+    operation: value === null ? 'delete' : 'insert',
+    record: value === null ? null : { id, value },
+    previousRecord: null,
+  })),
+});
+
+describe('mergeChanges', () => {
+  it("keeps each record's latest value and every row change in order", () => {
+    const first = change({ a: 1, b: 1 });
+    const second = change({ a: 2 });
+    const third = change({ b: null });
+
+    expect(mergeChanges([first, second, third])).toEqual({
+      tableNames: ['counter'],
+      changes: { counter: { a: { id: 'a', value: 2 }, b: null } },
+      rowChanges: [
+        ...first.rowChanges,
+        ...second.rowChanges,
+        ...third.rowChanges,
+      ],
+    });
+  });
+
+  it('returns a single change as it is', () => {
+    const only = change({ a: 1 });
+
+    expect(mergeChanges([only])).toBe(only);
+  });
+});
+
+describe('ChangeScheduler', () => {
+  it('merges the changes made within a microtask', async () => {
+    const scheduler = new ChangeScheduler();
+    const received: DatabaseChange[] = [];
+
+    scheduler.subscribe((change) => received.push(change));
+
+    scheduler.push(change({ a: 1 }));
+    scheduler.push(change({ a: 2, b: 1 }));
+
+    expect(received).toEqual([]);
+
+    await Promise.resolve();
+
+    expect(received).toEqual([
+      mergeChanges([change({ a: 1 }), change({ a: 2, b: 1 })]),
+    ]);
+
+    scheduler.push(change({ a: 3 }));
+    await Promise.resolve();
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('merges the changes made within a timeout', () => {
+    vi.useFakeTimers();
+
+    const scheduler = new ChangeScheduler({ visible: { timeout: 50 } });
+    const received: DatabaseChange[] = [];
+
+    scheduler.subscribe((change) => received.push(change));
+
+    scheduler.push(change({ a: 1 }));
+    vi.advanceTimersByTime(30);
+    scheduler.push(change({ a: 2 }));
+    vi.advanceTimersByTime(19);
+
+    expect(received).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].rowChanges).toHaveLength(2);
+  });
+
+  it('delivers each change right away in a sync window', () => {
+    const scheduler = new ChangeScheduler({ visible: 'sync' });
+    const received: DatabaseChange[] = [];
+
+    scheduler.subscribe((change) => received.push(change));
+
+    scheduler.push(change({ a: 1 }));
+    scheduler.push(change({ a: 2 }));
+
+    expect(received).toEqual([change({ a: 1 }), change({ a: 2 })]);
+  });
+
+  it('delivers the visible lane before the background lane', () => {
+    vi.useFakeTimers();
+
+    const scheduler = new ChangeScheduler({
+      visible: { timeout: 10 },
+      background: { timeout: 10 },
+    });
+    const order: string[] = [];
+
+    scheduler.subscribe(() => order.push('background'), 'background');
+    scheduler.subscribe(() => order.push('visible'), 'visible');
+
+    scheduler.push(change({ a: 1 }));
+    vi.advanceTimersByTime(10);
+
+    scheduler.push(change({ a: 2 }));
+    scheduler.flush();
+
+    expect(order).toEqual(['visible', 'background', 'visible', 'background']);
+  });
+
+  it('delivers background changes later by default', async () => {
+    vi.useFakeTimers();
+
+    const scheduler = new ChangeScheduler();
+    const order: string[] = [];
+
+    scheduler.subscribe(() => order.push('background'), 'background');
+    scheduler.subscribe(() => order.push('visible'));
+
+    scheduler.push(change({ a: 1 }));
+    await Promise.resolve();
+
+    expect(order).toEqual(['visible']);
+
+    vi.advanceTimersByTime(100);
+
+    expect(order).toEqual(['visible', 'background']);
+  });
+
+  it('uses a custom window to decide when to flush', () => {
+    let flush!: () => void;
+    const cancel = vi.fn();
+
+    const scheduler = new ChangeScheduler({
+      visible: (f) => {
+        flush = f;
+        return cancel;
+      },
+    });
+    const received: DatabaseChange[] = [];
+
+    scheduler.subscribe((change) => received.push(change));
+    scheduler.push(change({ a: 1 }));
+    scheduler.push(change({ a: 2 }));
+    flush();
+
+    expect(received).toHaveLength(1);
+    expect(cancel).toHaveBeenCalledOnce();
+  });
+
+  it("doesn't hold changes for lanes without subscribers", async () => {
+    const scheduler = new ChangeScheduler();
+    const received: DatabaseChange[] = [];
+
+    scheduler.push(change({ a: 1 }));
+    scheduler.subscribe((change) => received.push(change));
+    scheduler.push(change({ a: 2 }));
+    await Promise.resolve();
+
+    expect(received).toEqual([change({ a: 2 })]);
+  });
+
+  it('drops pending changes and subscribers when closed', async () => {
+    vi.useFakeTimers();
+
+    const scheduler = new ChangeScheduler();
+    const received: DatabaseChange[] = [];
+
+    scheduler.subscribe((change) => received.push(change));
+    scheduler.subscribe((change) => received.push(change), 'background');
+
+    scheduler.push(change({ a: 1 }));
+    scheduler.close();
+
+    await Promise.resolve();
+    vi.advanceTimersByTime(100);
+    scheduler.push(change({ a: 2 }));
+    scheduler.flush();
+
+    expect(received).toEqual([]);
+  });
+});
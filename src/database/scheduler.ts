@@ -0,0 +1,185 @@
+import { DatabaseChange } from './connection';
+
+/**
+ * Subscribers in the `visible` lane (the default) are used for what's on
+ * screen. Those in the `background` lane, e.g. prefetching or analytics,
+ * may be told about changes later so that they don't compete with it.
+ */
+export type ChangePriority = 'visible' | 'background';
+
+/**
+ * How long a lane collects changes before delivering them:
+ *
+ * - `sync` delivers each change as soon as it's made, without merging.
+ * - `microtask` delivers once the code which made the changes yields, so
+ *   that writes made one after another arrive together.
+ * - `animationFrame` delivers before the next frame is painted. Where
+ *   there are no animation frames (e.g. Node) it waits 16ms.
+ * - `{ timeout }` delivers after that many milliseconds.
+ * - A function is called with `flush` when a lane receives its first
+ *   change. It calls `flush` to end the window and returns a function
+ *   which cancels it.
+ */
+export type EmissionWindow =
+  | 'sync'
+  | 'microtask'
+  | 'animationFrame'
+  | { timeout: number }
+  | ((flush: () => void) => () => void);
+
+export type ChangeSchedulerOptions = {
+  /** Defaults to `microtask`. */
+  visible?: EmissionWindow;
+  /** Defaults to `{ timeout: 100 }`. */
+  background?: EmissionWindow;
+};
+
+type Lane = {
+  window: EmissionWindow;
+  subscribers: Set<(change: DatabaseChange) => void>;
+  pending: DatabaseChange[];
+  cancel?: () => void;
+};
+
+/**
+ * Collects the changes made to the database and delivers them to each
+ * lane's subscribers as one merged `DatabaseChange` per window (see
+ * `EmissionWindow`), rather than calling every subscriber inside every
+ * write. The `visible` lane is delivered before the `background` lane when
+ * both are due at once.
+ */
+export class ChangeScheduler {
+  private lanes: { [P in ChangePriority]: Lane };
+
+  constructor(options: ChangeSchedulerOptions = {}) {
+    this.lanes = {
+      visible: createLane(options.visible ?? 'microtask'),
+      background: createLane(options.background ?? { timeout: 100 }),
+    };
+  }
+
+  /** @returns a function which unsubscribes. */
+  subscribe(
+    callback: (change: DatabaseChange) => void,
+    priority: ChangePriority = 'visible'
+  ) {
+    const { subscribers } = this.lanes[priority];
+    subscribers.add(callback);
+
+    return () => {
+      subscribers.delete(callback);
+    };
+  }
+
+  push(change: DatabaseChange) {
+    for (const lane of Object.values(this.lanes)) {
+      if (lane.subscribers.size === 0) continue;
+
+      lane.pending.push(change);
+
+      if (lane.window === 'sync') {
+        this.flushLane(lane);
+      } else if (!lane.cancel) {
+        const cancel = schedule(lane.window, () => this.flushLane(lane));
+
+        // unless a custom window flushed right away
+        if (lane.pending.length > 0) lane.cancel = cancel;
+      }
+    }
+  }
+
+  /** Delivers every pending change now. */
+  flush() {
+    for (const lane of Object.values(this.lanes)) this.flushLane(lane);
+  }
+
+  /** Drops pending changes and every subscriber. */
+  close() {
+    for (const lane of Object.values(this.lanes)) {
+      lane.cancel?.();
+      lane.cancel = undefined;
+      lane.pending = [];
+      lane.subscribers.clear();
+    }
+  }
+
+  private flushLane(lane: Lane) {
+    lane.cancel?.();
+    lane.cancel = undefined;
+
+    if (lane.pending.length === 0) return;
+
+    const change = mergeChanges(lane.pending);
+    lane.pending = [];
+
+    for (const callback of Array.from(lane.subscribers)) {
+      // it may have been unsubscribed by an earlier subscriber
+      if (!lane.subscribers.has(callback)) continue;
+
+      try {
+        callback(change);
+      } catch (e) {
+        // reported without stopping the other subscribers
+        queueMicrotask(() => {
+          throw e;
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Combines changes into one, as if they were made in a single transaction.
+ * `changes` holds each record's latest value and `rowChanges` every change
+ * in order.
+ */
+export function mergeChanges(changes: DatabaseChange[]): DatabaseChange {
+  if (changes.length === 1) return changes[0];
+
+  const tableNames = new Set<string>();
+  const records: { [table: string]: { [id: string]: unknown } } = {};
+
+  for (const change of changes) {
+    for (const table of change.tableNames) tableNames.add(table);
+
+    for (const [table, changed] of Object.entries(change.changes)) {
+      Object.assign((records[table] ||= {}), changed);
+    }
+  }
+
+  return {
+    tableNames: Array.from(tableNames),
+    changes: records as DatabaseChange['changes'],
+    rowChanges: changes.flatMap((change) => change.rowChanges),
+  };
+}
+
+function createLane(window: EmissionWindow): Lane {
+  return { window, subscribers: new Set(), pending: [] };
+}
+
+/** @returns a function which cancels. */
+function schedule(
+  window: Exclude<EmissionWindow, 'sync'>,
+  flush: () => void
+): () => void {
+  if (typeof window === 'function') return window(flush);
+
+  if (window === 'microtask') {
+    let cancelled = false;
+    queueMicrotask(() => cancelled || flush());
+    return () => (cancelled = true);
+  }
+
+  if (
+    window === 'animationFrame' &&
+    typeof requestAnimationFrame === 'function'
+  ) {
+    const handle = requestAnimationFrame(flush);
+    return () => cancelAnimationFrame(handle);
+  }
+
+  const timeout = window === 'animationFrame' ? 16 : window.timeout;
+  const handle = setTimeout(flush, timeout);
+  return () => clearTimeout(handle);
+}
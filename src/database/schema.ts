@@ -1,54 +1,62 @@
-export const schema = `
-CREATE TABLE counter (
-    id TEXT PRIMARY KEY,
-    value INTEGER NOT NULL DEFAULT 0
-);
-
-CREATE TABLE thread (
-  id TEXT PRIMARY KEY,
-  subject TEXT NOT NULL
-);
-
-CREATE TABLE message (
-  id TEXT PRIMARY KEY,
-  thread_id TEXT NOT NULL,
-  content TEXT NOT NULL
-);
-`;
-
-export type TableToRecord = {
-  counter: CounterRecord;
-  thread: ThreadRecord;
-  thread_message: ThreadMessageRecord;
-  message: MessageRecord;
-};
-
-export type CounterRecord = {
-  id: string;
-  value: number;
-};
-
-export type ThreadRecord = {
-  id: string;
-  subject: string;
-};
-
-export type ThreadMessageRecord = {
-  id: string;
-  thread_id: string;
-  message_id: string;
-};
-
-export type MessageRecord = {
-  id: string;
-  content: string;
-};
+import {
+  RecordsFromSchema,
+  SchemaDefinition,
+  SearchIndexesDefinition,
+} from './defineSchema';
+
+/**
+ * The single source of truth for our tables. The record types and
+ * `upsertRecordSql` are derived from this definition and the database built
+ * by `./migrations` is checked against it at startup.
+ */
+export const tables = {
+  counter: {
+    columns: {
+      id: { type: 'TEXT' },
+      value: { type: 'INTEGER', default: 0 },
+    },
+  },
+  thread: {
+    columns: {
+      id: { type: 'TEXT' },
+      subject: { type: 'TEXT' },
+    },
+  },
+  message: {
+    columns: {
+      id: { type: 'TEXT' },
+      thread_id: { type: 'TEXT' },
+      content: { type: 'TEXT' },
+    },
+  },
+} as const satisfies SchemaDefinition;
+
+/**
+ * FTS5 full-text indexes over our tables, used by `observeSearch()`. Like
+ * tables, each needs a migration which creates it (along with the triggers
+ * which keep it in sync with its table) and is checked at startup.
+ */
+export const searchIndexes = {
+  message_fts: { table: 'message', columns: ['content'] },
+  thread_fts: { table: 'thread', columns: ['subject'] },
+} as const satisfies SearchIndexesDefinition;
+
+export type TableToRecord = RecordsFromSchema<typeof tables>;
+
+export type CounterRecord = TableToRecord['counter'];
+export type ThreadRecord = TableToRecord['thread'];
+export type MessageRecord = TableToRecord['message'];
 
 export type RecordTable = keyof TableToRecord;
+export type SearchIndex = keyof typeof searchIndexes;
 export type RecordValue<T extends RecordTable> = TableToRecord[T];
 
+/**
+ * A `null` value is a tombstone. When passed to `writeRecordMap` it deletes
+ * the record and in a `DatabaseChange` it means the record was deleted.
+ */
 export type RecordMap = {
-  [Table in RecordTable]: {
-    [recordId: string]: RecordValue<Table>;
+  [Table in RecordTable]?: {
+    [recordId: string]: RecordValue<Table> | null;
   };
 };
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import { searchStatement, toMatchQuery } from './search';
+import { MessageRecord, RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+const messages = (contents: { [id: string]: string | null }) =>
+  ({
+    message: Object.fromEntries(
+      Object.entries(contents).map(([id, content]) => [
+        id,
+        content === null ? null : { id, thread_id: 't1', content },
+      ])
+    ),
+  }) as RecordMap;
+
+async function createSearchClient(contents: { [id: string]: string }) {
+  const client = await createClient();
+  await client.writeRecordMap(messages(contents));
+  return client;
+}
+
+describe('toMatchQuery', () => {
+  it('quotes every word and makes the last one a prefix', () => {
+    expect(toMatchQuery('hello wor')).toBe('"hello" "wor"*');
+    expect(toMatchQuery('  spaced\tout\n ')).toBe('"spaced" "out"*');
+  });
+
+  it('escapes quotes and FTS5 syntax', () => {
+    expect(toMatchQuery('say "hi"')).toBe('"say" """hi"""*');
+    expect(toMatchQuery('a OR b NEAR(c) -d col:e*')).toBe(
+      '"a" "OR" "b" "NEAR(c)" "-d" "col:e*"*'
+    );
+  });
+
+  it('returns null without any words', () => {
+    expect(toMatchQuery('')).toBe(null);
+    expect(toMatchQuery('   ')).toBe(null);
+  });
+});
+
+describe('searchStatement', () => {
+  it('returns null for a blank query', () => {
+    expect(searchStatement('message_fts', ' ')).toBe(null);
+    expect(searchStatement('message_fts', ' ', { raw: true })).toBe(null);
+  });
+
+  it('binds the query rather than inlining it', () => {
+    const statement = searchStatement('message_fts', `it's`)!;
+
+    expect(statement.sql).not.toContain(`it's`);
+    expect(statement.values).toContain(`"it's"*`);
+  });
+});
+
+describe('search', () => {
+  it('finds records containing every word, best match first', async () => {
+    const client = await createSearchClient({
+      m1: 'the release is planned',
+      m2: 'release release release',
+      m3: 'nothing to see',
+    });
+
+    const results = await client.search('message_fts', 'release');
+
+    expect(results.map(({ record }) => record.id)).toEqual(['m2', 'm1']);
+    expect(results[0].rank).toBeLessThan(results[1].rank);
+    expect(results[0].record).toEqual<MessageRecord>({
+      id: 'm2',
+      thread_id: 't1',
+      content: 'release release release',
+    });
+
+    expect(
+      (await client.search('message_fts', 'release plan')).map(
+        ({ record }) => record.id
+      )
+    ).toEqual(['m1']);
+  });
+
+  it("treats FTS5 syntax as words unless it's raw", async () => {
+    const client = await createSearchClient({
+      m1: 'cats',
+      m2: 'dogs',
+    });
+
+    expect(await client.search('message_fts', 'cats OR dogs')).toEqual([]);
+    expect(await client.search('message_fts', '"unbalanced')).toEqual([]);
+
+    const raw = await client.search('message_fts', 'cats OR dogs', {
+      raw: true,
+    });
+    expect(raw.map(({ record }) => record.id).sort()).toEqual(['m1', 'm2']);
+  });
+
+  it('returns highlighted snippets', async () => {
+    const client = await createSearchClient({
+      m1: 'one two three four five six seven eight nine ten eleven twelve search thirteen',
+    });
+
+    const [defaults] = await client.search('message_fts', 'search');
+    expect(defaults.snippets).toEqual({
+      content:
+        '…five six seven eight nine ten eleven twelve <mark>search</mark> thirteen',
+    });
+
+    const [custom] = await client.search('message_fts', 'search', {
+      snippet: { before: '[', after: ']', ellipsis: '...', tokens: 3 },
+    });
+    expect(custom.snippets).toEqual({ content: '...twelve [search] thirteen' });
+  });
+
+  it('limits the number of results', async () => {
+    const client = await createSearchClient({
+      m1: 'match',
+      m2: 'match',
+      m3: 'match',
+    });
+
+    expect(
+      await client.search('message_fts', 'match', { limit: 2 })
+    ).toHaveLength(2);
+  });
+});
+
+describe('observeSearch', () => {
+  it('emits again when an indexed record changes', async () => {
+    const client = await createSearchClient({ m1: 'hello world' });
+    const results: string[][] = [];
+
+    const subscription = client
+      .observeSearch('message_fts', 'hello')
+      .subscribe((value) =>
+        results.push(value.map(({ record }) => record.content))
+      );
+
+    await vi.waitFor(() => expect(results).toEqual([['hello world']]));
+
+    await client.writeRecordMap(messages({ m2: 'hello again' }));
+    await vi.waitFor(() => expect(results).toHaveLength(2));
+
+    await client.writeRecordMap(messages({ m1: 'goodbye world' }));
+    await vi.waitFor(() => expect(results).toHaveLength(3));
+
+    await client.writeRecordMap(messages({ m2: null }));
+    await vi.waitFor(() => expect(results).toHaveLength(4));
+
+    expect(results.slice(1)).toEqual([
+      ['hello world', 'hello again'],
+      ['hello again'],
+      [],
+    ]);
+
+    subscription.unsubscribe();
+  });
+
+  it('emits [] right away for a blank query', async () => {
+    const client = await createClient();
+    const results: unknown[] = [];
+
+    client
+      .observeSearch('message_fts', '  ')
+      .subscribe((value) => results.push(value));
+
+    expect(results).toEqual([[]]);
+  });
+});
@@ -0,0 +1,136 @@
+import sql, { join, raw } from 'sql-template-tag';
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { quoteIdentifier } from './changeCapture';
+import { RecordValue, SearchIndex, searchIndexes } from './schema';
+
+export type SearchIndexTable<I extends SearchIndex> =
+  (typeof searchIndexes)[I]['table'];
+
+export type SearchOptions = {
+  /** The most results to return. Defaults to 50. */
+  limit?: number;
+  /**
+   * When `true`, `query` is passed to FTS5 as is so that its full query
+   * syntax (`OR`, `NEAR`, column filters, ...) can be used. Otherwise every
+   * word in `query` must match and the last word may be a prefix, which
+   * suits a search box.
+   */
+  raw?: boolean;
+  /** How snippets are highlighted. */
+  snippet?: {
+    /** Inserted before each match. Defaults to `<mark>`. */
+    before?: string;
+    /** Inserted after each match. Defaults to `</mark>`. */
+    after?: string;
+    /** Marks text left out of the snippet. Defaults to `…`. */
+    ellipsis?: string;
+    /** The most tokens in a snippet, up to 64. Defaults to 10. */
+    tokens?: number;
+  };
+};
+
+export type SearchResult<T> = {
+  record: T;
+  /** FTS5's bm25 rank. Lower is a better match. */
+  rank: number;
+  /** An excerpt of each indexed column around the matches. */
+  snippets: { [column: string]: string };
+};
+
+const RANK_COLUMN = 'search:rank';
+const SNIPPET_COLUMN_PREFIX = 'search:snippet:';
+
+/**
+ * Turns what a user typed into an FTS5 query which matches records
+ * containing every word, treating the last word as a prefix. Each word is
+ * quoted so that FTS5 syntax in the input can't cause errors.
+ *
+ * @returns `null` if there are no words to search for.
+ */
+export function toMatchQuery(text: string) {
+  const words = text.split(/\s+/).filter((word) => word !== '');
+
+  if (words.length === 0) return null;
+
+  return words
+    .map(
+      (word, index) =>
+        `"${word.replace(/"/g, '""')}"${index === words.length - 1 ? '*' : ''}`
+    )
+    .join(' ');
+}
+
+/**
+ * @returns a statement which selects the records of the index's table
+ *   matching `query`, best match first, or `null` if there's nothing to
+ *   search for.
+ */
+export function searchStatement(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {}
+) {
+  const match = options.raw ? query.trim() || null : toMatchQuery(query);
+
+  if (!match) return null;
+
+  const { table, columns } = searchIndexes[index];
+  const {
+    before = '<mark>',
+    after = '</mark>',
+    ellipsis = '…',
+    tokens = 10,
+  } = options.snippet ?? {};
+
+  const indexName = raw(quoteIdentifier(index));
+  const tableName = raw(quoteIdentifier(table));
+
+  const snippets = columns.map((column, i) => {
+    const columnIndex = raw(String(i));
+    const alias = raw(quoteIdentifier(SNIPPET_COLUMN_PREFIX + column));
+    const tokenLimit = Math.min(tokens, 64);
+
+    return sql`
+      snippet(${indexName}, ${columnIndex}, ${before}, ${after}, ${ellipsis}, ${tokenLimit})
+        AS ${alias}
+    `;
+  });
+
+  return sql`
+    SELECT
+      ${tableName}.*,
+      bm25(${indexName}) AS ${raw(quoteIdentifier(RANK_COLUMN))},
+      ${join(snippets)}
+    FROM ${indexName}
+    JOIN ${tableName} ON ${tableName}.rowid = ${indexName}.rowid
+    WHERE ${indexName} MATCH ${match}
+    ORDER BY ${raw(quoteIdentifier(RANK_COLUMN))}
+    LIMIT ${options.limit ?? 50}
+  `;
+}
+
+/** Splits the rows selected by `searchStatement()` into `SearchResult`s. */
+export function toSearchResults<I extends SearchIndex>(
+  rows: {
+    [columnName: string]: SqlValue;
+  }[]
+) {
+  return rows.map((row) => {
+    const record: { [columnName: string]: SqlValue } = {};
+    const snippets: { [column: string]: string } = {};
+
+    for (const [column, value] of Object.entries(row)) {
+      if (column.startsWith(SNIPPET_COLUMN_PREFIX)) {
+        snippets[column.slice(SNIPPET_COLUMN_PREFIX.length)] = String(value);
+      } else if (column !== RANK_COLUMN) {
+        record[column] = value;
+      }
+    }
+
+    return {
+      record: record as RecordValue<SearchIndexTable<I>>,
+      rank: row[RANK_COLUMN] as number,
+      snippets,
+    } satisfies SearchResult<RecordValue<SearchIndexTable<I>>>;
+  });
+}
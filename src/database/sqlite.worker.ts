@@ -0,0 +1,10 @@
+import { DatabaseHost, DatabaseHostOptions } from './DatabaseHost';
+import { MessageEndpoint, messagePortTransport, serveDatabase } from './rpc';
+
+// Hosts the database inside a dedicated worker. See
+// `SQLiteClient.initInWorker()`.
+serveDatabase(
+  (options: DatabaseHostOptions, onProgress) =>
+    DatabaseHost.open({ ...options, onProgress }),
+  messagePortTransport(self as unknown as MessageEndpoint)
+);
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PreparedStatement } from '@sqlite.org/sqlite-wasm';
+import { StatementCache, StatementCacheOptions } from './statementCache';
+import { SqliteError } from './errors';
+import { loadSqlite, openMemoryDatabase } from '../test/sqlite';
+
+async function createCache(options?: StatementCacheOptions) {
+  const sqlite3 = await loadSqlite();
+  const db = await openMemoryDatabase();
+
+  db.exec(`
+    CREATE TABLE item (id TEXT PRIMARY KEY, value INTEGER);
+    INSERT INTO item VALUES ('a', 1), ('b', 2);
+  `);
+
+  const prepared: PreparedStatement[] = [];
+  const prepare = db.prepare.bind(db);
+
+  vi.spyOn(db, 'prepare').mockImplementation((sql) => {
+    const statement = prepare(sql);
+    prepared.push(statement);
+    return statement;
+  });
+
+  /** The SQL of every statement which hasn't been finalized. */
+  const openStatements = () =>
+    prepared
+      .filter((statement) => statement.pointer)
+      .map((statement) => sqlite3.capi.sqlite3_sql(statement))
+      .sort();
+
+  return {
+    db,
+    cache: new StatementCache(db, sqlite3.capi, options),
+    openStatements,
+  };
+}
+
+const select = (id: string) => `SELECT value FROM item WHERE id = '${id}'`;
+
+describe('StatementCache', () => {
+  it('runs queries with bound values', async () => {
+    const { cache } = await createCache();
+
+    expect(cache.exec('SELECT * FROM item WHERE id = ?', ['a'])).toEqual([
+      { id: 'a', value: 1 },
+    ]);
+    expect(
+      cache.exec('SELECT * FROM item WHERE id = $id', { $id: 'b' })
+    ).toEqual([{ id: 'b', value: 2 }]);
+    // the kept statement is reset and bound again
+    expect(cache.exec('SELECT * FROM item WHERE id = ?', ['b'])).toEqual([
+      { id: 'b', value: 2 },
+    ]);
+  });
+
+  it('keeps the most recently used statements', async () => {
+    const { cache, openStatements } = await createCache({ maxStatements: 2 });
+
+    cache.exec(select('a'));
+    cache.exec(select('b'));
+    cache.exec(select('a'));
+    cache.exec(select('c'));
+
+    expect(openStatements()).toEqual([select('a'), select('c')]);
+    expect(cache.exec(select('b'))).toEqual([{ value: 2 }]);
+  });
+
+  it('finalizes every statement when closed', async () => {
+    const { cache, openStatements } = await createCache();
+
+    cache.exec(select('a'));
+    cache.exec(select('b'));
+    cache.close();
+
+    expect(openStatements()).toEqual([]);
+  });
+
+  it("doesn't keep statements when maxStatements is 0", async () => {
+    const { cache, openStatements } = await createCache({ maxStatements: 0 });
+
+    expect(cache.exec(select('a'))).toEqual([{ value: 1 }]);
+    expect(openStatements()).toEqual([]);
+  });
+
+  it('runs SQL with several statements with db.exec()', async () => {
+    const { cache, openStatements } = await createCache();
+
+    const rows = cache.exec(
+      `INSERT INTO item VALUES ('c', 3); SELECT COUNT(*) AS count FROM item`
+    );
+
+    expect(rows).toEqual([{ count: 3 }]);
+    expect(openStatements()).toEqual([]);
+
+    // the first statement is bound
+    cache.exec(
+      `INSERT INTO item VALUES (?, ?); DELETE FROM item WHERE id = 'a'`,
+      ['d', 4]
+    );
+
+    expect(cache.exec('SELECT id FROM item ORDER BY id')).toEqual([
+      { id: 'b' },
+      { id: 'c' },
+      { id: 'd' },
+    ]);
+  });
+
+  it('runs a statement followed by only comments as one statement', async () => {
+    const { cache, openStatements } = await createCache();
+
+    expect(cache.exec(`${select('a')}; -- the first item`)).toEqual([
+      { value: 1 },
+    ]);
+    expect(openStatements()).toHaveLength(1);
+  });
+
+  it('rejects values bound to SQL without parameters whether or not it is kept', async () => {
+    for (const maxStatements of [100, 0]) {
+      const { cache } = await createCache({ maxStatements });
+
+      expect(() => cache.exec(select('a'), ['a'])).toThrow(SqliteError);
+      expect(() => cache.exec(`${select('a')}; ${select('b')}`, ['a'])).toThrow(
+        SqliteError
+      );
+
+      // binding nothing is fine
+      expect(cache.exec(select('a'), [])).toEqual([{ value: 1 }]);
+      expect(cache.exec(select('a'), {})).toEqual([{ value: 1 }]);
+    }
+  });
+
+  it('sees schema changes in kept statements', async () => {
+    const { db, cache } = await createCache();
+
+    expect(cache.exec(`SELECT * FROM item WHERE id = 'a'`)).toEqual([
+      { id: 'a', value: 1 },
+    ]);
+
+    db.exec('ALTER TABLE item ADD COLUMN label TEXT');
+
+    expect(cache.exec(`SELECT * FROM item WHERE id = 'a'`)).toEqual([
+      { id: 'a', value: 1, label: null },
+    ]);
+  });
+
+  it('forgets the tables queries read when the schema changes', async () => {
+    const { db, cache } = await createCache();
+
+    db.exec(`
+      CREATE TABLE other (id TEXT PRIMARY KEY);
+      CREATE VIEW item_view AS SELECT * FROM item;
+    `);
+
+    expect(cache.getQueryTableNames('SELECT * FROM item_view')).toEqual([
+      'item',
+    ]);
+
+    db.exec(`
+      DROP VIEW item_view;
+      CREATE VIEW item_view AS SELECT * FROM other;
+    `);
+
+    expect(cache.getQueryTableNames('SELECT * FROM item_view')).toEqual([
+      'other',
+    ]);
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  BindingSpec,
+  Database,
+  PreparedStatement,
+  SqlValue,
+  Sqlite3Static,
+} from '@sqlite.org/sqlite-wasm';
+import { containsStatement, parseTableNames } from './parseTableNames';
+import { SqliteError } from './errors';
+
+export type StatementCacheOptions = {
+  /**
+   * The most prepared statements to keep. Defaults to 100. `0` prepares
+   * every statement again each time it runs.
+   */
+  maxStatements?: number;
+  /**
+   * The most queries whose table names (see `parseTableNames`) are kept.
+   * Defaults to 500. `0` compiles every query again when it's observed.
+   */
+  maxQueryTableNames?: number;
+};
+
+/**
+ * Keeps what SQLite compiles from SQL text so that the same text isn't
+ * compiled again, which is most of the cost of re-running a small query
+ * such as a live record's `SELECT`.
+ *
+ * Prepared statements are kept by their SQL in least recently used order
+ * and finalized when they're evicted or the cache is closed. SQLite
+ * re-prepares a statement by itself if the schema changes. Only SQL which
+ * is a single statement is kept. Anything else runs with `db.exec()`.
+ *
+ * The tables each observed query reads are kept too, until the schema
+ * changes.
+ */
+export class StatementCache {
+  /**
+   * In least to most recently used order. `null` marks SQL which can't be
+   * kept, e.g. because it's several statements.
+   */
+  private statements = new Map<string, PreparedStatement | null>();
+
+  /** In least to most recently used order. */
+  private queryTableNames = new Map<string, string[]>();
+
+  private schemaVersion = '';
+
+  private maxStatements: number;
+
+  private maxQueryTableNames: number;
+
+  constructor(
+    private db: Database,
+    private capi: Sqlite3Static['capi'],
+    options: StatementCacheOptions = {}
+  ) {
+    this.maxStatements = options.maxStatements ?? 100;
+    this.maxQueryTableNames = options.maxQueryTableNames ?? 500;
+  }
+
+  /**
+   * Runs `sql` like `db.exec()` with `returnValue: 'resultRows'` and
+   * `rowMode: 'object'`. Whether or not the statement is kept, values bound
+   * to SQL without parameters throw rather than being ignored.
+   */
+  exec(sql: string, bind?: BindingSpec) {
+    const statement = this.prepare(sql);
+
+    if (!statement) {
+      // `db.exec()` binds to the first statement with parameters and
+      // ignores `bind` if there isn't one
+      if (hasBindValues(bind) && !this.hasParameters(sql)) {
+        throw noParametersError(this.capi, sql);
+      }
+
+      return this.db.exec({
+        sql,
+        bind,
+        returnValue: 'resultRows',
+        rowMode: 'object',
+      });
+    }
+
+    const rows: { [columnName: string]: SqlValue }[] = [];
+
+    try {
+      if (hasBindValues(bind)) {
+        if (!statement.parameterCount) throw noParametersError(this.capi, sql);
+        statement.bind(bind);
+      }
+
+      while (statement.step()) rows.push(statement.get({}));
+    } finally {
+      try {
+        statement.reset(true);
+      } catch {
+        // reset() repeats the error step() threw
+      }
+    }
+
+    return rows;
+  }
+
+  /** `parseTableNames()` for `sql`, remembered until the schema changes. */
+  getQueryTableNames(sql: string) {
+    if (this.maxQueryTableNames === 0) {
+      return parseTableNames(this.db, this.capi, sql);
+    }
+
+    // `temp` holds e.g. the triggers which capture changes
+    const schemaVersion = ['main', 'temp']
+      .map(
+        (schema) =>
+          this.exec(`PRAGMA ${schema}.schema_version`)[0]?.['schema_version']
+      )
+      .join(':');
+
+    if (schemaVersion !== this.schemaVersion) {
+      this.schemaVersion = schemaVersion;
+      this.queryTableNames.clear();
+    }
+
+    let tableNames = this.queryTableNames.get(sql);
+
+    if (tableNames) {
+      this.queryTableNames.delete(sql);
+    } else {
+      // errors aren't kept since e.g. a missing table may be created
+      tableNames = parseTableNames(this.db, this.capi, sql);
+    }
+
+    this.queryTableNames.set(sql, tableNames);
+
+    if (this.queryTableNames.size > this.maxQueryTableNames) {
+      this.queryTableNames.delete(this.queryTableNames.keys().next().value!);
+    }
+
+    return tableNames;
+  }
+
+  /** Finalizes every statement. */
+  close() {
+    for (const statement of this.statements.values()) statement?.finalize();
+
+    this.statements.clear();
+    this.queryTableNames.clear();
+  }
+
+  /**
+   * Whether any statement in `sql` has parameters. SQL which can't be
+   * prepared statement by statement (e.g. because an earlier statement
+   * creates a table which a later one uses) is assumed to have some.
+   */
+  private hasParameters(sql: string) {
+    let rest = sql;
+
+    while (containsStatement(this.db, rest)) {
+      let statement;
+
+      try {
+        statement = this.db.prepare(rest);
+      } catch {
+        return true;
+      }
+
+      try {
+        if (statement.parameterCount) return true;
+
+        const statementSql = this.capi.sqlite3_sql(statement) ?? '';
+        rest = rest.slice(rest.indexOf(statementSql) + statementSql.length);
+      } finally {
+        statement.finalize();
+      }
+    }
+
+    return false;
+  }
+
+  /** @returns `null` if `sql` has to run with `db.exec()`. */
+  private prepare(sql: string) {
+    if (this.maxStatements === 0) return null;
+
+    let statement = this.statements.get(sql);
+
+    if (statement !== undefined) {
+      this.statements.delete(sql);
+    } else {
+      try {
+        statement = this.db.prepare(sql);
+      } catch {
+        // e.g. a syntax error or only comments. `db.exec()` reports it or
+        // does nothing. It isn't kept since it may compile later.
+        return null;
+      }
+
+      const statementSql = this.capi.sqlite3_sql(statement) ?? '';
+      const rest = sql.slice(sql.indexOf(statementSql) + statementSql.length);
+
+      if (containsStatement(this.db, rest)) {
+        statement.finalize();
+        statement = null;
+      }
+    }
+
+    this.statements.set(sql, statement);
+
+    if (this.statements.size > this.maxStatements) {
+      const [oldestSql, oldest] = this.statements.entries().next().value!;
+      oldest?.finalize();
+      this.statements.delete(oldestSql);
+    }
+
+    return statement;
+  }
+}
+
+/** `undefined`, `null` and empty arrays or objects don't bind anything. */
+function hasBindValues(bind: BindingSpec | undefined): bind is BindingSpec {
+  if (bind === undefined || bind === null) return false;
+  if (Array.isArray(bind)) return bind.length > 0;
+
+  if (
+    typeof bind === 'object' &&
+    !ArrayBuffer.isView(bind) &&
+    !(bind instanceof ArrayBuffer)
+  ) {
+    return Object.keys(bind).length > 0;
+  }
+
+  return true;
+}
+
+function noParametersError(capi: Sqlite3Static['capi'], sql: string) {
+  return new SqliteError(
+    'Values were bound to SQL which has no parameters.',
+    capi.SQLITE_ERROR,
+    'SQLITE_ERROR',
+    sql
+  );
+}
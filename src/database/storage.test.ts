@@ -0,0 +1,198 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+import {
+  SnapshotStore,
+  createMemorySnapshotStore,
+  openDatabase,
+} from './storage';
+import { createFileSnapshotStore } from './fileSnapshotStore';
+import { RecordMap } from './schema';
+import { closeClient, createClient } from '../test/client';
+import { loadSqlite } from '../test/sqlite';
+
+const counter = (id: string, value: number) =>
+  ({ counter: { [id]: { id, value } } }) as RecordMap;
+
+/** Opens a client from `store`, reads its counters and closes it. */
+async function readCounters(store: SnapshotStore) {
+  const client = await createClient({ storage: { type: 'snapshot', store } });
+  const { resultRows } = await client.exec({
+    sql: 'SELECT * FROM counter ORDER BY id',
+  });
+
+  await closeClient(client);
+  return resultRows;
+}
+
+describe('snapshot storage', () => {
+  it('saves the database after it changes', async () => {
+    const store = createMemorySnapshotStore();
+    const save = vi.spyOn(store, 'save');
+
+    const client = await createClient({ storage: { type: 'snapshot', store } });
+
+    expect(await client.getStorageInfo()).toEqual({ type: 'snapshot' });
+    // saved once migrated
+    expect(save).toHaveBeenCalledOnce();
+
+    await client.writeRecordMap(counter('a', 1));
+    await vi.waitFor(() => expect(save).toHaveBeenCalledTimes(2));
+
+    // reading doesn't save
+    await client.exec({ sql: 'SELECT * FROM counter' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(save).toHaveBeenCalledTimes(2);
+
+    expect(await readCounters(store)).toEqual([{ id: 'a', value: 1 }]);
+  });
+
+  it('reports failing to save', async () => {
+    const store = createMemorySnapshotStore();
+    const onStorageError = vi.fn();
+    const error = new Error('disk full');
+
+    const client = await createClient({
+      storage: { type: 'snapshot', store },
+      onStorageError,
+    });
+
+    vi.spyOn(store, 'save').mockRejectedValue(error);
+    await client.writeRecordMap(counter('a', 1));
+
+    await vi.waitFor(() =>
+      expect(onStorageError).toHaveBeenCalledWith(
+        'Failed to persist the database',
+        error
+      )
+    );
+  });
+});
+
+describe('createFileSnapshotStore', () => {
+  it('keeps the snapshot in a file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'observable-sqlite-'));
+    const path = join(directory, 'db.sqlite3');
+
+    try {
+      const store = createFileSnapshotStore(path);
+
+      expect(await store.load()).toBe(null);
+
+      const client = await createClient({
+        storage: { type: 'snapshot', store },
+      });
+
+      await client.writeRecordMap(counter('a', 1));
+      await closeClient(client);
+
+      // a SQLite database file
+      const file = await readFile(path);
+      expect(file.subarray(0, 15).toString()).toBe('SQLite format 3');
+
+      expect(await readCounters(createFileSnapshotStore(path))).toEqual([
+        { id: 'a', value: 1 },
+      ]);
+    } finally {
+      await rm(directory, { recursive: true });
+    }
+  });
+});
+
+describe('openDatabase', () => {
+  it('falls back to memory when the snapshot is corrupt', async () => {
+    const sqlite3 = await loadSqlite();
+    const onError = vi.fn();
+
+    const { db, info } = await openDatabase(
+      sqlite3,
+      {
+        type: 'snapshot',
+        store: createMemorySnapshotStore(new TextEncoder().encode('garbage')),
+      },
+      onError
+    );
+
+    expect(info).toEqual({
+      type: 'memory',
+      fallbackReason: expect.stringMatching(/^Could not load the snapshot: /),
+    });
+    expect(onError).toHaveBeenCalledWith(
+      `Falling back to an in-memory database. ${info.fallbackReason}`,
+      expect.any(Error)
+    );
+    expect(db.selectValue('SELECT 1')).toBe(1);
+
+    db.close();
+  });
+
+  it('falls back to memory when the OPFS database is locked', async () => {
+    const sqlite3 = await loadSqlite();
+    const onError = vi.fn();
+    const locked = new Error('database is locked');
+
+    const { db, info } = await openDatabase(
+      withOpfsDb(sqlite3, () => {
+        throw locked;
+      }),
+      { type: 'opfs', filename: '/db.sqlite3' },
+      onError
+    );
+
+    expect(info).toEqual({
+      type: 'memory',
+      fallbackReason: 'Could not open "/db.sqlite3": database is locked',
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(String), locked);
+
+    db.close();
+  });
+
+  it('falls back to memory without OPFS', async () => {
+    const sqlite3 = await loadSqlite();
+    const onError = vi.fn();
+
+    const { db, info } = await openDatabase(
+      sqlite3,
+      { type: 'opfs', filename: '/db.sqlite3' },
+      onError
+    );
+
+    expect(info.type).toBe('memory');
+    expect(info.fallbackReason).toMatch(/^OPFS is not available/);
+    expect(onError).toHaveBeenCalledOnce();
+
+    db.close();
+  });
+
+  it("doesn't report memory storage", async () => {
+    const sqlite3 = await loadSqlite();
+    const onError = vi.fn();
+
+    const { db, info } = await openDatabase(
+      sqlite3,
+      { type: 'memory' },
+      onError
+    );
+
+    expect(info).toEqual({ type: 'memory' });
+    expect(onError).not.toHaveBeenCalled();
+
+    db.close();
+  });
+});
+
+/** `sqlite3` with an `OpfsDb` class which calls `open` when constructed. */
+function withOpfsDb(sqlite3: Sqlite3Static, open: () => void) {
+  return {
+    ...sqlite3,
+    oo1: {
+      ...sqlite3.oo1,
+      OpfsDb: function OpfsDb() {
+        open();
+      },
+    },
+  } as unknown as Sqlite3Static;
+}
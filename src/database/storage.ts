@@ -0,0 +1,207 @@
+import { Database, Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+
+/**
+ * Where the database is stored.
+ *
+ * - `memory` keeps the database in memory. Nothing survives a reload.
+ * - `opfs` stores the database in the Origin Private File System. OPFS is
+ *   only available inside a worker on a page served with the COOP/COEP
+ *   headers (see `vite.config.ts`).
+ * - `snapshot` keeps the database in memory but loads it from, and saves it
+ *   back to, the provided `SnapshotStore` after every change. This is
+ *   intended for Node (e.g. tests) where OPFS doesn't exist. Use
+ *   `createFileSnapshotStore()` (see `./fileSnapshotStore`) to keep it in a
+ *   file. Since the store contains functions, this option can't be passed
+ *   to a database in a worker.
+ */
+export type DatabaseStorage =
+  | { type: 'memory' }
+  | { type: 'opfs'; filename: string }
+  | { type: 'snapshot'; store: SnapshotStore };
+
+export interface SnapshotStore {
+  /** Resolves to `null` if no snapshot has been saved yet. */
+  load(): Promise<Uint8Array | null>;
+  save(snapshot: Uint8Array): Promise<void>;
+}
+
+export type StorageInfo = {
+  type: DatabaseStorage['type'];
+  /**
+   * Set when the requested storage couldn't be used (e.g. OPFS isn't
+   * available or the persisted database is corrupt or locked by another
+   * connection) and we fell back to an in-memory database.
+   */
+  fallbackReason?: string;
+};
+
+export function createMemorySnapshotStore(
+  snapshot: Uint8Array | null = null
+): SnapshotStore & { readonly snapshot: Uint8Array | null } {
+  return {
+    get snapshot() {
+      return snapshot;
+    },
+    load: async () => snapshot,
+    save: async (value) => {
+      snapshot = value;
+    },
+  };
+}
+
+export type OpenedDatabase = {
+  db: Database;
+  info: StorageInfo;
+  /**
+   * Saves the database if it has changed since it was last saved. Undefined
+   * for storage which persists writes on its own (or not at all).
+   */
+  persist?: () => Promise<void>;
+};
+
+/**
+ * Told about problems with the storage which don't stop the database from
+ * working, e.g. falling back to memory or failing to persist.
+ */
+export type StorageErrorReporter = (message: string, error?: unknown) => void;
+
+/**
+ * @param onError told when the storage can't be used and the database falls
+ *   back to memory. Defaults to `console.warn`.
+ */
+export async function openDatabase(
+  sqlite3: Sqlite3Static,
+  storage: DatabaseStorage = { type: 'memory' },
+  onError: StorageErrorReporter = console.warn
+): Promise<OpenedDatabase> {
+  const fallBackToMemory = (fallbackReason: string, error?: unknown) => {
+    onError(`Falling back to an in-memory database. ${fallbackReason}`, error);
+
+    return openMemoryDatabase(sqlite3, { type: 'memory', fallbackReason });
+  };
+
+  switch (storage.type) {
+    case 'memory': {
+      return openMemoryDatabase(sqlite3, { type: 'memory' });
+    }
+    case 'opfs': {
+      if (!sqlite3.oo1.OpfsDb) {
+        return fallBackToMemory(
+          'OPFS is not available. It requires a worker and a page served ' +
+            'with the COOP/COEP headers.'
+        );
+      }
+
+      let db: Database | undefined;
+
+      try {
+        db = new sqlite3.oo1.OpfsDb(storage.filename, 'c');
+        assertDatabaseIsUsable(db);
+      } catch (e) {
+        db?.close();
+
+        return fallBackToMemory(
+          `Could not open "${storage.filename}": ${errorMessage(e)}`,
+          e
+        );
+      }
+
+      return { db, info: { type: 'opfs' } };
+    }
+    case 'snapshot': {
+      const db = new sqlite3.oo1.DB(':memory:');
+
+      try {
+        const snapshot = await storage.store.load();
+
+        if (snapshot) {
+          deserialize(sqlite3, db, snapshot);
+          assertDatabaseIsUsable(db);
+        }
+      } catch (e) {
+        db.close();
+
+        return fallBackToMemory(
+          `Could not load the snapshot: ${errorMessage(e)}`,
+          e
+        );
+      }
+
+      return {
+        db,
+        info: { type: 'snapshot' },
+        persist: snapshotPersister(sqlite3, db, storage.store),
+      };
+    }
+  }
+}
+
+/**
+ * Replaces the contents of the `main` database with the given snapshot.
+ */
+export function deserialize(
+  sqlite3: Sqlite3Static,
+  db: Database,
+  snapshot: Uint8Array
+) {
+  const { capi, wasm } = sqlite3;
+  const pointer = wasm.allocFromTypedArray(snapshot);
+
+  // With SQLITE_DESERIALIZE_FREEONCLOSE sqlite takes ownership of the memory
+  // (even if deserializing fails).
+  const rc = capi.sqlite3_deserialize(
+    db,
+    'main',
+    pointer,
+    snapshot.byteLength,
+    snapshot.byteLength,
+    capi.SQLITE_DESERIALIZE_FREEONCLOSE | capi.SQLITE_DESERIALIZE_RESIZEABLE
+  );
+
+  db.checkRc(rc);
+}
+
+function openMemoryDatabase(
+  sqlite3: Sqlite3Static,
+  info: StorageInfo
+): OpenedDatabase {
+  return { db: new sqlite3.oo1.DB(':memory:'), info };
+}
+
+function snapshotPersister(
+  sqlite3: Sqlite3Static,
+  db: Database,
+  store: SnapshotStore
+) {
+  let lastSaved: string | null = null;
+
+  return async () => {
+    // Exporting mid-transaction would save uncommitted changes
+    if (sqlite3.capi.sqlite3_txn_state(db, 0) !== 0) return;
+
+    const version = `${db.changes(true)}:${db.selectValue(
+      'PRAGMA main.schema_version'
+    )}`;
+
+    if (version === lastSaved) return;
+
+    lastSaved = version;
+
+    await store.save(sqlite3.capi.sqlite3_js_db_export(db));
+  };
+}
+
+/**
+ * Throws if the database is corrupt, isn't a database or is locked.
+ */
+export function assertDatabaseIsUsable(db: Database) {
+  const result = db.selectValues('PRAGMA quick_check');
+
+  if (result.length !== 1 || result[0] !== 'ok') {
+    throw new Error(`The database is corrupt: ${result.join('; ')}`);
+  }
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
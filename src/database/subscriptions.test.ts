@@ -0,0 +1,194 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  SubscriptionManager,
+  SubscriptionTransport,
+  querySubscriptionKeys,
+  recordSubscriptionKey,
+  subscriptionKey,
+} from './subscriptions';
+import { parseQueryDependencies } from './queryDependencies';
+import { RecordMap } from './schema';
+
+const keys = (sql: string, tableNames: string[], values: unknown[] = []) =>
+  querySubscriptionKeys(parseQueryDependencies(sql, tableNames), values);
+
+describe('querySubscriptionKeys', () => {
+  it('subscribes to the records matching an id filter', () => {
+    expect(
+      keys('SELECT * FROM message WHERE id = $1', ['message'], ['m1'])
+    ).toEqual(['message:m1']);
+    expect(
+      keys(`SELECT * FROM message WHERE id IN ('m1', 'm2')`, ['message'])
+    ).toEqual(['message:m1', 'message:m2']);
+  });
+
+  it('subscribes to the records matching a column filter', () => {
+    expect(
+      keys('SELECT * FROM message WHERE thread_id = ?', ['message'], [7])
+    ).toEqual(['message:thread_id:7']);
+  });
+
+  it('prefers an id filter', () => {
+    expect(
+      keys(
+        'SELECT * FROM message WHERE thread_id = ? AND id = ?',
+        ['message'],
+        ['t1', 'm1']
+      )
+    ).toEqual(['message:m1']);
+  });
+
+  it('subscribes to the whole table without a usable filter', () => {
+    expect(keys('SELECT * FROM message', ['message'])).toEqual(['message']);
+    expect(
+      keys('SELECT * FROM message WHERE thread_id = ?', ['message'], [null])
+    ).toEqual(['message']);
+    expect(
+      keys(
+        'SELECT * FROM message JOIN thread ON thread.id = message.thread_id',
+        ['message', 'thread']
+      )
+    ).toEqual(['message', 'thread']);
+  });
+
+  it('escapes the parts of keys so they cannot collide', () => {
+    const record = recordSubscriptionKey('message', 'thread_id:7');
+    const [column] = keys(
+      'SELECT * FROM message WHERE thread_id = ?',
+      ['message'],
+      [7]
+    );
+
+    expect(record).toBe('message:thread_id%3A7');
+    expect(record).not.toBe(column);
+    expect(subscriptionKey('a%3A', 'b')).toBe('a%253A:b');
+  });
+});
+
+function fakeTransport() {
+  const calls: [string, string[]][] = [];
+  let listener: ((recordMap: RecordMap) => void) | undefined;
+
+  const transport: SubscriptionTransport = {
+    subscribe: (keys) => calls.push(['subscribe', keys]),
+    unsubscribe: (keys) => calls.push(['unsubscribe', keys]),
+    onRecords: (callback) => {
+      listener = callback;
+      return () => (listener = undefined);
+    },
+  };
+
+  return {
+    transport,
+    calls,
+    send: (recordMap: RecordMap) => listener?.(recordMap),
+    isListening: () => listener !== undefined,
+  };
+}
+
+const microtask = () => Promise.resolve();
+
+describe('SubscriptionManager', () => {
+  it('subscribes when a key is first retained and unsubscribes when the last release', async () => {
+    const { transport, calls } = fakeTransport();
+    const manager = new SubscriptionManager(transport, async () => {});
+
+    const releaseA = manager.retain(['a', 'b']);
+    const releaseB = manager.retain(['b', 'c']);
+    await microtask();
+
+    expect(calls).toEqual([['subscribe', ['a', 'b', 'c']]]);
+
+    releaseA();
+    await microtask();
+
+    expect(calls).toEqual([
+      ['subscribe', ['a', 'b', 'c']],
+      ['unsubscribe', ['a']],
+    ]);
+    expect(manager.getSubscribedKeys()).toEqual(['b', 'c']);
+
+    // releasing twice doesn't count twice
+    releaseA();
+    releaseB();
+    await microtask();
+
+    expect(calls[2]).toEqual(['unsubscribe', ['b', 'c']]);
+  });
+
+  it('sends the changes made within a microtask at once', async () => {
+    const { transport, calls } = fakeTransport();
+    const manager = new SubscriptionManager(transport, async () => {});
+
+    const release = manager.retain(['a']);
+    await microtask();
+
+    // e.g. a component remounting
+    release();
+    manager.retain(['a']);
+    manager.retain(['b']);
+    await microtask();
+
+    expect(calls).toEqual([
+      ['subscribe', ['a']],
+      ['subscribe', ['b']],
+    ]);
+  });
+
+  it('retains keys once their promise resolves', async () => {
+    const { transport, calls } = fakeTransport();
+    const manager = new SubscriptionManager(transport, async () => {});
+
+    let resolve!: (keys: string[]) => void;
+    const release = manager.retain(new Promise((r) => (resolve = r)));
+
+    const releasedEarly = manager.retain(Promise.resolve(['x']));
+    releasedEarly();
+
+    resolve(['a']);
+    await vi.waitFor(() => expect(calls).toEqual([['subscribe', ['a']]]));
+
+    release();
+    await microtask();
+
+    expect(calls[1]).toEqual(['unsubscribe', ['a']]);
+  });
+
+  it('writes the records the server sends', async () => {
+    const { transport, send } = fakeTransport();
+    const writeRecordMap = vi.fn(async () => {});
+
+    new SubscriptionManager(transport, writeRecordMap);
+
+    const recordMap = { counter: { a: { id: 'a', value: 1 } } } as RecordMap;
+    send(recordMap);
+
+    expect(writeRecordMap).toHaveBeenCalledWith(recordMap);
+  });
+
+  it('unsubscribes from every subscribed key when closed', async () => {
+    const { transport, calls, isListening } = fakeTransport();
+    const manager = new SubscriptionManager(transport, async () => {});
+
+    const release = manager.retain(['a', 'b']);
+    await microtask();
+
+    // not sent yet so there's nothing to unsubscribe from
+    manager.retain(['c']);
+    manager.close();
+    await microtask();
+
+    expect(calls).toEqual([
+      ['subscribe', ['a', 'b']],
+      ['unsubscribe', ['a', 'b']],
+    ]);
+    expect(isListening()).toBe(false);
+
+    release();
+    manager.retain(['d']);
+    await microtask();
+
+    expect(calls).toHaveLength(2);
+    expect(manager.getSubscribedKeys()).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+import { RecordMap } from './schema';
+import { QueryDependencies } from './queryDependencies';
+
+/**
+ * Carries subscriptions to the server and the records it sends back. Keys
+ * look like
+ *
+ * - `${table}:${id}` for a single record,
+ * - `${table}:${column}:${value}` for every record whose `column` equals
+ *   `value` (e.g. `message:thread_id:1`) and
+ * - `${table}` for every record in the table.
+ *
+ * `%` and `:` are percent-encoded in each part (see `subscriptionKey()`) so
+ * that e.g. the record `b:c` in table `a` doesn't look like column `b`.
+ *
+ * The server is expected to send a record whenever it changes while a key
+ * matching it is subscribed.
+ */
+export interface SubscriptionTransport {
+  subscribe(keys: string[]): void;
+  unsubscribe(keys: string[]): void;
+  /** @returns a function which removes the listener. */
+  onRecords(listener: (recordMap: RecordMap) => void): () => void;
+}
+
+/** Joins `parts` with `:` after percent-encoding `%` and `:` in each one. */
+export function subscriptionKey(...parts: string[]) {
+  return parts
+    .map((part) => part.replace(/%/g, '%25').replace(/:/g, '%3A'))
+    .join(':');
+}
+
+export function recordSubscriptionKey(table: string, id: string) {
+  return subscriptionKey(table, id);
+}
+
+/**
+ * Derives the keys which cover every row a query could return. For each
+ * table the query reads, an equality filter from its `WHERE` clause is used
+ * where there is one (preferring `id`). Otherwise the whole table is
+ * subscribed to.
+ *
+ * @param values the values bound to the query's parameters.
+ */
+export function querySubscriptionKeys(
+  dependencies: QueryDependencies,
+  values: unknown[]
+) {
+  const keys = new Set<string>();
+
+  for (const table of dependencies.tableNames) {
+    const filters = dependencies.filters.get(table) ?? [];
+    const filter = filters.find((f) => f.column === 'id') ?? filters[0];
+
+    const filterValues = filter?.values.map((value) =>
+      value.type === 'parameter' ? values[value.index - 1] : value.value
+    );
+
+    if (
+      !filter ||
+      !filterValues ||
+      filterValues.some((value) => value === undefined || value === null)
+    ) {
+      keys.add(subscriptionKey(table));
+      continue;
+    }
+
+    for (const value of filterValues) {
+      keys.add(
+        filter.column === 'id'
+          ? recordSubscriptionKey(table, String(value))
+          : subscriptionKey(table, filter.column, String(value))
+      );
+    }
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Reference counts the subscription keys of every live query and record
+ * which is currently being observed and keeps the server's subscriptions in
+ * sync with them. Changes are sent once per microtask so a key which is
+ * released and immediately retained again (e.g. when a component remounts)
+ * doesn't cause an unsubscribe and resubscribe.
+ */
+export class SubscriptionManager {
+  private counts = new Map<string, number>();
+
+  /** The keys the server has been asked to subscribe to. */
+  private subscribed = new Set<string>();
+
+  private flushScheduled = false;
+
+  private closed = false;
+
+  private stopListening: () => void;
+
+  /**
+   * @param writeRecordMap called with every record map sent by the server.
+   */
+  constructor(
+    private transport: SubscriptionTransport,
+    writeRecordMap: (recordMap: RecordMap) => Promise<void>
+  ) {
+    this.stopListening = transport.onRecords((recordMap) => {
+      writeRecordMap(recordMap).catch((e) =>
+        console.error('Failed to write records received from the server', e)
+      );
+    });
+  }
+
+  /**
+   * @param keys may be a promise for keys which are still being worked out.
+   * @returns a function which releases the keys.
+   */
+  retain(keys: string[] | Promise<string[]>) {
+    let retained: string[] | undefined;
+    let released = false;
+
+    const apply = (keys: string[]) => {
+      if (released || this.closed) return;
+
+      retained = keys;
+
+      for (const key of keys) {
+        this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+      }
+
+      this.scheduleFlush();
+    };
+
+    if (Array.isArray(keys)) {
+      apply(keys);
+    } else {
+      keys.then(
+        apply,
+        // the query fails on its own
+        () => {}
+      );
+    }
+
+    return () => {
+      if (released || this.closed) return;
+
+      released = true;
+
+      for (const key of retained ?? []) {
+        const count = this.counts.get(key)! - 1;
+
+        if (count === 0) {
+          this.counts.delete(key);
+        } else {
+          this.counts.set(key, count);
+        }
+      }
+
+      this.scheduleFlush();
+    };
+  }
+
+  /** The keys which are currently subscribed to. */
+  getSubscribedKeys() {
+    return Array.from(this.counts.keys());
+  }
+
+  /** Unsubscribes from every key the server was asked to subscribe to. */
+  close() {
+    this.closed = true;
+    this.stopListening();
+    this.counts.clear();
+
+    if (this.subscribed.size > 0) {
+      this.transport.unsubscribe(Array.from(this.subscribed));
+      this.subscribed.clear();
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushScheduled) return;
+
+    this.flushScheduled = true;
+
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+
+      if (this.closed) return;
+
+      const subscribe = Array.from(this.counts.keys()).filter(
+        (key) => !this.subscribed.has(key)
+      );
+
+      const unsubscribe = Array.from(this.subscribed).filter(
+        (key) => !this.counts.has(key)
+      );
+
+      for (const key of subscribe) this.subscribed.add(key);
+      for (const key of unsubscribe) this.subscribed.delete(key);
+
+      if (subscribe.length > 0) this.transport.subscribe(subscribe);
+      if (unsubscribe.length > 0) this.transport.unsubscribe(unsubscribe);
+    });
+  }
+}
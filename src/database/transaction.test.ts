@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { DatabaseChange, SQLiteClient } from './SqliteDatabase';
+import { ConstraintError } from './errors';
+import { RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+const counter = (id: string, value: number) =>
+  ({ counter: { [id]: { id, value } } }) as RecordMap;
+
+/** A client which delivers every change to `changes` as soon as it's made. */
+async function createRecordingClient(
+  options: Parameters<typeof createClient>[0] = {}
+) {
+  const client = await createClient({
+    ...options,
+    scheduler: { visible: 'sync' },
+  });
+  const changes: DatabaseChange[] = [];
+
+  client.subscribeToRowChanges((change) => changes.push(change));
+
+  return { client, changes };
+}
+
+async function readCounters(client: SQLiteClient) {
+  const { resultRows } = await client.exec({
+    sql: 'SELECT * FROM counter ORDER BY id',
+  });
+
+  return resultRows;
+}
+
+describe('transaction', () => {
+  it('emits one change with every write when it commits', async () => {
+    const { client, changes } = await createRecordingClient();
+
+    const result = await client.transaction(async (tx) => {
+      await tx.writeRecordMap(counter('a', 1));
+      await tx.exec({ sql: `INSERT INTO counter VALUES ('b', 2)` });
+      await tx.deleteRecord('counter', 'a');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(changes).toHaveLength(1);
+    expect(changes[0].changes).toEqual({
+      counter: { a: null, b: { id: 'b', value: 2 } },
+    });
+    expect(changes[0].rowChanges.map(({ operation }) => operation)).toEqual([
+      'insert',
+      'insert',
+      'delete',
+    ]);
+  });
+
+  it("rolls back and doesn't emit when fn rejects", async () => {
+    const { client, changes } = await createRecordingClient();
+    const error = new Error('nope');
+
+    await expect(
+      client.transaction(async (tx) => {
+        await tx.writeRecordMap(counter('a', 1));
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    expect(await readCounters(client)).toEqual([]);
+    expect(changes).toEqual([]);
+  });
+
+  it('keeps the outer writes when a nested savepoint rolls back', async () => {
+    const { client, changes } = await createRecordingClient();
+
+    await client.transaction(async (tx) => {
+      await tx.writeRecordMap(counter('a', 1));
+
+      await expect(
+        tx.transaction(async (tx) => {
+          await tx.writeRecordMap(counter('b', 2));
+          throw new Error('nope');
+        })
+      ).rejects.toThrow('nope');
+
+      await tx.transaction((tx) => tx.writeRecordMap(counter('c', 3)));
+    });
+
+    expect(await readCounters(client)).toEqual([
+      { id: 'a', value: 1 },
+      { id: 'c', value: 3 },
+    ]);
+    expect(changes).toHaveLength(1);
+    expect(Object.keys(changes[0].changes.counter!)).toEqual(['a', 'c']);
+  });
+
+  it('rolls back when the commit fails', async () => {
+    const { client, changes } = await createRecordingClient({
+      migrations: [
+        {
+          version: 1,
+          name: 'Deferred foreign key',
+          up: `
+            CREATE TABLE parent (id TEXT PRIMARY KEY);
+            CREATE TABLE child (
+              id TEXT PRIMARY KEY,
+              parent_id TEXT REFERENCES parent (id) DEFERRABLE INITIALLY DEFERRED
+            );
+          `,
+        },
+      ],
+    });
+
+    await client.exec({ sql: 'PRAGMA foreign_keys = ON' });
+
+    await expect(
+      client.transaction((tx) =>
+        tx.exec({ sql: `INSERT INTO child VALUES ('a', 'missing')` })
+      )
+    ).rejects.toBeInstanceOf(ConstraintError);
+
+    // the database isn't left inside the transaction
+    const { resultRows } = await client.exec({ sql: 'SELECT * FROM child' });
+    expect(resultRows).toEqual([]);
+    expect(changes).toEqual([]);
+  });
+
+  it('makes other queries wait until it finishes', async () => {
+    const { client } = await createRecordingClient();
+    const order: string[] = [];
+
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+
+    const transaction = client.transaction(async (tx) => {
+      await tx.writeRecordMap(counter('a', 1));
+      order.push('transaction wrote');
+      await finished;
+      await tx.writeRecordMap(counter('a', 2));
+      order.push('transaction finished');
+    });
+
+    // let the transaction begin
+    await new Promise((resolve) => setTimeout(resolve));
+
+    const read = readCounters(client).then((rows) => {
+      order.push('read');
+      return rows;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(order).toEqual(['transaction wrote']);
+
+    finish();
+    await transaction;
+
+    expect(await read).toEqual([{ id: 'a', value: 2 }]);
+    expect(order).toEqual([
+      'transaction wrote',
+      'transaction finished',
+      'read',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { SqlValue } from '@sqlite.org/sqlite-wasm';
+import { Sql } from 'sql-template-tag';
+import { RecordMap, RecordTable } from './schema';
+import { deleteRecordsSql, deleteWhereSql } from './deleteRecordSql';
+import { quoteIdentifier } from './changeCapture';
+import {
+  DatabaseConnection,
+  SQLiteClientExecProps,
+  SQLiteClientExecResult,
+} from './connection';
+
+/**
+ * Runs `fn` inside a database transaction. The transaction is committed once
+ * the promise returned by `fn` resolves and rolled back if it rejects, in
+ * which case the error is rethrown. Subscribers receive a single
+ * `DatabaseChange` with every change made by the transaction when it
+ * commits and nothing if it is rolled back.
+ */
+export async function runTransaction<R>(
+  connection: DatabaseConnection,
+  fn: (tx: SQLiteTransaction) => Promise<R>
+) {
+  const { result } = await runTransactionWithChange(connection, fn);
+  return result;
+}
+
+/**
+ * Same as `runTransaction` except it also resolves with the change the
+ * transaction committed, or `null` if it didn't change anything.
+ */
+export async function runTransactionWithChange<R>(
+  connection: DatabaseConnection,
+  fn: (tx: SQLiteTransaction) => Promise<R>
+) {
+  const transactionId = await connection.beginTransaction();
+  const tx = new SQLiteTransaction(connection, transactionId);
+
+  let result: R;
+
+  try {
+    result = await fn(tx);
+  } catch (e) {
+    try {
+      await connection.rollbackTransaction(transactionId);
+    } catch (rollbackError) {
+      console.error('Failed to roll back the transaction', rollbackError);
+    }
+
+    throw e;
+  }
+
+  // If the commit fails the transaction is rolled back
+  const change = await connection.commitTransaction(transactionId);
+
+  return { result, change };
+}
+
+/**
+ * Reads and writes which run inside an open transaction. Every other query
+ * (including ones made through `SQLiteClient`) waits for the transaction to
+ * finish, so awaiting the client inside a transaction deadlocks. Use `tx`
+ * instead.
+ */
+export class SQLiteTransaction {
+  private savepointCount = 0;
+
+  constructor(
+    private connection: DatabaseConnection,
+    readonly transactionId: string
+  ) {}
+
+  async exec<T = { [columnName: string]: SqlValue }>(
+    args: SQLiteClientExecProps
+  ): Promise<SQLiteClientExecResult<T>> {
+    return this.connection.exec<T>({
+      ...args,
+      transactionId: this.transactionId,
+    });
+  }
+
+  /**
+   * Upserts every record in the record map. Records whose value is `null`
+   * (tombstones) are deleted.
+   */
+  async writeRecordMap(recordMap: RecordMap) {
+    await this.connection.writeRecordMap(recordMap, {
+      transactionId: this.transactionId,
+    });
+  }
+
+  async deleteRecord(table: RecordTable, id: string) {
+    await this.deleteRecords(table, [id]);
+  }
+
+  async deleteRecords(table: RecordTable, ids: string[]) {
+    for (const query of deleteRecordsSql(table, ids)) {
+      await this.exec({ sql: query.sql, bind: query.values });
+    }
+  }
+
+  /** See `SQLiteClient#deleteWhere()`. */
+  async deleteWhere(table: RecordTable, where: Sql) {
+    const query = deleteWhereSql(table, where);
+
+    await this.exec({ sql: query.sql, bind: query.values });
+  }
+
+  /**
+   * Runs `fn` inside a savepoint. If `fn` rejects, only the changes made
+   * inside the savepoint are rolled back and the error is rethrown. The
+   * outer transaction stays open either way.
+   */
+  async transaction<R>(fn: (tx: SQLiteTransaction) => Promise<R>) {
+    const savepoint = quoteIdentifier(`savepoint_${++this.savepointCount}`);
+
+    await this.exec({ sql: `SAVEPOINT ${savepoint}` });
+
+    let result: R;
+
+    try {
+      result = await fn(this);
+    } catch (e) {
+      await this.exec({
+        sql: `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`,
+      });
+
+      throw e;
+    }
+
+    await this.exec({ sql: `RELEASE ${savepoint}` });
+
+    return result;
+  }
+}
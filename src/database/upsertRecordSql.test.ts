@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { upsertRecordSql } from './upsertRecordSql';
+import { CounterRecord, RecordMap } from './schema';
+import { createClient } from '../test/client';
+
+const normalize = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+describe('upsertRecordSql', () => {
+  it('inserts every column and updates all but id on conflict', () => {
+    const query = upsertRecordSql('message', {
+      id: 'm1',
+      thread_id: 't1',
+      content: 'Hello',
+    });
+
+    expect(normalize(query.sql)).toBe(
+      'INSERT INTO message ( id, thread_id, content ) VALUES ( ?,?,? ) ' +
+        'ON CONFLICT(id) DO UPDATE SET thread_id = excluded.thread_id, ' +
+        'content = excluded.content;'
+    );
+    expect(query.values).toEqual(['m1', 't1', 'Hello']);
+  });
+
+  it('leaves out undefined columns and does nothing on conflict without any', () => {
+    const query = upsertRecordSql('counter', { id: 'a' } as CounterRecord);
+
+    expect(normalize(query.sql)).toBe(
+      'INSERT INTO counter ( id ) VALUES ( ? ) ON CONFLICT(id) DO NOTHING;'
+    );
+    expect(query.values).toEqual(['a']);
+  });
+
+  it('writes the default of an omitted column and keeps the value of an existing record', async () => {
+    const client = await createClient();
+    const counter = (record: Partial<CounterRecord>) =>
+      ({ counter: { [record.id!]: record } }) as RecordMap;
+
+    await client.writeRecordMap(counter({ id: 'a' }));
+    await client.writeRecordMap(counter({ id: 'b', value: 5 }));
+    await client.writeRecordMap(counter({ id: 'b' }));
+    await client.writeRecordMap(counter({ id: 'c', value: 1 }));
+    await client.writeRecordMap(counter({ id: 'c', value: 2 }));
+
+    const { resultRows } = await client.exec({
+      sql: 'SELECT * FROM counter ORDER BY id',
+    });
+
+    expect(resultRows).toEqual([
+      { id: 'a', value: 0 },
+      { id: 'b', value: 5 },
+      { id: 'c', value: 2 },
+    ]);
+  });
+});
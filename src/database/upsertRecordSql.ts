@@ -1,24 +1,38 @@
-import sql, { Sql } from "sql-template-tag";
-import { RecordTable, RecordValue, TableToRecord } from "./schema";
+import sql, { join, raw } from 'sql-template-tag';
+import { RecordTable, RecordValue, tables } from './schema';
 
-export function upsertRecordSql<T extends RecordTable>(table: T, record: RecordValue<T>) {
-  return upsertRecordMap[table](record);
-}
+/**
+ * Inserts `record` or updates the record with its id. Columns which are
+ * `undefined` in `record` are left out so that a new record gets the
+ * column's `default` and an existing record keeps its value.
+ */
+export function upsertRecordSql<T extends RecordTable>(
+  table: T,
+  record: RecordValue<T>
+) {
+  const columns = (
+    Object.keys(tables[table].columns) as Array<keyof RecordValue<T> & string>
+  ).filter((column) => record[column] !== undefined);
+
+  const updatedColumns = columns.filter((column) => column !== 'id');
 
-const upsertRecordMap = {
-  counter: (record) => sql`
-    INSERT INTO counter (
-      id, 
-      value
-    ) 
+  const onConflict =
+    updatedColumns.length === 0
+      ? raw('DO NOTHING')
+      : raw(
+          `DO UPDATE SET ${updatedColumns
+            .map((column) => `${column} = excluded.${column}`)
+            .join(', ')}`
+        );
+
+  return sql`
+    INSERT INTO ${raw(table)} (
+      ${raw(columns.join(', '))}
+    )
     VALUES (
-      ${record.id}, 
-      ${record.value}
-    ) 
-    ON CONFLICT(id) 
-    DO UPDATE SET 
-      value = ${record.value};
-  `
-} satisfies {
-  [K in RecordTable]: (record: TableToRecord[K]) => Sql
-}
\ No newline at end of file
+      ${join(columns.map((column) => record[column]))}
+    )
+    ON CONFLICT(id)
+    ${onConflict};
+  `;
+}
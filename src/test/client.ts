@@ -0,0 +1,27 @@
+import { afterEach } from 'vitest';
+import { SQLiteClient } from '../database/SqliteDatabase';
+
+const clients: SQLiteClient[] = [];
+
+afterEach(async () => {
+  while (clients.length > 0) await clients.pop()!.close();
+});
+
+/**
+ * Opens a migrated in-memory client which is closed after the test. It
+ * doesn't log changes unless `instrumentation` is passed.
+ */
+export async function createClient(
+  options: Parameters<typeof SQLiteClient.init>[0] = {}
+) {
+  const client = await SQLiteClient.init({ instrumentation: null, ...options });
+  clients.push(client);
+  return client;
+}
+
+/** Closes a client from `createClient()` before the test ends. */
+export async function closeClient(client: SQLiteClient) {
+  const index = clients.indexOf(client);
+  if (index !== -1) clients.splice(index, 1);
+  await client.close();
+}
@@ -0,0 +1,35 @@
+import { ReactElement } from 'react';
+import { ReactTestRenderer, act, create } from 'react-test-renderer';
+import { afterEach, vi } from 'vitest';
+
+// tells React that updates are wrapped in `act()`
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+const renderers: ReactTestRenderer[] = [];
+
+afterEach(() => {
+  act(() => {
+    while (renderers.length > 0) renderers.pop()!.unmount();
+  });
+});
+
+/** Renders `element` and runs its effects. It's unmounted after the test. */
+export async function render(element: ReactElement) {
+  let renderer!: ReactTestRenderer;
+
+  await act(async () => {
+    renderer = create(element);
+  });
+
+  renderers.push(renderer);
+  return renderer;
+}
+
+/** `vi.waitFor()` which lets React render the updates made meanwhile. */
+export async function waitFor(callback: () => void) {
+  await act(async () => {
+    await vi.waitFor(callback);
+  });
+}
@@ -0,0 +1,2 @@
+// The Node build of SQLite expects the worker global `self`.
+(globalThis as { self?: unknown }).self ??= globalThis;
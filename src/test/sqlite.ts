@@ -0,0 +1,14 @@
+import sqlite3InitModule, { Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+
+let modulePromise: Promise<Sqlite3Static> | undefined;
+
+/** Loads SQLite once per test file. */
+export function loadSqlite() {
+  return (modulePromise ||= sqlite3InitModule());
+}
+
+/** Opens an empty in-memory database which isn't migrated. */
+export async function openMemoryDatabase() {
+  const sqlite3 = await loadSqlite();
+  return new sqlite3.oo1.DB(':memory:');
+}
@@ -1,29 +1,14 @@
 import sql from 'sql-template-tag';
-import { useDatabaseContext } from './database/context';
+import { useLiveQuery } from './database/hooks';
 import { SQLiteClient } from './database/SqliteDatabase';
-import { useObservable, useObservableState } from 'observable-hooks';
-import { of, switchMap } from 'rxjs';
+import { Observable, map } from 'rxjs';
+import { joinManyToMany } from './database/operators';
 import { MessageRecord } from './database/schema';
 
 export function useThreadMessages(threadId: string | null | undefined) {
-  const db = useDatabaseContext();
-
-  const query = useObservable(
-    (inputs$) => {
-      return inputs$.pipe(
-        switchMap(([threadId, db]) =>
-          threadId
-            ? db.observeQuery(getSqlForThreadMessages(threadId))
-            : of(null)
-        )
-      );
-    },
-    [threadId, db]
+  return useLiveQuery<MessageRecord>(
+    threadId ? getSqlForThreadMessages(threadId) : null
   );
-
-  const record = useObservableState(query, 'loading');
-
-  return record;
 }
 
 export async function getThreadMessages(db: SQLiteClient, threadId: string) {
@@ -58,6 +43,10 @@ export async function getThreadMessages(db: SQLiteClient, threadId: string) {
 // a globally unique identifier (e.g `${table}:${recordId}`) for that
 // record. The client then just fetches that record and our SQLite
 // observability automatically kicks in and rerenders any queries.
+//
+// `SQLiteClient` does this for us when it's given a `subscriptionTransport`.
+// The keys are derived from every query and record being observed (see
+// `./database/subscriptions.ts`).
 const getSqlForThreadMessages = (threadId: string) => sql`
   SELECT
     *
@@ -67,6 +56,15 @@ const getSqlForThreadMessages = (threadId: string) => sql`
     message.thread_id = ${threadId};
 `;
 
+// These tables aren't part of the demo's schema. They're only here to
+// illustrate the queries below.
+type ChannelThreadRecord = {
+  id: string;
+  channel_id: string;
+  thread_id: string;
+};
+type LabelRecord = { id: string; name: string };
+
 // But what about more complex queries? In this case the client
 // might need to subscribe to multiple keys associated with the query.
 // For example, below is a contrived query that involves two joins.
@@ -79,7 +77,9 @@ const getSqlForThreadMessages = (threadId: string) => sql`
 // 2. A channel_thread is added/removed with `channel_thread.channel_id === ${channelId}`
 // 3. A thread_label is added/removed with
 //    `thread_id === ${...uhh...how do we do this?}`
-const getSqlForLabelsAssocWithThreadsInChannel = (channelId: string) => sql`
+export const getSqlForLabelsAssocWithThreadsInChannel = (
+  channelId: string
+) => sql`
   SELECT
     label.*
   FROM
@@ -140,23 +140,29 @@ const getSqlForLabelsInThread = (threadId: string) => sql`
 // our channel threads query, then using the results to subscribe to a bunch
 // of labels for thread queries. Then we deduplicate the results.
 //
+// `joinManyToMany` (see `./database/operators.ts`) keeps the labels query of
+// each thread subscribed for as long as the thread is in the channel, so
+// adding a thread to the channel only runs one new query.
+//
 // This does increase the total amount of time it takes us to resolve this query,
 // but if your queries are each resolving in milliseconds this should often be
 // acceptable.
-function observeLabelsAssocWithThreadsInChannel(
+export function observeLabelsAssocWithThreadsInChannel(
   db: SQLiteClient,
   channelId: string
 ): Observable<LabelRecord[]> {
-  return db.observeQuery(getSqlForChannelThreads(channelId)).pipe(
-    switchMap((threadLabels) => {
-      if (threadLabels.length === 0) return of([]);
-
-      return combineLatest(
-        threadLabels.map((thread_id) =>
-          db.observeQuery(getSqlForLabelsInThread(thread_id))
-        )
-      );
-    }),
-    map((results) => uniqBy(results.flat(), 'id'))
-  );
+  return db
+    .observeQuery<ChannelThreadRecord>(getSqlForChannelThreads(channelId))
+    .pipe(
+      map(({ resultRows }) => resultRows),
+      joinManyToMany(
+        (channelThread) => channelThread.thread_id,
+        (channelThread) =>
+          db
+            .observeQuery<LabelRecord>(
+              getSqlForLabelsInThread(channelThread.thread_id)
+            )
+            .pipe(map(({ resultRows }) => resultRows))
+      )
+    );
 }
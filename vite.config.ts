@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,27 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['@sqlite.org/sqlite-wasm'],
   },
+  server: {
+    // required for OPFS storage (see `src/database/storage.ts`)
+    headers: {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'require-corp',
+    },
+  },
+  worker: {
+    // the database worker (`src/database/sqlite.worker.ts`) is a module
+    // worker
+    format: 'es',
+  },
+  test: {
+    environment: 'node',
+    // tests run the Node build of SQLite rather than the browser one
+    alias: {
+      '@sqlite.org/sqlite-wasm': new URL(
+        './node_modules/@sqlite.org/sqlite-wasm/sqlite-wasm/jswasm/sqlite3-node.mjs',
+        import.meta.url
+      ).pathname,
+    },
+    setupFiles: ['./src/test/setup.ts'],
+  },
 });